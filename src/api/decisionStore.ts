@@ -0,0 +1,130 @@
+/**
+ * Decision Store
+ *
+ * Keeps every invoice processed through the API together with the pipeline's
+ * decision and the human reviews submitted for it, so decisions can be looked
+ * up and reviewed later. Persisted as one JSON file; without a path the store
+ * lives in memory only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvoiceInput, InvoiceDecisionOutput } from '../types';
+import { HumanReviewSubmission } from '../core';
+import { getTimestamp, writeFileAtomic, withFileLock } from '../utils';
+
+/**
+ * Default path for stored decisions
+ */
+export const DEFAULT_DECISIONS_PATH = path.join(process.cwd(), 'data', 'decisions.json');
+
+/**
+ * Where an invoice stands after processing and review
+ */
+export type DecisionStatus = 'pending_review' | 'auto_approved' | 'approved' | 'rejected';
+
+/**
+ * A submitted review as stored with the decision
+ */
+export interface StoredReview extends HumanReviewSubmission {
+    reviewedAt: string;
+
+    /** IDs of the decisions recorded on correction memories */
+    decisionIds: string[];
+}
+
+/**
+ * A processed invoice with its decision
+ */
+export interface StoredDecision {
+    invoiceId: string;
+    invoice: InvoiceInput;
+    output: InvoiceDecisionOutput;
+    status: DecisionStatus;
+    processedAt: string;
+    reviews: StoredReview[];
+}
+
+/**
+ * Persistence for processed invoices and their decisions
+ */
+export class DecisionStore {
+    private readonly filePath: string | undefined;
+    private records: Record<string, StoredDecision> = {};
+
+    constructor(filePath?: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load stored decisions (no-op for an in-memory store)
+     */
+    async load(): Promise<void> {
+        this.records = await this.readFile();
+    }
+
+    get(invoiceId: string): StoredDecision | undefined {
+        return this.records[invoiceId];
+    }
+
+    has(invoiceId: string): boolean {
+        return invoiceId in this.records;
+    }
+
+    /**
+     * Store the pipeline's decision for a newly processed invoice
+     */
+    async add(invoice: InvoiceInput, output: InvoiceDecisionOutput): Promise<StoredDecision> {
+        const record: StoredDecision = {
+            invoiceId: invoice.invoiceId,
+            invoice,
+            output,
+            status: output.requiresHumanReview ? 'pending_review' : 'auto_approved',
+            processedAt: getTimestamp(),
+            reviews: [],
+        };
+        await this.put(record);
+        return record;
+    }
+
+    /**
+     * Record a review and the invoice's resulting status
+     */
+    async addReview(invoiceId: string, review: StoredReview): Promise<StoredDecision> {
+        const record = this.records[invoiceId];
+        if (!record) {
+            throw new Error(`No decision stored for invoice ${invoiceId}`);
+        }
+
+        const updated: StoredDecision = {
+            ...record,
+            status: review.finalDecision,
+            reviews: [...record.reviews, review],
+        };
+        await this.put(updated);
+        return updated;
+    }
+
+    /**
+     * Write one record, re-reading the file under its lock so records
+     * stored by other processes are kept
+     */
+    private async put(record: StoredDecision): Promise<void> {
+        this.records[record.invoiceId] = record;
+        const filePath = this.filePath;
+        if (!filePath) return;
+
+        await withFileLock(filePath, async () => {
+            const stored = await this.readFile();
+            this.records = { ...stored, [record.invoiceId]: record };
+            await writeFileAtomic(filePath, JSON.stringify(this.records, null, 2));
+        });
+    }
+
+    private async readFile(): Promise<Record<string, StoredDecision>> {
+        if (!this.filePath || !fs.existsSync(this.filePath)) {
+            return { ...this.records };
+        }
+        return JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8')) as Record<string, StoredDecision>;
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * API Errors
+ *
+ * Errors thrown by route handlers are turned into structured JSON responses:
+ * { "error": { "code": "...", "message": "...", "details": [...] } }
+ */
+
+/**
+ * One problem found while validating a request body
+ */
+export interface ValidationIssue {
+    /** Path of the offending value (e.g., "lineItems[0].amount") */
+    path: string;
+    message: string;
+}
+
+/**
+ * Error response body
+ */
+export interface ApiErrorBody {
+    error: {
+        code: string;
+        message: string;
+        details?: ValidationIssue[];
+    };
+}
+
+/**
+ * Raised by route handlers to answer with a specific status code
+ */
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: string,
+        message: string,
+        public readonly details?: ValidationIssue[]
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+
+    toBody(): ApiErrorBody {
+        return {
+            error: {
+                code: this.code,
+                message: this.message,
+                ...(this.details ? { details: this.details } : {}),
+            },
+        };
+    }
+}
+
+/**
+ * 400 for a request body that failed validation
+ */
+export function validationError(issues: ValidationIssue[]): ApiError {
+    return new ApiError(400, 'validation_failed', 'Request body failed validation', issues);
+}
@@ -0,0 +1,7 @@
+/**
+ * API module exports
+ */
+export * from './server';
+export * from './errors';
+export * from './validation';
+export * from './decisionStore';
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * API Entry Point
+ *
+ * Environment:
+ *   PORT               Port to listen on (default 3000)
+ *   MEMORY_PATH        Memory file (default: data/memory.json)
+ *   DECISIONS_PATH     Processed invoices (default: data/decisions.json)
+ *   REVIEW_QUEUE_PATH  Review queue for escalated invoices (default: data/review-queue.json)
+ *   REFERENCE_DATA_DIR Purchase orders and delivery notes for matching (default: invoices)
+ */
+
+import { API } from '../config';
+import { loadReferenceData } from '../core';
+import { MemoryStore } from '../memory';
+import { ReviewQueue, DEFAULT_REVIEW_QUEUE_PATH } from '../review';
+import { logger } from '../utils';
+import { createApiServer } from './server';
+import { DecisionStore, DEFAULT_DECISIONS_PATH } from './decisionStore';
+
+async function main(): Promise<void> {
+    const memoryStore = new MemoryStore(process.env.MEMORY_PATH);
+    await memoryStore.loadFromDisk();
+
+    const decisionStore = new DecisionStore(process.env.DECISIONS_PATH || DEFAULT_DECISIONS_PATH);
+    await decisionStore.load();
+
+    const reviewQueue = new ReviewQueue(process.env.REVIEW_QUEUE_PATH || DEFAULT_REVIEW_QUEUE_PATH);
+    await reviewQueue.load();
+
+    const referenceData = loadReferenceData(process.env.REFERENCE_DATA_DIR);
+
+    const port = Number(process.env.PORT) || API.PORT;
+    const server = createApiServer({ memoryStore, decisionStore, reviewQueue, pipelineOptions: { referenceData } });
+    server.listen(port, () => {
+        logger.info(`Invoice memory API listening on port ${port}`);
+    });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
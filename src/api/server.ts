@@ -0,0 +1,284 @@
+/**
+ * HTTP API
+ *
+ * REST endpoints over the invoice pipeline, built on Node's http module:
+ * - POST /invoices                 process an invoice, returns InvoiceDecisionOutput
+ * - GET  /invoices/:id             stored decision, reviews and audit trail
+ * - POST /invoices/:id/review      submit a human review (learned into memory)
+ * - GET  /vendors/:id/memory       vendor memory
+ * - GET  /health                   liveness check
+ *
+ * Requests that change memory run one at a time so the pipeline always
+ * sees the memory left by the previous invoice.
+ */
+
+import * as http from 'http';
+import { InvoiceInput, InvoiceDecisionOutput } from '../types';
+import { API } from '../config';
+import { MemoryStore } from '../memory';
+import {
+    processInvoice,
+    PipelineOptions,
+    applyHumanReview,
+    HumanReviewSubmission,
+    readAuditLog,
+} from '../core';
+import { ReviewQueue } from '../review';
+import { getTimestamp, logger } from '../utils';
+import { ApiError, validationError } from './errors';
+import { validateInvoiceInput, validateReviewSubmission } from './validation';
+import { DecisionStore, StoredDecision } from './decisionStore';
+
+/**
+ * API server configuration
+ */
+export interface ApiServerOptions {
+    /** Loaded memory store; saved after every request that changes it */
+    memoryStore: MemoryStore;
+
+    /** Store for processed invoices (default: in-memory) */
+    decisionStore?: DecisionStore;
+
+    /** Queue that escalated invoices are added to */
+    reviewQueue?: ReviewQueue;
+
+    /** Options passed to processInvoice */
+    pipelineOptions?: PipelineOptions;
+
+    /** Audit log read for GET /invoices/:id (default: data/audit-log.jsonl) */
+    auditLogPath?: string;
+
+    /** Largest accepted request body */
+    maxBodyBytes?: number;
+}
+
+interface RouteResult {
+    status: number;
+    body: unknown;
+}
+
+interface RouteContext {
+    params: string[];
+    body: () => Promise<unknown>;
+}
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handler: (ctx: RouteContext) => RouteResult | Promise<RouteResult>;
+}
+
+/**
+ * Create the API server (call listen() to start it)
+ */
+export function createApiServer(options: ApiServerOptions): http.Server {
+    const { memoryStore } = options;
+    const decisionStore = options.decisionStore ?? new DecisionStore();
+    const maxBodyBytes = options.maxBodyBytes ?? API.MAX_BODY_BYTES;
+
+    let mutationQueue: Promise<unknown> = Promise.resolve();
+    const serialized = <T>(fn: () => Promise<T>): Promise<T> => {
+        const run = mutationQueue.then(fn);
+        mutationQueue = run.catch(() => undefined);
+        return run;
+    };
+
+    const routes: Route[] = [
+        {
+            method: 'GET',
+            pattern: /^\/health$/,
+            handler: (): RouteResult => ({ status: 200, body: { status: 'ok', timestamp: getTimestamp() } }),
+        },
+        {
+            method: 'POST',
+            pattern: /^\/invoices$/,
+            handler: async ({ body }): Promise<RouteResult> => {
+                const input = await body();
+                const issues = validateInvoiceInput(input);
+                if (issues.length > 0) throw validationError(issues);
+                const invoice = input as InvoiceInput;
+
+                const output = await serialized(async (): Promise<InvoiceDecisionOutput> => {
+                    if (decisionStore.has(invoice.invoiceId)) {
+                        throw new ApiError(
+                            409,
+                            'already_processed',
+                            `Invoice ${invoice.invoiceId} has already been processed`
+                        );
+                    }
+                    const result = await processInvoice(invoice, memoryStore, options.pipelineOptions);
+                    await memoryStore.saveIfDirty();
+                    await decisionStore.add(invoice, result);
+                    await options.reviewQueue?.enqueue(invoice, result);
+                    return result;
+                });
+                return { status: 201, body: output };
+            },
+        },
+        {
+            method: 'GET',
+            pattern: /^\/invoices\/([^/]+)$/,
+            handler: ({ params: [invoiceId] }): RouteResult => {
+                const record = requireDecision(decisionStore, invoiceId);
+                return {
+                    status: 200,
+                    body: {
+                        ...record,
+                        auditLog: readAuditLog({ invoiceId }, options.auditLogPath),
+                    },
+                };
+            },
+        },
+        {
+            method: 'POST',
+            pattern: /^\/invoices\/([^/]+)\/review$/,
+            handler: async ({ params: [invoiceId], body }): Promise<RouteResult> => {
+                const input = await body();
+                const issues = validateReviewSubmission(input);
+                if (issues.length > 0) throw validationError(issues);
+                const review = input as HumanReviewSubmission;
+
+                return serialized(async (): Promise<RouteResult> => {
+                    const record = requireDecision(decisionStore, invoiceId);
+                    if (record.status === 'approved' || record.status === 'rejected') {
+                        throw new ApiError(
+                            409,
+                            'already_reviewed',
+                            `Invoice ${invoiceId} has already been ${record.status}`
+                        );
+                    }
+
+                    const outcome = await applyHumanReview(memoryStore, record.invoice, record.output, review);
+                    await memoryStore.saveIfDirty();
+                    const decisionIds = outcome.decisions.map((d) => d.decisionId as string);
+                    const updated = await decisionStore.addReview(invoiceId, {
+                        ...review,
+                        reviewedAt: getTimestamp(),
+                        decisionIds,
+                    });
+                    await options.reviewQueue?.close(invoiceId, review.finalDecision, review.userId, decisionIds);
+                    return {
+                        status: 200,
+                        body: {
+                            invoiceId,
+                            status: updated.status,
+                            decisions: outcome.decisions,
+                            vendorId: outcome.learning.vendorId,
+                            correctionMemories: outcome.learning.correctionMemories.map((c) => c.id),
+                            resolutionMemories: outcome.learning.resolutionMemories.map((r) => r.id),
+                            notes: outcome.notes,
+                        },
+                    };
+                });
+            },
+        },
+        {
+            method: 'GET',
+            pattern: /^\/vendors\/([^/]+)\/memory$/,
+            handler: ({ params: [vendorId] }): RouteResult => {
+                const vendorMemory = memoryStore.getVendorMemory(vendorId);
+                if (!vendorMemory) {
+                    throw new ApiError(404, 'not_found', `No memory for vendor ${vendorId}`);
+                }
+                return { status: 200, body: vendorMemory };
+            },
+        },
+    ];
+
+    return http.createServer((req, res) => {
+        handleRequest(req, routes, maxBodyBytes)
+            .then(({ status, body }) => sendJson(res, status, body))
+            .catch((error) => {
+                if (error instanceof ApiError) {
+                    sendJson(res, error.status, error.toBody());
+                    return;
+                }
+                logger.error(`${req.method} ${req.url} failed`, error);
+                sendJson(res, 500, new ApiError(500, 'internal_error', 'Internal server error').toBody());
+            });
+    });
+}
+
+async function handleRequest(
+    req: http.IncomingMessage,
+    routes: Route[],
+    maxBodyBytes: number
+): Promise<RouteResult> {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+
+    const matching = routes
+        .map((route) => ({ route, match: route.pattern.exec(pathname) }))
+        .filter((candidate) => candidate.match !== null);
+    if (matching.length === 0) {
+        throw new ApiError(404, 'not_found', `No route for ${pathname}`);
+    }
+
+    const selected = matching.find((candidate) => candidate.route.method === req.method);
+    if (!selected) {
+        throw new ApiError(
+            405,
+            'method_not_allowed',
+            `${req.method} not allowed (use ${matching.map((m) => m.route.method).join(', ')})`
+        );
+    }
+
+    return selected.route.handler({
+        params: (selected.match as RegExpExecArray).slice(1).map(decodeURIComponent),
+        body: () => readJsonBody(req, maxBodyBytes),
+    });
+}
+
+function requireDecision(decisionStore: DecisionStore, invoiceId: string): StoredDecision {
+    const record = decisionStore.get(invoiceId);
+    if (!record) {
+        throw new ApiError(404, 'not_found', `Invoice ${invoiceId} has not been processed`);
+    }
+    return record;
+}
+
+function readJsonBody(req: http.IncomingMessage, maxBodyBytes: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        // Oversized bodies are drained (not buffered) so the 413 can still be sent
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size <= maxBodyBytes) chunks.push(chunk);
+        });
+
+        req.on('end', () => {
+            if (size > maxBodyBytes) {
+                reject(new ApiError(413, 'payload_too_large', `Request body exceeds ${maxBodyBytes} bytes`));
+                return;
+            }
+            const raw = Buffer.concat(chunks).toString('utf-8');
+            if (raw.trim() === '') {
+                reject(new ApiError(400, 'invalid_json', 'Request body is empty'));
+                return;
+            }
+            try {
+                resolve(JSON.parse(raw));
+            } catch (error) {
+                reject(
+                    new ApiError(
+                        400,
+                        'invalid_json',
+                        `Request body is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+                    )
+                );
+            }
+        });
+
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    const payload = JSON.stringify(body, null, 2);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+}
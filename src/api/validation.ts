@@ -0,0 +1,161 @@
+/**
+ * Request Validation
+ *
+ * Structural checks for request bodies before they reach the pipeline.
+ * Every problem is reported, not just the first one.
+ */
+
+import { ValidationIssue } from './errors';
+
+type Body = Record<string, unknown>;
+
+function isObject(value: unknown): value is Body {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function requireString(body: Body, key: string, path: string, issues: ValidationIssue[]): void {
+    const value = body[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ path, message: 'must be a non-empty string' });
+    }
+}
+
+function optionalString(body: Body, key: string, path: string, issues: ValidationIssue[]): void {
+    if (body[key] !== undefined && body[key] !== null && typeof body[key] !== 'string') {
+        issues.push({ path, message: 'must be a string' });
+    }
+}
+
+function optionalNumber(body: Body, key: string, path: string, issues: ValidationIssue[]): void {
+    if (body[key] !== undefined && body[key] !== null && !isFiniteNumber(body[key])) {
+        issues.push({ path, message: 'must be a number' });
+    }
+}
+
+/**
+ * Validate a POST /invoices body
+ *
+ * Currency may be missing: the pipeline recovers it from rawText.
+ */
+export function validateInvoiceInput(value: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(value)) {
+        return [{ path: '', message: 'must be a JSON object' }];
+    }
+
+    requireString(value, 'invoiceId', 'invoiceId', issues);
+    requireString(value, 'invoiceNumber', 'invoiceNumber', issues);
+    requireString(value, 'invoiceDate', 'invoiceDate', issues);
+    optionalString(value, 'currency', 'currency', issues);
+    optionalString(value, 'dueDate', 'dueDate', issues);
+    optionalString(value, 'serviceDate', 'serviceDate', issues);
+    optionalString(value, 'poNumber', 'poNumber', issues);
+    optionalString(value, 'rawText', 'rawText', issues);
+    optionalNumber(value, 'extractionConfidence', 'extractionConfidence', issues);
+
+    if (!isFiniteNumber(value.totalAmount)) {
+        issues.push({ path: 'totalAmount', message: 'must be a number' });
+    }
+
+    if (!isObject(value.vendor)) {
+        issues.push({ path: 'vendor', message: 'must be an object with a name' });
+    } else {
+        requireString(value.vendor, 'name', 'vendor.name', issues);
+        optionalString(value.vendor, 'id', 'vendor.id', issues);
+        optionalString(value.vendor, 'taxId', 'vendor.taxId', issues);
+        optionalString(value.vendor, 'address', 'vendor.address', issues);
+    }
+
+    if (!Array.isArray(value.lineItems)) {
+        issues.push({ path: 'lineItems', message: 'must be an array' });
+    } else {
+        value.lineItems.forEach((item: unknown, index: number) => {
+            const path = `lineItems[${index}]`;
+            if (!isObject(item)) {
+                issues.push({ path, message: 'must be an object' });
+                return;
+            }
+            if (!isFiniteNumber(item.amount)) {
+                issues.push({ path: `${path}.amount`, message: 'must be a number' });
+            }
+            optionalString(item, 'description', `${path}.description`, issues);
+            optionalNumber(item, 'quantity', `${path}.quantity`, issues);
+            optionalNumber(item, 'unitPrice', `${path}.unitPrice`, issues);
+        });
+    }
+
+    if (value.metadata !== undefined && !isObject(value.metadata)) {
+        issues.push({ path: 'metadata', message: 'must be an object' });
+    }
+
+    return issues;
+}
+
+const CORRECTION_ACTIONS = ['approved', 'rejected', 'modified'];
+
+/**
+ * Validate a POST /invoices/:id/review body
+ */
+export function validateReviewSubmission(value: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(value)) {
+        return [{ path: '', message: 'must be a JSON object' }];
+    }
+
+    if (value.finalDecision !== 'approved' && value.finalDecision !== 'rejected') {
+        issues.push({ path: 'finalDecision', message: 'must be "approved" or "rejected"' });
+    }
+    optionalString(value, 'userId', 'userId', issues);
+
+    if (value.decisions !== undefined) {
+        if (!Array.isArray(value.decisions)) {
+            issues.push({ path: 'decisions', message: 'must be an array' });
+        } else {
+            value.decisions.forEach((decision: unknown, index: number) => {
+                const path = `decisions[${index}]`;
+                if (!isObject(decision)) {
+                    issues.push({ path, message: 'must be an object' });
+                    return;
+                }
+                requireString(decision, 'field', `${path}.field`, issues);
+                optionalString(decision, 'reason', `${path}.reason`, issues);
+                if (decision.index !== undefined && !(Number.isInteger(decision.index) && (decision.index as number) >= 0)) {
+                    issues.push({ path: `${path}.index`, message: 'must be a non-negative integer' });
+                }
+                if (!CORRECTION_ACTIONS.includes(decision.action as string)) {
+                    issues.push({
+                        path: `${path}.action`,
+                        message: `must be one of ${CORRECTION_ACTIONS.join(', ')}`,
+                    });
+                } else if (decision.action === 'modified' && decision.value === undefined) {
+                    issues.push({ path: `${path}.value`, message: 'is required for modified decisions' });
+                }
+            });
+        }
+    }
+
+    if (value.corrections !== undefined) {
+        if (!Array.isArray(value.corrections)) {
+            issues.push({ path: 'corrections', message: 'must be an array' });
+        } else {
+            value.corrections.forEach((correction: unknown, index: number) => {
+                const path = `corrections[${index}]`;
+                if (!isObject(correction)) {
+                    issues.push({ path, message: 'must be an object' });
+                    return;
+                }
+                requireString(correction, 'field', `${path}.field`, issues);
+                optionalString(correction, 'reason', `${path}.reason`, issues);
+                if (!('to' in correction)) {
+                    issues.push({ path: `${path}.to`, message: 'is required' });
+                }
+            });
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,126 @@
+/**
+ * CLI Argument Parsing
+ *
+ * Splits argv into positionals and options:
+ * - `--name value` and `--name=value` set an option
+ * - `--flag` followed by another option (or nothing) sets it to true
+ * - `--` ends option parsing
+ */
+
+/**
+ * Parsed command line
+ */
+export interface ParsedArgs {
+    positionals: string[];
+    options: Record<string, string | boolean>;
+}
+
+/**
+ * Raised for invalid command lines (reported with usage, exit code 2)
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+/**
+ * Options that never take a value
+ */
+const BOOLEAN_OPTIONS = new Set([
+    'help',
+    'json',
+    'verbose',
+    'learn',
+    'active',
+    'inactive',
+    'history',
+    'dry-run',
+    'review',
+    'auto',
+    'enqueue',
+]);
+
+/**
+ * Parse command line arguments
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const options: Record<string, string | boolean> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (arg === '--') {
+            positionals.push(...argv.slice(i + 1));
+            break;
+        }
+
+        if (!arg.startsWith('--')) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const body = arg.slice(2);
+        const separator = body.indexOf('=');
+        if (separator >= 0) {
+            options[body.slice(0, separator)] = body.slice(separator + 1);
+            continue;
+        }
+
+        const next = argv[i + 1];
+        if (BOOLEAN_OPTIONS.has(body) || next === undefined || next.startsWith('--')) {
+            options[body] = true;
+        } else {
+            options[body] = next;
+            i++;
+        }
+    }
+
+    return { positionals, options };
+}
+
+/**
+ * Read a string option
+ */
+export function stringOption(args: ParsedArgs, name: string): string | undefined {
+    const value = args.options[name];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') {
+        throw new CliUsageError(`Option --${name} needs a value`);
+    }
+    return value;
+}
+
+/**
+ * Read a numeric option
+ */
+export function numberOption(args: ParsedArgs, name: string): number | undefined {
+    const value = stringOption(args, name);
+    if (value === undefined) return undefined;
+
+    const parsed = Number(value);
+    if (isNaN(parsed)) {
+        throw new CliUsageError(`Option --${name} must be a number, got "${value}"`);
+    }
+    return parsed;
+}
+
+/**
+ * Read a boolean flag
+ */
+export function flagOption(args: ParsedArgs, name: string): boolean {
+    return args.options[name] === true || args.options[name] === 'true';
+}
+
+/**
+ * Read a required positional argument
+ */
+export function requirePositional(args: ParsedArgs, index: number, name: string): string {
+    const value = args.positionals[index];
+    if (value === undefined) {
+        throw new CliUsageError(`Missing argument <${name}>`);
+    }
+    return value;
+}
@@ -0,0 +1,73 @@
+/**
+ * Command-Line Interface
+ *
+ * Dispatches `invoice-memory <command> [args]` to the registered commands.
+ * Command output (JSON or text) goes to stdout; logs go to stderr and info
+ * logs are only shown with --verbose.
+ */
+
+import { configureLogger } from '../utils';
+import { parseArgs, flagOption, CliUsageError } from './args';
+import { CliCommand } from './command';
+import { COMMANDS } from './commands';
+
+const PROGRAM = 'invoice-memory';
+
+/**
+ * Run the CLI
+ *
+ * @param argv Arguments after the program name
+ * @returns Process exit code (0 success, 1 failure, 2 usage error)
+ */
+export async function runCli(argv: string[]): Promise<number> {
+    const [name, ...rest] = argv;
+    const args = parseArgs(rest);
+    configureLogger({ output: 'stderr', quiet: !flagOption(args, 'verbose') });
+
+    if (!name || name === 'help' || name === '--help') {
+        printHelp();
+        return 0;
+    }
+
+    const command = COMMANDS.find((c) => c.name === name);
+    if (!command) {
+        console.error(`Unknown command "${name}"\n`);
+        printHelp();
+        return 2;
+    }
+
+    if (flagOption(args, 'help')) {
+        printUsage(command);
+        return 0;
+    }
+
+    try {
+        return await command.run(args);
+    } catch (error) {
+        if (error instanceof CliUsageError) {
+            console.error(`${error.message}\n`);
+            printUsage(command, console.error);
+            return 2;
+        }
+        console.error(`${PROGRAM} ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+    }
+}
+
+function printHelp(): void {
+    console.log(`Usage: ${PROGRAM} <command> [options]\n`);
+    console.log('Commands:');
+    for (const command of COMMANDS) {
+        console.log(`  ${command.name.padEnd(14)}${command.summary}`);
+    }
+    console.log(`\nRun "${PROGRAM} <command> --help" for command options. Add --verbose to see info logs.`);
+}
+
+function printUsage(command: CliCommand, write: (text: string) => void = console.log): void {
+    write(
+        command.usage
+            .split('\n')
+            .map((line, index) => (index === 0 || /^[a-z]/.test(line) ? `${PROGRAM} ${line}` : line))
+            .join('\n')
+    );
+}
@@ -0,0 +1,26 @@
+/**
+ * CLI Command Contract
+ */
+
+import { ParsedArgs } from './args';
+
+/**
+ * A top-level CLI command
+ */
+export interface CliCommand {
+    /** Name used on the command line */
+    name: string;
+
+    /** One-line description for the command list */
+    summary: string;
+
+    /** Usage text shown by `<command> --help` and on usage errors */
+    usage: string;
+
+    /**
+     * Run the command (arguments after the command name)
+     *
+     * @returns Process exit code
+     */
+    run(args: ParsedArgs): Promise<number>;
+}
@@ -0,0 +1,79 @@
+/**
+ * `audit` command - query the audit log
+ */
+
+import { readAuditLog, AuditStep } from '../../core';
+import { ParsedArgs, CliUsageError, requirePositional, stringOption, numberOption, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { writeJsonOutput } from '../io';
+
+const AUDIT_STEPS: AuditStep[] = ['recall', 'apply', 'decide', 'learn'];
+
+export const auditCommand: CliCommand = {
+    name: 'audit',
+    summary: 'Query the audit log',
+    usage: [
+        'audit query [options]',
+        '',
+        '  --invoice <id>        Only this invoice',
+        '  --step <step>         Only entries of this step (recall, apply, decide, learn)',
+        '  --since <timestamp>   Only records processed at or after this time',
+        '  --until <timestamp>   Only records processed at or before this time',
+        '  --review              Only invoices escalated to human review',
+        '  --auto                Only auto-approved invoices',
+        '  --text <text>         Only entries mentioning this text',
+        '  --limit <n>           Most recent n records',
+        '  --file <path>         Audit log (default: data/audit-log.jsonl)',
+        '  --json                Print JSON',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const action = requirePositional(args, 0, 'action');
+        if (action !== 'query') {
+            throw new CliUsageError(`Unknown audit action "${action}"`);
+        }
+
+        const step = stringOption(args, 'step');
+        if (step !== undefined && !AUDIT_STEPS.includes(step as AuditStep)) {
+            throw new CliUsageError(`Unknown step "${step}" (expected ${AUDIT_STEPS.join(', ')})`);
+        }
+        if (flagOption(args, 'review') && flagOption(args, 'auto')) {
+            throw new CliUsageError('Use either --review or --auto');
+        }
+
+        const records = readAuditLog(
+            {
+                invoiceId: stringOption(args, 'invoice'),
+                step: step as AuditStep | undefined,
+                since: stringOption(args, 'since'),
+                until: stringOption(args, 'until'),
+                requiresHumanReview: flagOption(args, 'review') ? true : flagOption(args, 'auto') ? false : undefined,
+                text: stringOption(args, 'text'),
+                limit: numberOption(args, 'limit'),
+            },
+            stringOption(args, 'file')
+        );
+
+        if (flagOption(args, 'json')) {
+            await writeJsonOutput(records);
+            return 0;
+        }
+
+        for (const record of records) {
+            if (record.operation) {
+                console.log(`${record.processedAt}  ${record.operation}`);
+            } else {
+                const outcome = record.summary
+                    ? `${record.summary.requiresHumanReview ? 'review' : 'auto'}, ` +
+                      `confidence ${(record.summary.confidenceScore * 100).toFixed(0)}%`
+                    : 'no summary';
+                console.log(`${record.processedAt}  ${record.invoiceId}  (${outcome})`);
+            }
+            for (const entry of record.entries) {
+                console.log(`  [${entry.step}] ${entry.details}`);
+            }
+        }
+        console.log(`\n${records.length} record(s)`);
+        return 0;
+    },
+};
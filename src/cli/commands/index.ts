@@ -0,0 +1,26 @@
+/**
+ * CLI commands
+ */
+import { CliCommand } from '../command';
+import { processCommand } from './process';
+import { reviewCommand } from './review';
+import { queueCommand } from './queue';
+import { memoryCommand } from './memory';
+import { statsCommand } from './stats';
+import { auditCommand } from './audit';
+import { maintenanceCommand } from './maintenance';
+
+export { processCommand, reviewCommand, queueCommand, memoryCommand, statsCommand, auditCommand, maintenanceCommand };
+
+/**
+ * All commands, in the order they are listed in the help text
+ */
+export const COMMANDS: CliCommand[] = [
+    processCommand,
+    reviewCommand,
+    queueCommand,
+    memoryCommand,
+    statsCommand,
+    auditCommand,
+    maintenanceCommand,
+];
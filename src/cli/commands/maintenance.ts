@@ -0,0 +1,73 @@
+/**
+ * `maintenance` command - housekeeping on stored memory
+ */
+
+import { MemoryStoreData } from '../../types';
+import { ParsedArgs, CliUsageError, requirePositional, numberOption, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { openMemoryStore } from '../io';
+
+export const maintenanceCommand: CliCommand = {
+    name: 'maintenance',
+    summary: 'Run memory maintenance (confidence decay)',
+    usage: [
+        'maintenance decay [--rate <r>] [--dry-run]',
+        '    Decay the confidence of memories that have not been reinforced recently',
+        '',
+        '  --rate <r>            Daily decay rate (default: configured decay)',
+        '  --dry-run             Report the effect without saving',
+        '  --memory <path>       Memory file (default: data/memory.json)',
+        '  --adapter <kind>      Storage adapter: json or jsonl',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const action = requirePositional(args, 0, 'action');
+        if (action !== 'decay') {
+            throw new CliUsageError(`Unknown maintenance action "${action}"`);
+        }
+
+        const rate = numberOption(args, 'rate');
+        if (rate !== undefined && (rate < 0 || rate > 1)) {
+            throw new CliUsageError('Option --rate must be between 0 and 1');
+        }
+
+        const memoryStore = await openMemoryStore(args);
+        const before = confidenceSnapshot(memoryStore.getData());
+        memoryStore.applyDecayToAll(rate);
+        const after = confidenceSnapshot(memoryStore.getData());
+
+        let decayed = 0;
+        let deactivated = 0;
+        for (const [id, state] of after) {
+            const previous = before.get(id);
+            if (!previous) continue;
+            if (state.confidence !== previous.confidence) decayed++;
+            if (previous.isActive && !state.isActive) deactivated++;
+        }
+
+        const dryRun = flagOption(args, 'dry-run');
+        if (!dryRun) {
+            await memoryStore.saveIfDirty();
+        }
+
+        console.log(
+            `${dryRun ? '[dry run] ' : ''}Decayed ${decayed} of ${before.size} memories, ${deactivated} deactivated`
+        );
+        return 0;
+    },
+};
+
+function confidenceSnapshot(
+    data: Readonly<MemoryStoreData>
+): Map<string, { confidence: number; isActive: boolean }> {
+    const snapshot = new Map<string, { confidence: number; isActive: boolean }>();
+    for (const record of [
+        ...Object.values(data.vendorMemories),
+        ...data.correctionMemories,
+        ...data.resolutionMemories,
+        ...data.duplicates,
+    ]) {
+        snapshot.set(record.id, { confidence: record.confidence, isActive: record.isActive });
+    }
+    return snapshot;
+}
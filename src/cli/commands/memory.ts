@@ -0,0 +1,221 @@
+/**
+ * `memory` command - inspect and manage memory records
+ */
+
+import { MemoryRecord } from '../../types';
+import { MemoryStore } from '../../memory';
+import { mergeVendors, splitVendor } from '../../core';
+import { ParsedArgs, CliUsageError, requirePositional, stringOption, numberOption, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { openMemoryStore, writeJsonOutput, printTable } from '../io';
+
+const MEMORY_TYPES: MemoryRecord['type'][] = ['vendor', 'correction', 'resolution', 'duplicate'];
+
+export const memoryCommand: CliCommand = {
+    name: 'memory',
+    summary: 'List, show, deactivate or reactivate memory records; merge or split vendors',
+    usage: [
+        'memory list [--type <type>] [--vendor <id>] [--active|--inactive] [--limit <n>]',
+        'memory show <id> [--history]',
+        'memory deactivate <id> [--reason <text>]',
+        'memory activate <id> [--reason <text>]',
+        'memory merge <sourceVendorId> <targetVendorId> [--user <id>] [--reason <text>]',
+        '    Fold a forked vendor into another; its corrections and duplicates move along',
+        'memory split <vendorId> --name <canonicalName> [--id <canonicalId>] [--variations <a,b>]',
+        '             [--mappings <fields>] [--corrections <ids>] [--duplicates <ids>]',
+        '             [--tax-id <id>] [--address <text>] [--user <id>] [--reason <text>]',
+        '    Move the listed names and records of a wrongly merged vendor to a new vendor',
+        '',
+        '  <id>                  Record ID (or canonical ID for vendors)',
+        '  --type <type>         vendor, correction, resolution or duplicate',
+        '  --history             Include the record\'s journal events',
+        '  --json                Print JSON instead of a table',
+        '  --memory <path>       Memory file (default: data/memory.json)',
+        '  --adapter <kind>      Storage adapter: json or jsonl',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const action = requirePositional(args, 0, 'action');
+        const memoryStore = await openMemoryStore(args);
+
+        switch (action) {
+            case 'list':
+                return listMemories(memoryStore, args);
+
+            case 'show': {
+                const record = findRecord(memoryStore, requirePositional(args, 1, 'id'));
+                const history = flagOption(args, 'history') ? await memoryStore.getRecordHistory(record.id) : undefined;
+                await writeJsonOutput(history ? { record, history } : record);
+                return 0;
+            }
+
+            case 'deactivate':
+            case 'activate': {
+                const record = findRecord(memoryStore, requirePositional(args, 1, 'id'));
+                const isActive = action === 'activate';
+                const [result] = memoryStore.applyUpdates([
+                    {
+                        operation: 'update',
+                        memoryType: record.type,
+                        recordId: record.id,
+                        data: { isActive },
+                        reason: stringOption(args, 'reason') || `${isActive ? 'Activated' : 'Deactivated'} from the CLI`,
+                    },
+                ]);
+                if (!result.success) {
+                    throw new Error(result.error);
+                }
+
+                await memoryStore.saveToDisk();
+                console.log(`${record.type} memory ${record.id} ${isActive ? 'activated' : 'deactivated'}`);
+                return 0;
+            }
+
+            case 'merge': {
+                const result = await mergeVendors(
+                    memoryStore,
+                    requirePositional(args, 1, 'sourceVendorId'),
+                    requirePositional(args, 2, 'targetVendorId'),
+                    { userId: stringOption(args, 'user'), reason: stringOption(args, 'reason') }
+                );
+                if (flagOption(args, 'json')) {
+                    await writeJsonOutput(result);
+                    return 0;
+                }
+                console.log(
+                    `Merged ${result.source.canonicalId} into ${result.target.canonicalId}: ` +
+                    `${result.correctionIds.length + result.combinedCorrectionIds.length} correction(s), ` +
+                    `${result.duplicateIds.length} duplicate record(s) re-pointed`
+                );
+                for (const note of result.notes) {
+                    console.log(`  - ${note}`);
+                }
+                return 0;
+            }
+
+            case 'split': {
+                const canonicalName = stringOption(args, 'name');
+                if (!canonicalName) {
+                    throw new CliUsageError('Option --name <canonicalName> is required');
+                }
+                const result = await splitVendor(
+                    memoryStore,
+                    requirePositional(args, 1, 'vendorId'),
+                    {
+                        canonicalName,
+                        canonicalId: stringOption(args, 'id'),
+                        nameVariations: listOption(args, 'variations'),
+                        fieldMappings: listOption(args, 'mappings'),
+                        correctionIds: listOption(args, 'corrections'),
+                        duplicateIds: listOption(args, 'duplicates'),
+                        taxId: stringOption(args, 'tax-id'),
+                        address: stringOption(args, 'address'),
+                    },
+                    { userId: stringOption(args, 'user'), reason: stringOption(args, 'reason') }
+                );
+                if (flagOption(args, 'json')) {
+                    await writeJsonOutput(result);
+                    return 0;
+                }
+                console.log(
+                    `Split ${result.created.canonicalId} off ${result.source.canonicalId}: ` +
+                    `${result.correctionIds.length} correction(s), ${result.duplicateIds.length} duplicate record(s) moved`
+                );
+                return 0;
+            }
+
+            default:
+                throw new CliUsageError(`Unknown memory action "${action}"`);
+        }
+    },
+};
+
+async function listMemories(memoryStore: MemoryStore, args: ParsedArgs): Promise<number> {
+    const type = stringOption(args, 'type');
+    if (type !== undefined && !MEMORY_TYPES.includes(type as MemoryRecord['type'])) {
+        throw new CliUsageError(`Unknown memory type "${type}" (expected ${MEMORY_TYPES.join(', ')})`);
+    }
+    const vendor = stringOption(args, 'vendor');
+    const limit = numberOption(args, 'limit');
+
+    const data = memoryStore.getData();
+    let records: MemoryRecord[] = [
+        ...Object.values(data.vendorMemories),
+        ...data.correctionMemories,
+        ...data.resolutionMemories,
+        ...data.duplicates,
+    ];
+
+    if (type) records = records.filter((r) => r.type === type);
+    if (vendor) records = records.filter((r) => vendorOf(r) === vendor);
+    if (flagOption(args, 'active')) records = records.filter((r) => r.isActive);
+    if (flagOption(args, 'inactive')) records = records.filter((r) => !r.isActive);
+    if (limit !== undefined) records = records.slice(0, limit);
+
+    if (flagOption(args, 'json')) {
+        await writeJsonOutput(records);
+        return 0;
+    }
+
+    printTable(
+        ['ID', 'TYPE', 'VENDOR', 'CONFIDENCE', 'ACTIVE', 'DESCRIPTION'],
+        records.map((r) => [
+            r.type === 'vendor' ? r.canonicalId : r.id,
+            r.type,
+            vendorOf(r) || '-',
+            r.confidence.toFixed(2),
+            r.isActive ? 'yes' : 'no',
+            describe(r),
+        ])
+    );
+    console.log(`\n${records.length} record(s)`);
+    return 0;
+}
+
+/**
+ * Comma-separated option values
+ */
+function listOption(args: ParsedArgs, name: string): string[] {
+    return (stringOption(args, name) || '')
+        .split(',')
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0);
+}
+
+/**
+ * Find a record by ID, or a vendor by canonical ID
+ */
+function findRecord(memoryStore: MemoryStore, id: string): MemoryRecord {
+    const record = memoryStore.findMemoryById(id) ?? memoryStore.getVendorMemory(id);
+    if (!record) {
+        throw new CliUsageError(`No memory with ID "${id}"`);
+    }
+    return record;
+}
+
+function vendorOf(record: MemoryRecord): string | undefined {
+    switch (record.type) {
+        case 'vendor':
+            return record.canonicalId;
+        case 'correction':
+        case 'duplicate':
+            return record.vendorId;
+        case 'resolution':
+            return undefined;
+    }
+}
+
+function describe(record: MemoryRecord): string {
+    switch (record.type) {
+        case 'vendor':
+            return `${record.canonicalName} (${Object.keys(record.fieldMappings).length} field mapping(s))`;
+        case 'correction':
+            return `${record.pattern.type}: ${record.suggestedAction}`;
+        case 'resolution': {
+            const last = record.decisions[record.decisions.length - 1];
+            return `${record.decisions.length} decision(s)${last ? `, last: ${last.action}` : ''}`;
+        }
+        case 'duplicate':
+            return `${record.invoiceNumber} (original ${record.originalInvoiceId})`;
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * `process` command - run invoices through the pipeline
+ */
+
+import { processBatch, loadReferenceData } from '../../core';
+import { ParsedArgs, requirePositional, stringOption, numberOption, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { openMemoryStore, openReviewQueue, readInvoices, writeJsonOutput } from '../io';
+
+export const processCommand: CliCommand = {
+    name: 'process',
+    summary: 'Process invoices and write decision output',
+    usage: [
+        'process <file|dir> [options]',
+        '',
+        '  <file|dir>            InvoiceInput JSON (one invoice or an array), or a directory of .json files',
+        '  --out <file>          Write InvoiceDecisionOutput JSON here instead of stdout',
+        '  --learn               Apply the learn phase\'s memory updates to memory',
+        '  --persist-every <n>   Save memory every n invoices (default: once at the end)',
+        '  --concurrency <n>     Vendors processed at the same time',
+        '  --reference <dir>     Directory with purchase_orders.json and delivery_notes.json (default: invoices)',
+        '  --enqueue             Add invoices escalated to human review to the review queue',
+        '  --queue <path>        Review queue file (default: data/review-queue.json)',
+        '  --memory <path>       Memory file (default: data/memory.json)',
+        '  --adapter <kind>      Storage adapter: json or jsonl',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const invoices = readInvoices(requirePositional(args, 0, 'file|dir'));
+        const memoryStore = await openMemoryStore(args);
+
+        const referenceDir = stringOption(args, 'reference');
+
+        const { results, summary } = await processBatch(invoices, memoryStore, {
+            referenceData: referenceDir !== undefined ? loadReferenceData(referenceDir) : undefined,
+            persistMemoryUpdates: flagOption(args, 'learn'),
+            persistEvery: numberOption(args, 'persist-every'),
+            vendorConcurrency: numberOption(args, 'concurrency'),
+        });
+
+        let queued = 0;
+        if (flagOption(args, 'enqueue')) {
+            const queue = await openReviewQueue(args);
+            const invoicesById = new Map(invoices.map((invoice) => [invoice.invoiceId, invoice]));
+            for (const { invoiceId, output } of results) {
+                const invoice = invoicesById.get(invoiceId);
+                if (invoice && output && (await queue.enqueue(invoice, output))) queued++;
+            }
+        }
+
+        await writeJsonOutput(
+            results.map((result) => result.output ?? { invoiceId: result.invoiceId, error: result.error }),
+            stringOption(args, 'out')
+        );
+
+        console.error(
+            `Processed ${summary.total} invoice(s) from ${summary.vendors} vendor(s): ` +
+            `${summary.autoApproved} auto-approved, ${summary.escalated} escalated, ` +
+            `${summary.duplicates} duplicate(s), ${summary.errors} error(s)` +
+            (flagOption(args, 'enqueue') ? `; ${queued} queued for review` : '')
+        );
+        return summary.errors > 0 ? 1 : 0;
+    },
+};
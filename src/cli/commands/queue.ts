@@ -0,0 +1,224 @@
+/**
+ * `queue` command - work the human review queue
+ */
+
+import { ReviewItem, ReviewItemStatus, QueuedCorrectionDecision, runReviewSession } from '../../review';
+import { ParsedArgs, CliUsageError, requirePositional, stringOption, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { openMemoryStore, openReviewQueue, writeJsonOutput, printTable } from '../io';
+
+const STATUSES: ReviewItemStatus[] = ['pending', 'claimed', 'completed'];
+
+const DECISION_ACTIONS: Record<string, QueuedCorrectionDecision['action']> = {
+    approve: 'approved',
+    reject: 'rejected',
+    modify: 'modified',
+};
+
+export const queueCommand: CliCommand = {
+    name: 'queue',
+    summary: 'Claim, decide and complete invoices waiting for human review',
+    usage: [
+        'queue list [--status <status>] [--user <id>] [--vendor <name>]',
+        'queue show <itemId>',
+        'queue stats',
+        'queue claim <itemId> --user <id>',
+        'queue next --user <id> [--vendor <name>]',
+        '    Claim an item, or the oldest pending one',
+        'queue assign <itemId> <userId>',
+        'queue release <itemId> [--user <id>]',
+        'queue decide <itemId> <index> approve|reject|modify [--value <v>] [--reason <text>] --user <id>',
+        '    Decide on the item\'s proposed correction #index (--value is parsed as JSON when possible)',
+        'queue complete <itemId> approved|rejected --user <id>',
+        '    Finish the review and learn from its decisions',
+        'queue session --user <id> [--vendor <name>]',
+        '    Review queued invoices interactively, one correction at a time',
+        '',
+        '  --status <status>     pending, claimed or completed',
+        '  --json                Print JSON',
+        '  --queue <path>        Review queue file (default: data/review-queue.json)',
+        '  --memory <path>       Memory file (default: data/memory.json)',
+        '  --adapter <kind>      Storage adapter: json or jsonl',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const action = requirePositional(args, 0, 'action');
+        const queue = await openReviewQueue(args);
+
+        switch (action) {
+            case 'list': {
+                const status = stringOption(args, 'status');
+                if (status !== undefined && !STATUSES.includes(status as ReviewItemStatus)) {
+                    throw new CliUsageError(`Unknown status "${status}" (expected ${STATUSES.join(', ')})`);
+                }
+                const items = queue.list({
+                    status: status as ReviewItemStatus | undefined,
+                    assignee: stringOption(args, 'user'),
+                    vendor: stringOption(args, 'vendor'),
+                });
+                if (flagOption(args, 'json')) {
+                    await writeJsonOutput(items);
+                    return 0;
+                }
+                printTable(
+                    ['ID', 'INVOICE', 'VENDOR', 'STATUS', 'ASSIGNEE', 'DECIDED', 'ENQUEUED'],
+                    items.map((item) => [
+                        item.id,
+                        item.invoiceId,
+                        item.vendorName,
+                        item.finalDecision ? `${item.status} (${item.finalDecision})` : item.status,
+                        item.assignee || '',
+                        `${item.corrections.filter((c) => c.decision).length}/${item.corrections.length}`,
+                        item.enqueuedAt,
+                    ])
+                );
+                return 0;
+            }
+
+            case 'show':
+                await writeJsonOutput(requireItem(queue.get(requirePositional(args, 1, 'itemId'))));
+                return 0;
+
+            case 'stats': {
+                const stats = queue.getStats();
+                if (flagOption(args, 'json')) {
+                    await writeJsonOutput(stats);
+                    return 0;
+                }
+                console.log(`Backlog:                ${stats.backlog} (${stats.pending} pending, ${stats.claimed} claimed)`);
+                console.log(`Completed:              ${stats.completed}`);
+                console.log(`Undecided corrections:  ${stats.openCorrections}`);
+                console.log(`Oldest item:            ${formatAge(stats.oldestAgeMs)}`);
+                console.log(`Average age:            ${formatAge(stats.averageAgeMs)}`);
+                for (const [vendor, count] of Object.entries(stats.byVendor)) {
+                    console.log(`  ${vendor}: ${count}`);
+                }
+                return 0;
+            }
+
+            case 'claim': {
+                const item = await queue.claim(requirePositional(args, 1, 'itemId'), requireUser(args));
+                return report(args, item, `Claimed ${item.id} (invoice ${item.invoiceId})`);
+            }
+
+            case 'next': {
+                const item = await queue.claimNext(requireUser(args), { vendor: stringOption(args, 'vendor') });
+                if (!item) {
+                    console.log('No pending review items');
+                    return 0;
+                }
+                return report(args, item, `Claimed ${item.id} (invoice ${item.invoiceId})`);
+            }
+
+            case 'assign': {
+                const item = await queue.assign(
+                    requirePositional(args, 1, 'itemId'),
+                    requirePositional(args, 2, 'userId')
+                );
+                return report(args, item, `Assigned ${item.id} to ${item.assignee}`);
+            }
+
+            case 'release': {
+                const item = await queue.release(requirePositional(args, 1, 'itemId'), stringOption(args, 'user'));
+                return report(args, item, `Released ${item.id}`);
+            }
+
+            case 'decide': {
+                const itemId = requirePositional(args, 1, 'itemId');
+                const index = Number(requirePositional(args, 2, 'index'));
+                if (!Number.isInteger(index) || index < 0) {
+                    throw new CliUsageError('<index> must be a non-negative integer');
+                }
+                const decisionAction = DECISION_ACTIONS[requirePositional(args, 3, 'approve|reject|modify')];
+                if (!decisionAction) {
+                    throw new CliUsageError('Decision must be approve, reject or modify');
+                }
+                const rawValue = stringOption(args, 'value');
+                if (decisionAction === 'modified' && rawValue === undefined) {
+                    throw new CliUsageError('Option --value is required for modify');
+                }
+
+                const item = await queue.decide(
+                    itemId,
+                    index,
+                    {
+                        action: decisionAction,
+                        value: rawValue === undefined ? undefined : parseValue(rawValue),
+                        reason: stringOption(args, 'reason'),
+                    },
+                    requireUser(args)
+                );
+                return report(args, item, `Recorded ${decisionAction} for correction #${index} of ${item.id}`);
+            }
+
+            case 'complete': {
+                const itemId = requirePositional(args, 1, 'itemId');
+                const finalDecision = requirePositional(args, 2, 'approved|rejected');
+                if (finalDecision !== 'approved' && finalDecision !== 'rejected') {
+                    throw new CliUsageError('Final decision must be approved or rejected');
+                }
+
+                const memoryStore = await openMemoryStore(args);
+                const { item, outcome } = await queue.complete(itemId, finalDecision, requireUser(args), memoryStore);
+                if (flagOption(args, 'json')) {
+                    await writeJsonOutput({ item, notes: outcome.notes, decisionIds: item.decisionIds });
+                    return 0;
+                }
+                console.log(`Completed ${item.id} (invoice ${item.invoiceId}, ${finalDecision})`);
+                for (const note of outcome.notes) {
+                    console.log(`  - ${note}`);
+                }
+                return 0;
+            }
+
+            case 'session': {
+                const userId = requireUser(args);
+                const memoryStore = await openMemoryStore(args);
+                await runReviewSession(queue, memoryStore, { userId, vendor: stringOption(args, 'vendor') });
+                return 0;
+            }
+
+            default:
+                throw new CliUsageError(`Unknown queue action "${action}"`);
+        }
+    },
+};
+
+function requireUser(args: ParsedArgs): string {
+    const userId = stringOption(args, 'user');
+    if (!userId) {
+        throw new CliUsageError('Option --user <id> is required');
+    }
+    return userId;
+}
+
+function requireItem(item: ReviewItem | undefined): ReviewItem {
+    if (!item) {
+        throw new CliUsageError('Review item not found');
+    }
+    return item;
+}
+
+function parseValue(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+function formatAge(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+async function report(args: ParsedArgs, item: ReviewItem, message: string): Promise<number> {
+    if (flagOption(args, 'json')) {
+        await writeJsonOutput(item);
+    } else {
+        console.log(message);
+    }
+    return 0;
+}
@@ -0,0 +1,125 @@
+/**
+ * `review` command - feed human review outcomes back into memory
+ */
+
+import { HumanCorrectionRecord } from '../../types';
+import { learnFromHumanCorrection, recordHumanDecision, revertHumanDecision } from '../../core';
+import { ParsedArgs, CliUsageError, requirePositional, stringOption, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { openMemoryStore, readInvoices, readJsonFile, writeJsonOutput } from '../io';
+
+export const reviewCommand: CliCommand = {
+    name: 'review',
+    summary: 'Learn from human corrections, approve/reject corrections, revert decisions',
+    usage: [
+        'review apply <corrections.json> --invoices <file|dir>',
+        '    Learn from human correction records (format of invoices/human_corrections.json)',
+        'review approve <correctionId> [--reason <text>]',
+        'review reject <correctionId> [--reason <text>]',
+        '    Record a decision on a correction memory',
+        'review revert <decisionId> [--reason <text>]',
+        '    Undo a recorded decision and its memory changes',
+        '',
+        '  --user <id>           Reviewer recorded with the decisions',
+        '  --json                Print results as JSON',
+        '  --memory <path>       Memory file (default: data/memory.json)',
+        '  --adapter <kind>      Storage adapter: json or jsonl',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const action = requirePositional(args, 0, 'action');
+        const userId = stringOption(args, 'user');
+        const reason = stringOption(args, 'reason');
+
+        switch (action) {
+            case 'apply':
+                return applyCorrections(args, userId);
+
+            case 'approve':
+            case 'reject': {
+                const correctionId = requirePositional(args, 1, 'correctionId');
+                const memoryStore = await openMemoryStore(args);
+                const memory = memoryStore.findMemoryById(correctionId);
+                if (!memory || memory.type !== 'correction') {
+                    throw new CliUsageError(`No correction memory with ID "${correctionId}"`);
+                }
+
+                const decision = await recordHumanDecision(
+                    memoryStore,
+                    correctionId,
+                    action === 'approve' ? 'approved' : 'rejected',
+                    reason,
+                    userId
+                );
+                return report(args, decision, `Recorded decision ${decision.decisionId} (${decision.action})`);
+            }
+
+            case 'revert': {
+                const decisionId = requirePositional(args, 1, 'decisionId');
+                const memoryStore = await openMemoryStore(args);
+                const revert = await revertHumanDecision(memoryStore, decisionId, reason, userId);
+                return report(args, revert, `Reverted decision ${decisionId} (revert ${revert.decisionId})`);
+            }
+
+            default:
+                throw new CliUsageError(`Unknown review action "${action}"`);
+        }
+    },
+};
+
+async function applyCorrections(args: ParsedArgs, userId?: string): Promise<number> {
+    const records = readJsonFile<HumanCorrectionRecord[]>(requirePositional(args, 1, 'corrections.json'));
+    const invoicesPath = stringOption(args, 'invoices');
+    if (!invoicesPath) {
+        throw new CliUsageError('Option --invoices <file|dir> is required');
+    }
+
+    const invoices = new Map(readInvoices(invoicesPath).map((invoice) => [invoice.invoiceId, invoice]));
+    const memoryStore = await openMemoryStore(args);
+    const results = [];
+    let missing = 0;
+
+    for (const record of Array.isArray(records) ? records : [records]) {
+        const invoice = invoices.get(record.invoiceId);
+        if (!invoice) {
+            console.error(`Invoice ${record.invoiceId} not found in ${invoicesPath}, skipped`);
+            missing++;
+            continue;
+        }
+
+        const result = await learnFromHumanCorrection(memoryStore, invoice, record, { userId });
+        results.push({
+            invoiceId: record.invoiceId,
+            vendorId: result.vendorId,
+            fieldMappings: result.fieldMappings.length,
+            correctionMemories: result.correctionMemories.map((c) => c.id),
+            resolutionMemories: result.resolutionMemories.map((r) => r.id),
+            notes: result.notes,
+        });
+    }
+
+    if (flagOption(args, 'json')) {
+        await writeJsonOutput(results);
+    } else {
+        for (const result of results) {
+            console.log(
+                `${result.invoiceId}: ${result.correctionMemories.length} correction(s), ` +
+                `${result.fieldMappings} field mapping(s) for ${result.vendorId}`
+            );
+            for (const note of result.notes) {
+                console.log(`  - ${note}`);
+            }
+        }
+    }
+
+    return missing > 0 ? 1 : 0;
+}
+
+async function report(args: ParsedArgs, data: unknown, message: string): Promise<number> {
+    if (flagOption(args, 'json')) {
+        await writeJsonOutput(data);
+    } else {
+        console.log(message);
+    }
+    return 0;
+}
@@ -0,0 +1,59 @@
+/**
+ * `stats` command - processing statistics and memory counts
+ */
+
+import { MemoryRecord } from '../../types';
+import { ParsedArgs, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { openMemoryStore, writeJsonOutput } from '../io';
+
+export const statsCommand: CliCommand = {
+    name: 'stats',
+    summary: 'Show processing statistics and memory counts',
+    usage: [
+        'stats [--json]',
+        '',
+        '  --memory <path>       Memory file (default: data/memory.json)',
+        '  --adapter <kind>      Storage adapter: json or jsonl',
+    ].join('\n'),
+
+    async run(args: ParsedArgs): Promise<number> {
+        const memoryStore = await openMemoryStore(args);
+        const data = memoryStore.getData();
+
+        const count = (records: MemoryRecord[]): { total: number; active: number } => ({
+            total: records.length,
+            active: records.filter((r) => r.isActive).length,
+        });
+
+        const stats = {
+            schemaVersion: data.schemaVersion,
+            lastUpdated: data.lastUpdated,
+            processing: memoryStore.getStats(),
+            memories: {
+                vendor: count(Object.values(data.vendorMemories)),
+                correction: count(data.correctionMemories),
+                resolution: count(data.resolutionMemories),
+                duplicate: count(data.duplicates),
+            },
+        };
+
+        if (flagOption(args, 'json')) {
+            await writeJsonOutput(stats);
+            return 0;
+        }
+
+        const { processing } = stats;
+        console.log(`Schema version:         ${stats.schemaVersion}`);
+        console.log(`Last updated:           ${stats.lastUpdated}`);
+        console.log(`Invoices processed:     ${processing.totalInvoicesProcessed}`);
+        console.log(`Corrections applied:    ${processing.totalCorrectionsApplied}`);
+        console.log(`Human reviews:          ${processing.totalHumanReviewsRequested}`);
+        console.log(`Average confidence:     ${(processing.averageConfidence * 100).toFixed(1)}%`);
+        console.log('');
+        for (const [type, { total, active }] of Object.entries(stats.memories)) {
+            console.log(`${`${type} memories:`.padEnd(24)}${total} (${active} active)`);
+        }
+        return 0;
+    },
+};
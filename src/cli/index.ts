@@ -0,0 +1,7 @@
+/**
+ * CLI module exports
+ */
+export * from './cli';
+export * from './args';
+export * from './command';
+export * from './commands';
@@ -0,0 +1,111 @@
+/**
+ * CLI Input/Output Helpers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvoiceInput } from '../types';
+import { MemoryStore, StorageAdapterKind } from '../memory';
+import { ReviewQueue, DEFAULT_REVIEW_QUEUE_PATH } from '../review';
+import { writeFileAtomic } from '../utils';
+import { ParsedArgs, CliUsageError, stringOption } from './args';
+
+/**
+ * Open the memory store selected by --memory <path> and --adapter <json|jsonl>
+ */
+export async function openMemoryStore(args: ParsedArgs): Promise<MemoryStore> {
+    const adapter = stringOption(args, 'adapter');
+    if (adapter !== undefined && adapter !== 'json' && adapter !== 'jsonl') {
+        throw new CliUsageError(`Unknown adapter "${adapter}" (expected json or jsonl)`);
+    }
+
+    const store = new MemoryStore(stringOption(args, 'memory'), {
+        adapter: adapter as StorageAdapterKind | undefined,
+    });
+    await store.loadFromDisk();
+    return store;
+}
+
+/**
+ * Open the review queue selected by --queue <path>
+ */
+export async function openReviewQueue(args: ParsedArgs): Promise<ReviewQueue> {
+    const queue = new ReviewQueue(stringOption(args, 'queue') || DEFAULT_REVIEW_QUEUE_PATH);
+    await queue.load();
+    return queue;
+}
+
+/**
+ * Read and parse a JSON file
+ */
+export function readJsonFile<T>(filePath: string): T {
+    if (!fs.existsSync(filePath)) {
+        throw new CliUsageError(`File not found: ${filePath}`);
+    }
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+    } catch (error) {
+        throw new CliUsageError(`${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Read InvoiceInput JSON (one invoice or an array) from a file, or from every .json file in a directory
+ */
+export function readInvoices(inputPath: string): InvoiceInput[] {
+    if (!fs.existsSync(inputPath)) {
+        throw new CliUsageError(`Path not found: ${inputPath}`);
+    }
+
+    const files = fs.statSync(inputPath).isDirectory()
+        ? fs
+            .readdirSync(inputPath)
+            .filter((name) => name.endsWith('.json'))
+            .sort()
+            .map((name) => path.join(inputPath, name))
+        : [inputPath];
+
+    const invoices: InvoiceInput[] = [];
+    for (const file of files) {
+        const content = readJsonFile<InvoiceInput | InvoiceInput[]>(file);
+        invoices.push(...(Array.isArray(content) ? content : [content]));
+    }
+
+    for (const invoice of invoices) {
+        if (!invoice || typeof invoice.invoiceId !== 'string') {
+            throw new CliUsageError(`Every invoice needs an invoiceId (in ${inputPath})`);
+        }
+    }
+
+    return invoices;
+}
+
+/**
+ * Write JSON to a file, or to stdout when no file is given
+ */
+export async function writeJsonOutput(data: unknown, outPath?: string): Promise<void> {
+    const json = JSON.stringify(data, null, 2);
+    if (outPath) {
+        await writeFileAtomic(outPath, json + '\n');
+    } else {
+        process.stdout.write(json + '\n');
+    }
+}
+
+/**
+ * Print a simple aligned table
+ */
+export function printTable(headers: string[], rows: string[][]): void {
+    const widths = headers.map((header, column) =>
+        Math.max(header.length, ...rows.map((row) => (row[column] || '').length))
+    );
+    const format = (cells: string[]): string =>
+        cells.map((cell, column) => (cell || '').padEnd(widths[column])).join('  ').trimEnd();
+
+    console.log(format(headers));
+    console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+    for (const row of rows) {
+        console.log(format(row));
+    }
+}
@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+/**
+ * CLI Entry Point
+ *
+ * Usage: invoice-memory <command> [options]
+ */
+
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2))
+    .then((code) => {
+        process.exitCode = code;
+    })
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    });
@@ -81,6 +81,127 @@ export const BAD_MEMORY_PROTECTION = {
     DECAY_RATE_PER_DAY: 0.02,
 };
 
+/**
+ * Purchase order and delivery note matching parameters
+ */
+export const MATCHING = {
+    /** Unit price variance tolerated before flagging (0.01 = 1%) */
+    PRICE_TOLERANCE_PERCENT: 0.01,
+
+    /** Quantity mismatch strategy when the vendor has none learned */
+    DEFAULT_QUANTITY_STRATEGY: 'askHuman' as 'preferInvoice' | 'preferDeliveryNote' | 'askHuman',
+
+    /** Confidence when the invoice disagrees with the delivery note */
+    DELIVERY_MISMATCH_CONFIDENCE: 0.75,
+
+    /** Confidence when only the PO is available to compare against */
+    PO_ONLY_CONFIDENCE: 0.6,
+
+    /** Confidence for unit price variance corrections */
+    PRICE_VARIANCE_CONFIDENCE: 0.6,
+
+    /** Days before the invoice date to search for open purchase orders */
+    PO_INFERENCE_WINDOW_DAYS: 30,
+
+    /** Minimum candidate score to propose an inferred PO */
+    PO_INFERENCE_MIN_SCORE: 0.5,
+
+    /** Score margin over the runner-up at which a match counts as unambiguous */
+    PO_INFERENCE_AMBIGUITY_MARGIN: 0.2,
+
+    /** Confidence factor applied while no PO inference memory has been learned */
+    PO_INFERENCE_UNLEARNED_FACTOR: 0.75,
+};
+
+/**
+ * Fuzzy vendor identity resolution
+ */
+export const VENDOR_RESOLUTION = {
+    /** Minimum score to list a known vendor as a candidate */
+    MIN_CANDIDATE_SCORE: 0.6,
+
+    /** Minimum score to treat the best candidate as the invoice's vendor */
+    MATCH_THRESHOLD: 0.75,
+
+    /** Candidates reported per invoice */
+    MAX_CANDIDATES: 5,
+
+    /** Weight of address similarity when both addresses are known */
+    ADDRESS_WEIGHT: 0.2,
+
+    /** Score when the tax IDs match */
+    TAX_ID_MATCH_SCORE: 0.97,
+
+    /** Factor applied to the score when both tax IDs are known and differ */
+    TAX_ID_CONFLICT_FACTOR: 0.5,
+
+    /** Highest score when both names carry legal forms and they differ (GmbH vs AG): a candidate, never a match */
+    LEGAL_FORM_MISMATCH_MAX_SCORE: 0.7,
+};
+
+/**
+ * Totals reconciliation (line items, net, tax and gross)
+ */
+export const RECONCILIATION = {
+    /** Difference between two totals tolerated as rounding */
+    ROUNDING_TOLERANCE: 0.02,
+
+    /** Additional tolerance per line item, for amounts and VAT rounded line by line */
+    LINE_ROUNDING_TOLERANCE: 0.01,
+
+    /** Most fields one explanation of a discrepancy may adjust */
+    MAX_ADJUSTED_FIELDS: 3,
+
+    /** Confidence when exactly one set of fields explains the discrepancy */
+    PINPOINTED_CONFIDENCE: 0.9,
+
+    /** Confidence when several sets of fields explain it equally well */
+    AMBIGUOUS_CONFIDENCE: 0.5,
+
+    /** Confidence factor applied while the vendor has no reconciliation memory */
+    UNLEARNED_FACTOR: 0.75,
+};
+
+/**
+ * Memory file persistence
+ */
+export const PERSISTENCE = {
+    /** Storage adapter used when MemoryStore is not given one */
+    ADAPTER: 'json' as 'json' | 'jsonl' | 'memory',
+
+    /** Record every memory mutation in an event journal next to the memory file */
+    JOURNAL: true,
+
+    /** Number of rotating backups kept next to the memory file */
+    BACKUP_COUNT: 3,
+
+    /** Refuse to start with an empty store when the memory file is corrupt and no backup loads */
+    STRICT_LOAD: false,
+};
+
+/**
+ * Coordination between worker processes sharing memory and audit files
+ */
+export const CONCURRENCY = {
+    /** Lock memory and audit files while reading and writing them */
+    LOCKING: true,
+
+    /** When the memory file changed since it was loaded: merge our changes into it, or reject the save */
+    ON_CONFLICT: 'merge' as 'merge' | 'reject',
+
+    /** Retries after a failed lock attempt before giving up */
+    LOCK_RETRIES: 40,
+
+    /** Delay before the first retry; doubles on each attempt */
+    LOCK_RETRY_DELAY_MS: 20,
+
+    /** Upper bound for the retry delay */
+    LOCK_MAX_RETRY_DELAY_MS: 500,
+
+    /** Locks older than this are treated as abandoned */
+    STALE_LOCK_MS: 30000,
+};
+
 /**
  * Processing options
  */
@@ -95,6 +216,36 @@ export const PROCESSING = {
     AUTO_DEACTIVATE_BAD_MEMORIES: true,
 };
 
+/**
+ * Batch processing defaults
+ */
+export const BATCH = {
+    /** Vendors processed concurrently (invoices of one vendor always run in order) */
+    VENDOR_CONCURRENCY: 4,
+
+    /** Save memory after this many invoices (0 = once at the end of the batch) */
+    PERSIST_EVERY: 0,
+};
+
+/**
+ * Human review queue
+ */
+export const REVIEW_QUEUE = {
+    /** Claims older than this lapse and the item can be claimed by another reviewer */
+    CLAIM_TIMEOUT_MS: 30 * 60 * 1000,
+};
+
+/**
+ * HTTP API defaults
+ */
+export const API = {
+    /** Port the API listens on (overridden by the PORT environment variable) */
+    PORT: 3000,
+
+    /** Largest accepted request body */
+    MAX_BODY_BYTES: 1024 * 1024,
+};
+
 /**
  * Get all configuration as a single object
  */
@@ -104,7 +255,15 @@ export function getConfig() {
         confidenceDeltas: CONFIDENCE_DELTAS,
         duplicateDetection: DUPLICATE_DETECTION,
         badMemoryProtection: BAD_MEMORY_PROTECTION,
+        matching: MATCHING,
+        vendorResolution: VENDOR_RESOLUTION,
+        reconciliation: RECONCILIATION,
+        persistence: PERSISTENCE,
+        concurrency: CONCURRENCY,
         processing: PROCESSING,
+        batch: BATCH,
+        reviewQueue: REVIEW_QUEUE,
+        api: API,
     };
 }
 
@@ -7,7 +7,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { AuditTrailEntry } from '../types';
-import { getTimestamp, logger } from '../utils';
+import { getTimestamp, logger, withFileLockSync } from '../utils';
 
 /**
  * Default path for audit log
@@ -53,10 +53,17 @@ export function createPhaseAuditEntries(
  * Audit log entry for persistence
  */
 export interface AuditLogRecord {
+    /** Invoice the record belongs to (empty for memory operations) */
     invoiceId: string;
+
+    /** Memory operation that wrote the record, for records not about an invoice (e.g., "vendorMerge") */
+    operation?: string;
+
     processedAt: string;
     entries: AuditTrailEntry[];
-    summary: {
+
+    /** Pipeline outcome (absent for records not written by the pipeline) */
+    summary?: {
         totalSteps: number;
         requiresHumanReview: boolean;
         confidenceScore: number;
@@ -76,11 +83,6 @@ export function appendToAuditLog(
     const logPath = auditLogPath || DEFAULT_AUDIT_LOG_PATH;
 
     try {
-        const dir = path.dirname(logPath);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-
         const record: AuditLogRecord = {
             invoiceId,
             processedAt: getTimestamp(),
@@ -92,13 +94,133 @@ export function appendToAuditLog(
             },
         };
 
-        fs.appendFileSync(logPath, JSON.stringify(record) + '\n', 'utf-8');
+        writeAuditLogRecord(logPath, record);
         logger.debug(`Audit log entry written for invoice ${invoiceId}`);
     } catch (error) {
         logger.error('Failed to write audit log', error);
     }
 }
 
+/**
+ * Append a memory operation that is not about an invoice (e.g., a vendor merge) to the audit log
+ */
+export function appendMemoryOperationToAuditLog(
+    operation: string,
+    details: string[],
+    auditLogPath?: string
+): void {
+    const logPath = auditLogPath || DEFAULT_AUDIT_LOG_PATH;
+
+    try {
+        writeAuditLogRecord(logPath, {
+            invoiceId: '',
+            operation,
+            processedAt: getTimestamp(),
+            entries: details.map((detail) => createAuditEntry('learn', detail)),
+        });
+        logger.debug(`Audit log entry written for ${operation}`);
+    } catch (error) {
+        logger.error('Failed to write audit log', error);
+    }
+}
+
+function writeAuditLogRecord(logPath: string, record: AuditLogRecord): void {
+    const dir = path.dirname(logPath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // Serialize appends from concurrent workers
+    withFileLockSync(logPath, () => {
+        fs.appendFileSync(logPath, JSON.stringify(record) + '\n', 'utf-8');
+    });
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface AuditLogQuery {
+    /** Only this invoice */
+    invoiceId?: string;
+
+    /** Only entries of this step */
+    step?: AuditStep;
+
+    /** Only records processed at or after this time (ISO timestamp) */
+    since?: string;
+
+    /** Only records processed at or before this time (ISO timestamp) */
+    until?: string;
+
+    /** Only records that did (true) or did not (false) require human review */
+    requiresHumanReview?: boolean;
+
+    /** Only entries whose details contain this text (case-insensitive) */
+    text?: string;
+
+    /** Return at most this many records (the most recent ones) */
+    limit?: number;
+}
+
+/**
+ * Read audit log records matching a query
+ *
+ * Entry filters (step, text) narrow each record's entries; records left
+ * without entries are dropped. Unreadable lines are skipped.
+ */
+export function readAuditLog(query: AuditLogQuery = {}, auditLogPath?: string): AuditLogRecord[] {
+    const logPath = auditLogPath || DEFAULT_AUDIT_LOG_PATH;
+    if (!fs.existsSync(logPath)) {
+        return [];
+    }
+
+    const since = query.since ? new Date(query.since).getTime() : undefined;
+    const until = query.until ? new Date(query.until).getTime() : undefined;
+    const text = query.text?.toLowerCase();
+    const records: AuditLogRecord[] = [];
+
+    const lines = fs.readFileSync(logPath, 'utf-8').split('\n');
+    lines.forEach((line, index) => {
+        if (line.trim().length === 0) return;
+
+        let record: AuditLogRecord;
+        try {
+            record = JSON.parse(line) as AuditLogRecord;
+        } catch {
+            logger.warn(`Skipping unreadable audit log line ${index + 1} in ${logPath}`);
+            return;
+        }
+
+        if (query.invoiceId && record.invoiceId !== query.invoiceId) return;
+
+        const processedAt = new Date(record.processedAt).getTime();
+        if (since !== undefined && processedAt < since) return;
+        if (until !== undefined && processedAt > until) return;
+
+        // Records written by MemoryManager carry no summary
+        if (
+            query.requiresHumanReview !== undefined &&
+            record.summary?.requiresHumanReview !== query.requiresHumanReview
+        ) {
+            return;
+        }
+
+        if (query.step || text) {
+            const entries = record.entries.filter(
+                (entry) =>
+                    (!query.step || entry.step === query.step) &&
+                    (!text || entry.details.toLowerCase().includes(text))
+            );
+            if (entries.length === 0) return;
+            record = { ...record, entries };
+        }
+
+        records.push(record);
+    });
+
+    return query.limit !== undefined ? records.slice(Math.max(0, records.length - query.limit)) : records;
+}
+
 /**
  * Build a reasoning string from audit entries
  */
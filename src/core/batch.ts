@@ -0,0 +1,275 @@
+/**
+ * Batch Processing Module
+ *
+ * Runs many invoices through the pipeline:
+ * - Invoices are processed in chronological order
+ * - Invoices of the same vendor run one after another, so each one sees what
+ *   the previous one taught the memory; different vendors run concurrently
+ * - Memory is saved once per batch, or every N invoices
+ * - Purchase orders and delivery notes are loaded once for the whole batch
+ */
+
+import { InvoiceInput, InvoiceDecisionOutput } from '../types';
+import { MemoryStore } from '../memory';
+import { parseDate, logger } from '../utils';
+import { BATCH } from '../config';
+import { processInvoice, PipelineOptions } from './pipeline';
+import { checkForDuplicate, normalizeVendorName } from './duplicates';
+import { loadReferenceData } from './matching';
+
+/**
+ * Batch options (pipeline options are passed to every invoice;
+ * referenceData defaults to loadReferenceData())
+ */
+export interface BatchOptions extends PipelineOptions {
+    /** Vendors processed concurrently (defaults to BATCH.VENDOR_CONCURRENCY) */
+    vendorConcurrency?: number;
+
+    /** Save memory after this many invoices; 0 saves once at the end (defaults to BATCH.PERSIST_EVERY) */
+    persistEvery?: number;
+
+    /** Called after each invoice with the number of invoices done so far */
+    onProgress?: (result: BatchInvoiceResult, completed: number, total: number) => void;
+}
+
+/**
+ * Outcome for one invoice of a batch
+ */
+export interface BatchInvoiceResult {
+    invoiceId: string;
+
+    /** Vendor the invoice was serialized under */
+    vendorKey: string;
+
+    /** Pipeline output (absent when processing failed) */
+    output?: InvoiceDecisionOutput;
+
+    /** Whether the invoice was flagged as a duplicate */
+    isDuplicate: boolean;
+
+    /** Error message when processing failed */
+    error?: string;
+}
+
+/**
+ * Aggregate figures for a batch
+ */
+export interface BatchSummary {
+    total: number;
+    autoApproved: number;
+    escalated: number;
+    duplicates: number;
+    errors: number;
+
+    /** Number of distinct vendors */
+    vendors: number;
+
+    /** Average confidence over successfully processed invoices */
+    averageConfidence: number;
+
+    /** Number of memory saves during the batch */
+    memorySaves: number;
+
+    durationMs: number;
+}
+
+/**
+ * Result of a batch run
+ */
+export interface BatchResult {
+    /** Per-invoice results in chronological order */
+    results: BatchInvoiceResult[];
+
+    summary: BatchSummary;
+}
+
+/**
+ * Process a batch of invoices
+ *
+ * Failures are recorded per invoice and do not stop the batch. A failed
+ * memory save is raised once all invoices have been processed.
+ */
+export async function processBatch(
+    invoices: InvoiceInput[],
+    memoryStore: MemoryStore,
+    options: BatchOptions = {}
+): Promise<BatchResult> {
+    const startedAt = Date.now();
+    const { vendorConcurrency, persistEvery, onProgress, ...invoiceOptions } = options;
+    const pipelineOptions: PipelineOptions = {
+        ...invoiceOptions,
+        referenceData: invoiceOptions.referenceData ?? loadReferenceData(),
+    };
+    const concurrency = Math.max(1, vendorConcurrency ?? BATCH.VENDOR_CONCURRENCY);
+    const saveEvery = persistEvery ?? BATCH.PERSIST_EVERY;
+
+    const ordered = sortChronologically(invoices);
+    const queues = groupByVendor(ordered);
+    const results: BatchInvoiceResult[] = new Array<BatchInvoiceResult>(ordered.length);
+
+    let completed = 0;
+    let memorySaves = 0;
+    let saveError: unknown;
+
+    // Saves are chained so concurrent vendors never save at the same time
+    let saving: Promise<void> = Promise.resolve();
+    const persist = (): Promise<void> => {
+        saving = saving
+            .then(() => memoryStore.saveToDisk())
+            .then(
+                () => {
+                    memorySaves += 1;
+                },
+                (error: unknown) => {
+                    saveError = saveError ?? error;
+                }
+            );
+        return saving;
+    };
+
+    const runVendor = async (vendorKey: string, queue: QueuedInvoice[]): Promise<void> => {
+        for (const { invoice, position } of queue) {
+            const result = await processOne(invoice, vendorKey, memoryStore, pipelineOptions);
+            results[position] = result;
+            completed += 1;
+            onProgress?.(result, completed, ordered.length);
+
+            if (saveEvery > 0 && completed % saveEvery === 0) {
+                await persist();
+            }
+        }
+    };
+
+    // Workers pick the next vendor queue until none are left
+    const pending = [...queues.entries()];
+    const workers = Array.from({ length: Math.min(concurrency, pending.length) }, async () => {
+        for (let next = pending.shift(); next; next = pending.shift()) {
+            await runVendor(next[0], next[1]);
+        }
+    });
+    await Promise.all(workers);
+
+    await saving;
+    if (saveError === undefined && memoryStore.hasUnsavedChanges()) {
+        await persist();
+    }
+    if (saveError !== undefined) {
+        throw saveError;
+    }
+
+    const summary = summarize(results, queues.size, memorySaves, Date.now() - startedAt);
+    logger.info(
+        `Batch processed ${summary.total} invoice(s): ${summary.autoApproved} auto-approved, ` +
+        `${summary.escalated} escalated, ${summary.duplicates} duplicate(s), ${summary.errors} error(s)`
+    );
+
+    return { results, summary };
+}
+
+/**
+ * Process a single invoice, capturing failures
+ */
+async function processOne(
+    invoice: InvoiceInput,
+    vendorKey: string,
+    memoryStore: MemoryStore,
+    options: PipelineOptions
+): Promise<BatchInvoiceResult> {
+    try {
+        // Checked up front: processing records the invoice, after which it matches itself
+        const isDuplicate = invoice.vendor?.name ? checkForDuplicate(invoice, memoryStore).isDuplicate : false;
+        const output = await processInvoice(invoice, memoryStore, options);
+        return { invoiceId: invoice.invoiceId, vendorKey, output, isDuplicate };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to process invoice ${invoice.invoiceId}`, error);
+        return { invoiceId: invoice.invoiceId, vendorKey, isDuplicate: false, error: message };
+    }
+}
+
+// =============================================================================
+// Ordering
+// =============================================================================
+
+/**
+ * Invoice with its position in the chronological order
+ */
+interface QueuedInvoice {
+    invoice: InvoiceInput;
+    position: number;
+}
+
+/**
+ * Sort invoices by invoice date (stable; undated invoices go last)
+ */
+function sortChronologically(invoices: InvoiceInput[]): InvoiceInput[] {
+    const dated = invoices.map((invoice, index) => ({
+        invoice,
+        index,
+        date: invoice.invoiceDate ? parseDate(invoice.invoiceDate) : null,
+    }));
+
+    dated.sort((a, b) => {
+        if (a.date && b.date && a.date !== b.date) return a.date < b.date ? -1 : 1;
+        if (a.date && !b.date) return -1;
+        if (!a.date && b.date) return 1;
+        return a.index - b.index;
+    });
+
+    return dated.map((entry) => entry.invoice);
+}
+
+/**
+ * Group invoices into per-vendor queues, keeping their order
+ */
+function groupByVendor(invoices: InvoiceInput[]): Map<string, QueuedInvoice[]> {
+    const queues = new Map<string, QueuedInvoice[]>();
+
+    invoices.forEach((invoice, position) => {
+        const key = vendorKeyOf(invoice);
+        const queue = queues.get(key);
+        if (queue) {
+            queue.push({ invoice, position });
+        } else {
+            queues.set(key, [{ invoice, position }]);
+        }
+    });
+
+    return queues;
+}
+
+/**
+ * Vendor key, matching how duplicate records identify vendors
+ */
+function vendorKeyOf(invoice: InvoiceInput): string {
+    if (invoice.vendor?.id) return invoice.vendor.id;
+    if (invoice.vendor?.name) return normalizeVendorName(invoice.vendor.name);
+    return 'unknown';
+}
+
+// =============================================================================
+// Summary
+// =============================================================================
+
+function summarize(
+    results: BatchInvoiceResult[],
+    vendors: number,
+    memorySaves: number,
+    durationMs: number
+): BatchSummary {
+    const succeeded = results.filter((r) => r.output);
+    const escalated = succeeded.filter((r) => r.output?.requiresHumanReview).length;
+    const confidenceSum = succeeded.reduce((sum, r) => sum + (r.output?.confidenceScore ?? 0), 0);
+
+    return {
+        total: results.length,
+        autoApproved: succeeded.length - escalated,
+        escalated,
+        duplicates: results.filter((r) => r.isDuplicate).length,
+        errors: results.length - succeeded.length,
+        vendors,
+        averageConfidence: succeeded.length > 0 ? confidenceSum / succeeded.length : 0,
+        memorySaves,
+        durationMs,
+    };
+}
@@ -322,6 +322,7 @@ export class DecisionEngine {
             amount: item.amount,
             category: item.category || null,
             productCode: item.productCode || null,
+            taxRate: item.taxRate ?? null,
         }));
 
         return {
@@ -7,10 +7,11 @@
  * - Reinforcing incorrect patterns
  */
 
-import { InvoiceInput } from '../types';
+import { InvoiceInput, DuplicateRecord, DateFormat } from '../types';
 import { MemoryStore } from '../memory';
-import { generateHash } from '../utils';
-import { PROCESSING } from '../config';
+import { generateHash, dateMonthKey, amountsMatch } from '../utils';
+import { PROCESSING, DUPLICATE_DETECTION } from '../config';
+import { ParsedRawText, parseRawText } from './rawText';
 
 /**
  * Duplicate detection result
@@ -43,10 +44,12 @@ export interface DuplicateCheckResult {
  */
 export function checkForDuplicate(
     invoice: InvoiceInput,
-    memoryStore: MemoryStore
+    memoryStore: MemoryStore,
+    rawText: ParsedRawText = parseRawText(invoice.rawText)
 ): DuplicateCheckResult {
-    // Generate hash for this invoice
-    const duplicateHash = generateDuplicateHash(invoice);
+    // Generate hash for this invoice, reading its date in the vendor's format
+    const vendorMemory = memoryStore.findVendorByName(invoice.vendor.name);
+    const duplicateHash = generateDuplicateHash(invoice, vendorMemory?.behaviors?.dateFormat);
 
     // Check exact hash match first
     const exactMatch = memoryStore.findDuplicate(duplicateHash);
@@ -62,6 +65,20 @@ export function checkForDuplicate(
         };
     }
 
+    // The rawText may name the invoice number the extractor missed, or say it was sent before
+    const rawTextMatch = findRawTextDuplicate(invoice, memoryStore, rawText);
+    if (rawTextMatch) {
+        return {
+            isDuplicate: true,
+            isConfirmed: rawTextMatch.record.confirmedDuplicate,
+            similarityScore: rawTextMatch.similarity,
+            originalInvoiceId: rawTextMatch.record.originalInvoiceId,
+            reason: rawTextMatch.reason,
+            duplicateHash,
+            skipLearning: PROCESSING.SKIP_LEARNING_FOR_DUPLICATES,
+        };
+    }
+
     // No duplicate found
     return {
         isDuplicate: false,
@@ -72,21 +89,79 @@ export function checkForDuplicate(
     };
 }
 
+/**
+ * Look up earlier invoices of the vendor by the invoice numbers rawText points to
+ *
+ * A rawText invoice number that differs from the extracted one, and the
+ * invoice referenced by a resubmission note ("Duplicate submission of
+ * PA-7810"), are compared on number and amount.
+ */
+function findRawTextDuplicate(
+    invoice: InvoiceInput,
+    memoryStore: MemoryStore,
+    rawText: ParsedRawText
+): { record: DuplicateRecord; similarity: number; reason: string } | undefined {
+    const vendorId = invoice.vendor.id || normalizeVendorName(invoice.vendor.name);
+    const candidates: Array<{ invoiceNumber: string; reason: string }> = [];
+
+    const rawTextNumber = rawText.fields.invoiceNumber?.value;
+    if (rawTextNumber && normalizeInvoiceNumber(rawTextNumber) !== normalizeInvoiceNumber(invoice.invoiceNumber)) {
+        candidates.push({
+            invoiceNumber: rawTextNumber,
+            reason: `rawText invoice number "${rawTextNumber}" differs from extracted "${invoice.invoiceNumber}"`,
+        });
+    }
+
+    const { resubmission } = rawText;
+    if (resubmission) {
+        candidates.push({
+            invoiceNumber: resubmission.reference ?? rawTextNumber ?? invoice.invoiceNumber,
+            reason: `rawText notes a resubmission ("${resubmission.line}")`,
+        });
+    }
+
+    for (const candidate of candidates) {
+        for (const record of memoryStore.findDuplicatesByInvoiceNumber(vendorId, candidate.invoiceNumber)) {
+            if (record.originalInvoiceId === invoice.invoiceId) continue;
+
+            // Number matches; amount and a resubmission note add to it
+            let similarity = 0.5;
+            if (amountsMatch(record.amount, invoice.totalAmount, record.amount * DUPLICATE_DETECTION.AMOUNT_TOLERANCE_PERCENT)) {
+                similarity += 0.5;
+            }
+            if (resubmission) similarity += 0.3;
+            similarity = Math.min(similarity, 1);
+
+            if (similarity >= DUPLICATE_DETECTION.SIMILARITY_THRESHOLD) {
+                return {
+                    record,
+                    similarity,
+                    reason: `${candidate.reason}; matches invoice ${record.originalInvoiceId} (${record.invoiceNumber})`,
+                };
+            }
+        }
+    }
+
+    return undefined;
+}
+
 /**
  * Generate a hash for duplicate detection
+ *
+ * @param dateFormat The vendor's learned date format, for reading ambiguous dates
  */
-export function generateDuplicateHash(invoice: InvoiceInput): string {
+export function generateDuplicateHash(invoice: InvoiceInput, dateFormat?: DateFormat): string {
     return generateHash({
         vendorKey: normalizeVendorName(invoice.vendor.name),
         invoiceNumber: normalizeInvoiceNumber(invoice.invoiceNumber),
-        dateKey: invoice.invoiceDate.substring(0, 7), // YYYY-MM
+        dateKey: dateMonthKey(invoice.invoiceDate, dateFormat), // YYYY-MM
     });
 }
 
 /**
  * Normalize vendor name for matching
  */
-function normalizeVendorName(name: string): string {
+export function normalizeVendorName(name: string): string {
     return name
         .toLowerCase()
         .trim()
@@ -3,5 +3,12 @@
  */
 export { DecisionEngine } from './decision-engine';
 export { processInvoice, PipelineOptions } from './pipeline';
+export * from './batch';
 export * from './audit';
+export * from './learning';
+export * from './review';
+export * from './vendorResolution';
+export * from './vendorMerge';
+export * from './rawText';
+export * from './matching';
 export * from './rules';
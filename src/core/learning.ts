@@ -0,0 +1,403 @@
+/**
+ * Learning Module
+ *
+ * Turns human correction records (the shape of invoices/human_corrections.json)
+ * into durable memory:
+ * - Vendor field mappings and behaviors
+ * - Correction memories for values the vendor gets wrong on every invoice
+ * - Resolution memories tracking the human decision
+ */
+
+import {
+    InvoiceInput,
+    HumanCorrectionRecord,
+    HumanFieldCorrection,
+    HumanDecision,
+    VendorMemory,
+    VendorBehavior,
+    FieldMapping,
+    CorrectionMemory,
+    ResolutionMemory,
+} from '../types';
+import { MemoryStore } from '../memory';
+import { reinforce } from '../memory/confidence';
+import { getTimestamp, generateHash, parseDate, inferDateFormat } from '../utils';
+import { normalizeVendorName } from './duplicates';
+import { createFieldMapping } from './rules/vendorRules';
+import { normalizeTaxRate } from './rules/taxRules';
+import { createCorrectionFromApproval, isReplayableCorrection } from './rules/correctionRules';
+import { isTotalsCorrectionField, recordReconciliationOutcome } from './rules/reconciliation';
+import { recordPoInferenceOutcome } from './matching';
+import { parseRawText } from './rawText';
+
+/**
+ * Options for learning from a human correction record
+ */
+export interface LearningOptions {
+    /** Reviewer who made the corrections */
+    userId?: string;
+
+    /** Vendor behaviors the reviewer confirmed by approving proposals, besides the corrections */
+    behavior?: Partial<VendorBehavior>;
+}
+
+/**
+ * Result from learning a human correction record
+ */
+export interface LearningResult {
+    /** Canonical vendor ID the memories were recorded under */
+    vendorId: string;
+
+    /** Vendor memory after learning (undefined if the invoice was rejected) */
+    vendorMemory?: VendorMemory;
+
+    /** Field mappings learned or reinforced */
+    fieldMappings: FieldMapping[];
+
+    /** Correction memories created or reinforced */
+    correctionMemories: CorrectionMemory[];
+
+    /** Resolution memories recording the human decisions */
+    resolutionMemories: ResolutionMemory[];
+
+    /** Notes for reasoning */
+    notes: string[];
+}
+
+/**
+ * Human correction field names that differ from the pipeline's correction fields
+ */
+const CORRECTION_FIELD_ALIASES: Record<string, string> = {
+    grossTotal: 'totalAmount',
+    taxTotal: 'taxAmount',
+    netTotal: 'netAmount',
+    discountTerms: 'paymentTerms',
+};
+
+/**
+ * Maximum number of example values kept per field mapping
+ */
+const MAX_EXAMPLE_VALUES = 5;
+
+// =============================================================================
+// Main Learning Function
+// =============================================================================
+
+/**
+ * Learn from a human correction record for an invoice
+ *
+ * @param memoryStore Persistence layer to record memories in
+ * @param invoice The invoice the corrections were made on
+ * @param record The human correction record
+ * @param options Reviewer information
+ * @returns Summary of the memories that were learned
+ */
+export async function learnFromHumanCorrection(
+    memoryStore: MemoryStore,
+    invoice: InvoiceInput,
+    record: HumanCorrectionRecord,
+    options: LearningOptions = {}
+): Promise<LearningResult> {
+    const existingVendor = memoryStore.findVendorByName(invoice.vendor.name) ?? findRenamedVendor(memoryStore, record);
+    const vendorId = existingVendor?.canonicalId || resolveVendorId(invoice);
+
+    const result: LearningResult = {
+        vendorId,
+        fieldMappings: [],
+        correctionMemories: [],
+        resolutionMemories: [],
+        notes: [],
+    };
+
+    if (record.invoiceId !== invoice.invoiceId) {
+        result.notes.push(
+            `Correction record ${record.invoiceId} does not belong to invoice ${invoice.invoiceId}, skipped`
+        );
+        return result;
+    }
+
+    if (record.finalDecision === 'rejected') {
+        for (const correction of record.corrections) {
+            const field = resolveCorrectionField(correction.field);
+            result.resolutionMemories.push(
+                memoryStore.recordResolution({
+                    decision: buildDecision('rejectCorrection', 'rejected', correction, options),
+                    contextHash: generateHash({ vendorId, field }),
+                })
+            );
+        }
+        result.notes.push(`Invoice ${invoice.invoiceId} rejected, recorded ${record.corrections.length} rejection(s)`);
+        await memoryStore.saveIfDirty();
+        return result;
+    }
+
+    // Ensure the vendor exists and collect what the corrections teach us about it
+    let behavior: Partial<VendorBehavior> = { ...options.behavior };
+    for (const correction of record.corrections) {
+        behavior = { ...behavior, ...inferVendorBehavior(invoice, correction) };
+    }
+
+    const vendorMemory = memoryStore.updateVendorMemory(vendorId, {
+        canonicalName: existingVendor ? undefined : invoice.vendor.name,
+        nameVariation: invoice.vendor.name,
+        behavior: Object.keys(behavior).length > 0 ? behavior : undefined,
+        taxId: invoice.vendor.taxId,
+        address: invoice.vendor.address,
+    });
+    result.vendorMemory = vendorMemory;
+
+    for (const key of Object.keys(behavior)) {
+        result.notes.push(`Learned vendor behavior "${key}" for ${vendorMemory.canonicalName}`);
+    }
+
+    for (const correction of record.corrections) {
+        const field = resolveCorrectionField(correction.field);
+
+        // 1. Field mapping: a metadata field or rawText label already held the corrected value
+        const mapping = discoverFieldMapping(invoice, vendorMemory, field, correction);
+        if (mapping) {
+            memoryStore.addVendorFieldMapping(vendorId, mapping);
+            result.fieldMappings.push(mapping);
+            result.notes.push(`Learned field mapping: ${mapping.sourceField} -> ${mapping.targetField}`);
+        }
+
+        // 2. Correction memory, keyed on the replaced value, unless the value only holds for this invoice
+        let correctionMemory: CorrectionMemory | undefined;
+        if (isReplayableCorrection(field, correction.from, correction.to)) {
+            const approval = createCorrectionFromApproval(
+                {
+                    field,
+                    originalValue: correction.from,
+                    proposedValue: correction.to,
+                    confidence: 1,
+                    reasoning: correction.reason,
+                    autoApplied: false,
+                },
+                vendorId
+            );
+            correctionMemory = memoryStore.recordCorrection({
+                pattern: {
+                    ...approval.pattern,
+                    context: { reason: correction.reason, invoiceId: invoice.invoiceId },
+                },
+                suggestedAction: approval.suggestedAction,
+                vendorId,
+                humanApproved: true,
+            });
+            result.correctionMemories.push(correctionMemory);
+            result.notes.push(`Recorded correction for ${field}: ${correction.reason}`);
+        } else {
+            result.notes.push(`Correction of ${field} is specific to invoice ${invoice.invoiceId}, no correction memory`);
+        }
+
+        // 3. A reviewer filled in a missing PO: the vendor's POs can be inferred
+        if (field === 'poNumber' && isEmptyValue(correction.from) && !isEmptyValue(correction.to)) {
+            const inferenceMemory = recordPoInferenceOutcome(memoryStore, vendorId, true);
+            if (inferenceMemory) {
+                result.correctionMemories.push(inferenceMemory);
+                result.notes.push(`Reinforced PO inference memory for ${vendorMemory.canonicalName}`);
+            }
+        }
+
+        // 4. Resolution memory for the human decision
+        result.resolutionMemories.push(
+            memoryStore.recordResolution({
+                decision: buildDecision('approveCorrection', 'modified', correction, options),
+                relatedMemoryId: correctionMemory?.id,
+                contextHash: generateHash({ vendorId, field }),
+            })
+        );
+    }
+
+    // A reviewer corrected totals: the vendor's totals discrepancies are real
+    if (record.corrections.some((c) => isTotalsCorrectionField(resolveCorrectionField(c.field)))) {
+        const reconciliationMemory = recordReconciliationOutcome(memoryStore, vendorId, true);
+        if (reconciliationMemory) {
+            result.correctionMemories.push(reconciliationMemory);
+            result.notes.push(`Reinforced totals reconciliation memory for ${vendorMemory.canonicalName}`);
+        }
+    }
+
+    await memoryStore.saveIfDirty();
+    return result;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Derive a stable canonical vendor ID for an invoice
+ * (matches the vendor ID used for duplicate records)
+ */
+function resolveVendorId(invoice: InvoiceInput): string {
+    return invoice.vendor.id || normalizeVendorName(invoice.vendor.name);
+}
+
+/**
+ * Known vendor a vendor.name correction points to (a confirmed fuzzy match)
+ *
+ * The invoice's name is then learned as a variation of that vendor instead
+ * of starting a new vendor memory.
+ */
+function findRenamedVendor(memoryStore: MemoryStore, record: HumanCorrectionRecord): VendorMemory | undefined {
+    if (record.finalDecision !== 'approved') return undefined;
+
+    const rename = record.corrections.find((c) => resolveCorrectionField(c.field) === 'vendor.name');
+    return typeof rename?.to === 'string' ? memoryStore.findVendorByName(rename.to) : undefined;
+}
+
+/**
+ * Translate a human correction field into the pipeline's correction field
+ */
+export function resolveCorrectionField(field: string): string {
+    const lineItemSku = field.match(/^lineItems\[(\d+)\]\.sku$/);
+    if (lineItemSku) {
+        return `lineItems[${lineItemSku[1]}].productCode`;
+    }
+
+    return CORRECTION_FIELD_ALIASES[field] || field;
+}
+
+/**
+ * Build a human decision from a field correction
+ */
+function buildDecision(
+    decisionType: HumanDecision['decisionType'],
+    action: HumanDecision['action'],
+    correction: HumanFieldCorrection,
+    options: LearningOptions
+): HumanDecision {
+    return {
+        decisionType,
+        action,
+        timestamp: getTimestamp(),
+        reason: correction.reason,
+        userId: options.userId,
+    };
+}
+
+/**
+ * Find a metadata field, or a labeled line in rawText ("Leistungsdatum: 01.01.2024"),
+ * whose value matches the corrected value and turn it into a field mapping for the vendor
+ */
+function discoverFieldMapping(
+    invoice: InvoiceInput,
+    vendorMemory: VendorMemory,
+    targetField: string,
+    correction: HumanFieldCorrection
+): FieldMapping | null {
+    const metadata = invoice.metadata || {};
+
+    for (const [sourceField, value] of Object.entries(metadata)) {
+        if (sourceField === targetField || sourceField === correction.field) continue;
+        if (!valuesMatch(value, correction.to)) continue;
+
+        return reinforceOrCreateMapping(vendorMemory, sourceField, targetField, String(value), 'metadata');
+    }
+
+    for (const { label, value } of parseRawText(invoice.rawText).entries) {
+        if (!valuesMatch(value, correction.to)) continue;
+
+        return reinforceOrCreateMapping(vendorMemory, label, targetField, value, 'rawText');
+    }
+
+    return null;
+}
+
+function reinforceOrCreateMapping(
+    vendorMemory: VendorMemory,
+    sourceField: string,
+    targetField: string,
+    exampleValue: string,
+    source: NonNullable<FieldMapping['source']>
+): FieldMapping {
+    const existing = vendorMemory.fieldMappings[sourceField];
+
+    if (existing && existing.targetField === targetField && (existing.source ?? 'metadata') === source) {
+        const exampleValues = [...(existing.exampleValues || []), exampleValue];
+        return {
+            ...existing,
+            confidence: reinforce(existing.confidence),
+            occurrenceCount: existing.occurrenceCount + 1,
+            exampleValues: exampleValues.slice(-MAX_EXAMPLE_VALUES),
+        };
+    }
+
+    return createFieldMapping(sourceField, targetField, 0.5, exampleValue, source === 'rawText' ? source : undefined);
+}
+
+/**
+ * Infer vendor-level behaviors from a correction
+ */
+export function inferVendorBehavior(
+    invoice: InvoiceInput,
+    correction: HumanFieldCorrection
+): Partial<VendorBehavior> {
+    const field = resolveCorrectionField(correction.field);
+
+    if (field === 'currency' && typeof correction.to === 'string') {
+        return { defaultCurrency: correction.to.toUpperCase() };
+    }
+
+    if (
+        ['taxAmount', 'totalAmount', 'netAmount'].includes(field) &&
+        /incl|inkl|include/i.test(correction.reason)
+    ) {
+        const behavior: Partial<VendorBehavior> = { vatIncluded: true };
+        const taxRate = normalizeTaxRate(invoice.metadata?.taxRate);
+        if (taxRate !== undefined && taxRate > 0) {
+            behavior.defaultVatRate = taxRate;
+        }
+        return behavior;
+    }
+
+    // A corrected date shows whether the vendor writes the day or the month first
+    if (
+        ['invoiceDate', 'serviceDate', 'dueDate'].includes(field) &&
+        typeof correction.from === 'string' &&
+        typeof correction.to === 'string'
+    ) {
+        const dateFormat = inferDateFormat(correction.from, correction.to);
+        if (dateFormat) {
+            return { dateFormat };
+        }
+    }
+
+    return {};
+}
+
+/**
+ * Check if a correction value is empty (null, undefined or blank)
+ */
+function isEmptyValue(value: unknown): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Compare an observed value with a corrected value (strings, numbers and dates)
+ */
+function valuesMatch(observed: unknown, expected: unknown): boolean {
+    if (observed === null || observed === undefined || expected === null || expected === undefined) {
+        return false;
+    }
+    if (typeof observed === 'object' || typeof expected === 'object') {
+        return false;
+    }
+
+    const a = String(observed).trim();
+    const b = String(expected).trim();
+    if (a.length === 0 || b.length === 0) return false;
+
+    if (a.toLowerCase() === b.toLowerCase()) return true;
+
+    const numA = Number(a);
+    const numB = Number(b);
+    if (!isNaN(numA) && !isNaN(numB)) {
+        return Math.abs(numA - numB) < 0.005;
+    }
+
+    const dateA = parseDate(a) || a;
+    const dateB = parseDate(b) || b;
+    return dateA === dateB;
+}
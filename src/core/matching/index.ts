@@ -0,0 +1,6 @@
+/**
+ * Matching module exports
+ */
+export * from './referenceData';
+export * from './threeWayMatch';
+export * from './poInference';
@@ -0,0 +1,293 @@
+/**
+ * PO Inference Module
+ *
+ * Infers a missing PO reference by searching the vendor's open purchase orders
+ * within a date window and scoring them by SKU overlap, quantities and amounts.
+ * Outcomes are learned in a per-vendor "PO inference" correction memory so the
+ * inference can be auto-applied once it has been confirmed often enough.
+ */
+
+import {
+    InvoiceInput,
+    VendorMemory,
+    CorrectionMemory,
+    ProposedCorrection,
+    PurchaseOrder,
+} from '../../types';
+import { MemoryStore } from '../../memory';
+import { MATCHING } from '../../config';
+import { parseDate, daysBetween } from '../../utils';
+import { ReferenceData, vendorMatches } from './referenceData';
+import { getInvoicePoNumber } from './threeWayMatch';
+
+/**
+ * Options for PO inference
+ */
+export interface PoInferenceOptions {
+    /** Days before the invoice date to search for purchase orders */
+    windowDays?: number;
+
+    /** Confidence threshold for auto-applying the inferred PO */
+    autoApplyThreshold?: number;
+}
+
+/**
+ * Scored purchase order candidate
+ */
+export interface PoCandidate {
+    purchaseOrder: PurchaseOrder;
+
+    /** Overall score (0-1) */
+    score: number;
+
+    /** Share of invoice SKUs found on the PO (0-1) */
+    skuOverlap: number;
+
+    /** Agreement of invoiced and ordered quantities (0-1) */
+    quantityScore: number;
+
+    /** Agreement of invoice net amount and PO total (0-1) */
+    amountScore: number;
+
+    /** Days between PO date and invoice date */
+    daysApart: number;
+}
+
+/**
+ * Result from inferring a PO reference
+ */
+export interface PoInferenceResult {
+    /** Candidates ranked by score (best first) */
+    candidates: PoCandidate[];
+
+    /** Proposed poNumber correction (if a candidate qualified) */
+    correction?: ProposedCorrection;
+
+    /** Notes for reasoning */
+    notes: string[];
+}
+
+/**
+ * Score weights for candidate ranking
+ */
+const SCORE_WEIGHTS = {
+    sku: 0.5,
+    quantity: 0.2,
+    amount: 0.2,
+    date: 0.1,
+};
+
+// =============================================================================
+// Main Inference Function
+// =============================================================================
+
+/**
+ * Infer a missing PO reference from the vendor's open purchase orders
+ *
+ * @param invoice The raw invoice input
+ * @param referenceData Purchase orders and delivery notes
+ * @param vendorMemory The vendor memory (if found)
+ * @param inferenceMemory Learned PO inference memory for the vendor (if any)
+ * @param options Date window and auto-apply threshold
+ * @returns Ranked candidates and the proposed correction
+ */
+export function inferPurchaseOrder(
+    invoice: InvoiceInput,
+    referenceData: ReferenceData,
+    vendorMemory: VendorMemory | undefined,
+    inferenceMemory: CorrectionMemory | undefined,
+    options: PoInferenceOptions = {}
+): PoInferenceResult {
+    const windowDays = options.windowDays ?? MATCHING.PO_INFERENCE_WINDOW_DAYS;
+    const autoApplyThreshold = options.autoApplyThreshold ?? 0.85;
+    const notes: string[] = [];
+
+    if (getInvoicePoNumber(invoice)) {
+        return { candidates: [], notes };
+    }
+
+    const invoiceDate = parseDate(invoice.invoiceDate, vendorMemory?.behaviors?.dateFormat);
+    if (!invoiceDate) {
+        notes.push(`PO inference skipped: cannot parse invoice date "${invoice.invoiceDate}"`);
+        return { candidates: [], notes };
+    }
+
+    const vendorNames = [invoice.vendor.name];
+    if (vendorMemory) {
+        vendorNames.push(vendorMemory.canonicalName, ...vendorMemory.nameVariations);
+    }
+
+    const candidates: PoCandidate[] = [];
+    for (const purchaseOrder of referenceData.purchaseOrders) {
+        if (purchaseOrder.status === 'closed') continue;
+        if (!vendorMatches(purchaseOrder.vendor, vendorNames)) continue;
+
+        const daysApart = daysBetween(purchaseOrder.date, invoiceDate);
+        if (daysApart === null || daysApart < 0 || daysApart > windowDays) continue;
+
+        const candidate = scoreCandidate(invoice, purchaseOrder, daysApart, windowDays);
+        if (candidate.skuOverlap > 0) {
+            candidates.push(candidate);
+        }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    if (candidates.length === 0) {
+        notes.push(`PO inference: no open PO for "${invoice.vendor.name}" within ${windowDays} days`);
+        return { candidates, notes };
+    }
+
+    const best = candidates[0];
+    if (best.score < MATCHING.PO_INFERENCE_MIN_SCORE) {
+        notes.push(
+            `PO inference: best candidate ${best.purchaseOrder.poNumber} scored ` +
+            `${(best.score * 100).toFixed(0)}%, below minimum`
+        );
+        return { candidates, notes };
+    }
+
+    // Unambiguous matches keep their full score; close runner-ups halve it
+    const runnerUp = candidates[1];
+    const margin = runnerUp ? best.score - runnerUp.score : 1;
+    const unambiguity = Math.min(margin / MATCHING.PO_INFERENCE_AMBIGUITY_MARGIN, 1);
+    const matchConfidence = best.score * (0.5 + 0.5 * unambiguity);
+
+    const confidence = inferenceMemory
+        ? Math.min(matchConfidence, inferenceMemory.confidence)
+        : matchConfidence * MATCHING.PO_INFERENCE_UNLEARNED_FACTOR;
+    const autoApplied = !!inferenceMemory?.humanApproved && confidence >= autoApplyThreshold;
+
+    const correction: ProposedCorrection = {
+        field: 'poNumber',
+        originalValue: invoice.poNumber ?? null,
+        proposedValue: best.purchaseOrder.poNumber,
+        confidence,
+        reasoning:
+            `Inferred ${best.purchaseOrder.poNumber}: ` +
+            (runnerUp ? `best of ${candidates.length} open POs` : 'only open PO') +
+            ` for vendor within ${windowDays} days, ` +
+            `SKU overlap ${(best.skuOverlap * 100).toFixed(0)}%, ` +
+            `quantities ${(best.quantityScore * 100).toFixed(0)}%, ` +
+            `amount ${(best.amountScore * 100).toFixed(0)}%` +
+            (inferenceMemory ? ` (${inferenceMemory.reinforcementCount} confirmed inferences)` : ''),
+        source: inferenceMemory?.id || 'poInference',
+        autoApplied,
+    };
+
+    notes.push(
+        autoApplied
+            ? `Auto-applied inferred PO ${best.purchaseOrder.poNumber}`
+            : `Suggested PO ${best.purchaseOrder.poNumber} (confidence: ${(confidence * 100).toFixed(0)}%)`
+    );
+
+    return { candidates, correction, notes };
+}
+
+/**
+ * Score a purchase order candidate against the invoice
+ */
+function scoreCandidate(
+    invoice: InvoiceInput,
+    purchaseOrder: PurchaseOrder,
+    daysApart: number,
+    windowDays: number
+): PoCandidate {
+    const invoiceSkus = invoice.lineItems
+        .map((item) => item.productCode)
+        .filter((sku): sku is string => !!sku);
+
+    const quantityScores: number[] = [];
+    let overlapCount = 0;
+
+    for (const item of invoice.lineItems) {
+        const poLine = purchaseOrder.lineItems.find((line) => line.sku === item.productCode);
+        if (!poLine) continue;
+
+        overlapCount++;
+        const invoicedQty = item.quantity ?? 1;
+        quantityScores.push(poLine.qty > 0 ? 1 - Math.min(Math.abs(invoicedQty - poLine.qty) / poLine.qty, 1) : 0);
+    }
+
+    const skuOverlap = invoiceSkus.length > 0 ? overlapCount / invoiceSkus.length : 0;
+    const quantityScore =
+        quantityScores.length > 0
+            ? quantityScores.reduce((sum, score) => sum + score, 0) / quantityScores.length
+            : 0;
+
+    const invoiceNet = invoice.lineItems.reduce((sum, item) => sum + item.amount, 0);
+    const poTotal = purchaseOrder.lineItems.reduce((sum, line) => sum + line.qty * line.unitPrice, 0);
+    const amountScore = poTotal > 0 ? 1 - Math.min(Math.abs(invoiceNet - poTotal) / poTotal, 1) : 0;
+
+    const dateScore = windowDays > 0 ? 1 - daysApart / windowDays : 1;
+
+    const score =
+        skuOverlap * SCORE_WEIGHTS.sku +
+        quantityScore * SCORE_WEIGHTS.quantity +
+        amountScore * SCORE_WEIGHTS.amount +
+        dateScore * SCORE_WEIGHTS.date;
+
+    return { purchaseOrder, score, skuOverlap, quantityScore, amountScore, daysApart };
+}
+
+// =============================================================================
+// PO Inference Memory
+// =============================================================================
+
+/**
+ * Signature of the per-vendor PO inference memory
+ */
+function poInferenceSignature(vendorId: string): string {
+    return `po_inference:${vendorId}`;
+}
+
+/**
+ * Find the learned PO inference memory for a vendor
+ */
+export function findPoInferenceMemory(
+    memoryStore: MemoryStore,
+    vendorId: string
+): CorrectionMemory | undefined {
+    const signature = poInferenceSignature(vendorId);
+    return memoryStore
+        .findCorrections('other', vendorId)
+        .find((c) => c.pattern.signature === signature);
+}
+
+/**
+ * Whether a proposed correction is an inferred PO (learned or not)
+ */
+export function isPoInferenceCorrection(correction: ProposedCorrection, memory?: CorrectionMemory): boolean {
+    if (correction.field !== 'poNumber') return false;
+    if (memory) return memory.pattern.signature === poInferenceSignature(memory.vendorId || '');
+    return correction.source === 'poInference';
+}
+
+/**
+ * Record the outcome of a PO inference (confirmed or rejected by a human)
+ */
+export function recordPoInferenceOutcome(
+    memoryStore: MemoryStore,
+    vendorId: string,
+    confirmed: boolean
+): CorrectionMemory | undefined {
+    if (!confirmed) {
+        const existing = findPoInferenceMemory(memoryStore, vendorId);
+        if (existing) {
+            memoryStore.penalizeMemory(existing.id);
+        }
+        return existing;
+    }
+
+    return memoryStore.recordCorrection({
+        pattern: {
+            type: 'other',
+            signature: poInferenceSignature(vendorId),
+            condition: 'Invoice has no PO reference',
+            context: { rule: 'poInference' },
+        },
+        suggestedAction: 'Infer PO number from open purchase orders',
+        vendorId,
+        humanApproved: true,
+    });
+}
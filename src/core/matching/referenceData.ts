@@ -0,0 +1,108 @@
+/**
+ * Reference Data Module
+ *
+ * Loads purchase orders and delivery notes and provides lookups
+ * used by three-way matching.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PurchaseOrder, DeliveryNote } from '../../types';
+import { logger } from '../../utils';
+import { normalizeVendorName } from '../duplicates';
+
+/**
+ * Default directory holding reference data files
+ */
+const DEFAULT_REFERENCE_DATA_DIR = path.join(process.cwd(), 'invoices');
+const PURCHASE_ORDERS_FILE = 'purchase_orders.json';
+const DELIVERY_NOTES_FILE = 'delivery_notes.json';
+
+/**
+ * Purchase orders and delivery notes available for matching
+ */
+export interface ReferenceData {
+    purchaseOrders: PurchaseOrder[];
+    deliveryNotes: DeliveryNote[];
+}
+
+/**
+ * Create an empty reference data set (disables matching)
+ */
+export function createEmptyReferenceData(): ReferenceData {
+    return { purchaseOrders: [], deliveryNotes: [] };
+}
+
+/**
+ * Load purchase orders and delivery notes from a directory
+ *
+ * Missing or unreadable files are logged and treated as empty.
+ */
+export function loadReferenceData(dataDir?: string): ReferenceData {
+    const dir = dataDir || DEFAULT_REFERENCE_DATA_DIR;
+
+    return {
+        purchaseOrders: loadJsonArray<PurchaseOrder>(path.join(dir, PURCHASE_ORDERS_FILE)),
+        deliveryNotes: loadJsonArray<DeliveryNote>(path.join(dir, DELIVERY_NOTES_FILE)),
+    };
+}
+
+/**
+ * Read a JSON array from disk
+ */
+function loadJsonArray<T>(filePath: string): T[] {
+    if (!fs.existsSync(filePath)) {
+        logger.warn(`Reference data file not found: ${filePath}`);
+        return [];
+    }
+
+    try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as unknown;
+        if (!Array.isArray(parsed)) {
+            logger.warn(`Reference data file is not an array: ${filePath}`);
+            return [];
+        }
+        return parsed as T[];
+    } catch (error) {
+        logger.error(`Failed to load reference data from ${filePath}`, error);
+        return [];
+    }
+}
+
+// =============================================================================
+// Lookups
+// =============================================================================
+
+/**
+ * Normalize a PO number for matching ("PO-A050" and "PO-A-050" are the same PO)
+ */
+export function normalizePoNumber(poNumber: string): string {
+    return poNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Find a purchase order by number
+ */
+export function findPurchaseOrder(
+    referenceData: ReferenceData,
+    poNumber: string
+): PurchaseOrder | undefined {
+    const normalized = normalizePoNumber(poNumber);
+    return referenceData.purchaseOrders.find((po) => normalizePoNumber(po.poNumber) === normalized);
+}
+
+/**
+ * Find all delivery notes recorded against a purchase order
+ */
+export function findDeliveryNotes(referenceData: ReferenceData, poNumber: string): DeliveryNote[] {
+    const normalized = normalizePoNumber(poNumber);
+    return referenceData.deliveryNotes.filter((dn) => normalizePoNumber(dn.poNumber) === normalized);
+}
+
+/**
+ * Check if a reference document's vendor matches one of the given vendor names
+ */
+export function vendorMatches(documentVendor: string, vendorNames: string[]): boolean {
+    const normalized = normalizeVendorName(documentVendor);
+    return vendorNames.some((name) => normalizeVendorName(name) === normalized);
+}
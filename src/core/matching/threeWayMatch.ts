@@ -0,0 +1,332 @@
+/**
+ * Three-Way Match Module
+ *
+ * Matches invoice line items against the referenced purchase order and
+ * its delivery notes by SKU, quantity and unit price. Emits:
+ * - Quantity mismatch corrections (honoring the vendor's quantityMismatchStrategy),
+ *   or notes where the strategy keeps the invoiced quantity
+ * - Notes for partial deliveries invoiced as delivered
+ * - Unit price variance corrections
+ */
+
+import {
+    InvoiceInput,
+    VendorMemory,
+    VendorBehavior,
+    ProposedCorrection,
+    PurchaseOrder,
+    DeliveryNote,
+} from '../../types';
+import { MATCHING } from '../../config';
+import { ReferenceData, findPurchaseOrder, findDeliveryNotes, vendorMatches } from './referenceData';
+
+/**
+ * Match status of a single invoice line item
+ */
+export type LineItemMatchStatus = 'matched' | 'quantityMismatch' | 'priceVariance' | 'unmatched';
+
+/**
+ * Comparison of one invoice line item against PO and delivery notes
+ */
+export interface LineItemMatch {
+    lineIndex: number;
+    sku: string | null;
+    invoicedQty: number;
+    orderedQty?: number;
+    deliveredQty?: number;
+    invoicedUnitPrice?: number;
+    orderedUnitPrice?: number;
+    status: LineItemMatchStatus[];
+}
+
+/**
+ * Result from three-way matching an invoice
+ */
+export interface ThreeWayMatchResult {
+    /** Purchase order the invoice references (if found) */
+    purchaseOrder?: PurchaseOrder;
+
+    /** Delivery notes recorded against the purchase order */
+    deliveryNotes: DeliveryNote[];
+
+    /** Per line item comparison */
+    lineMatches: LineItemMatch[];
+
+    /** Proposed quantity and price corrections */
+    corrections: ProposedCorrection[];
+
+    /** Notes for reasoning */
+    notes: string[];
+
+    /** Share of line items that matched cleanly (0-1) */
+    matchRate: number;
+}
+
+type QuantityStrategy = NonNullable<VendorBehavior['quantityMismatchStrategy']>;
+
+/**
+ * Get the PO reference of an invoice (top-level field or extracted metadata)
+ */
+export function getInvoicePoNumber(invoice: InvoiceInput): string | null {
+    if (invoice.poNumber) return invoice.poNumber;
+
+    const metadataPo = invoice.metadata?.poNumber;
+    return typeof metadataPo === 'string' && metadataPo.length > 0 ? metadataPo : null;
+}
+
+// =============================================================================
+// Main Match Function
+// =============================================================================
+
+/**
+ * Three-way match an invoice against purchase orders and delivery notes
+ *
+ * @param invoice The raw invoice input
+ * @param referenceData Purchase orders and delivery notes
+ * @param vendorMemory The vendor memory (if found)
+ * @param autoApplyThreshold Confidence threshold for auto-applying corrections
+ * @returns Result with line comparisons and proposed corrections
+ */
+export function performThreeWayMatch(
+    invoice: InvoiceInput,
+    referenceData: ReferenceData,
+    vendorMemory: VendorMemory | undefined,
+    autoApplyThreshold: number = 0.85
+): ThreeWayMatchResult {
+    const result: ThreeWayMatchResult = {
+        deliveryNotes: [],
+        lineMatches: [],
+        corrections: [],
+        notes: [],
+        matchRate: 0,
+    };
+
+    const poNumber = getInvoicePoNumber(invoice);
+    if (!poNumber) {
+        result.notes.push('Three-way match skipped: invoice has no PO reference');
+        return result;
+    }
+
+    const purchaseOrder = findPurchaseOrder(referenceData, poNumber);
+    if (!purchaseOrder) {
+        result.notes.push(`Three-way match: PO "${poNumber}" not found in purchase orders`);
+        return result;
+    }
+
+    result.purchaseOrder = purchaseOrder;
+    result.deliveryNotes = findDeliveryNotes(referenceData, purchaseOrder.poNumber);
+
+    const vendorNames = [invoice.vendor.name];
+    if (vendorMemory) {
+        vendorNames.push(vendorMemory.canonicalName, ...vendorMemory.nameVariations);
+    }
+    if (!vendorMatches(purchaseOrder.vendor, vendorNames)) {
+        result.notes.push(
+            `Three-way match: ${purchaseOrder.poNumber} belongs to "${purchaseOrder.vendor}", not "${invoice.vendor.name}"`
+        );
+    }
+
+    const strategy: QuantityStrategy =
+        vendorMemory?.behaviors?.quantityMismatchStrategy || MATCHING.DEFAULT_QUANTITY_STRATEGY;
+
+    for (let i = 0; i < invoice.lineItems.length; i++) {
+        const lineMatch = matchLineItem(invoice, i, purchaseOrder, result.deliveryNotes);
+        result.lineMatches.push(lineMatch);
+
+        if (lineMatch.status.includes('unmatched')) {
+            result.notes.push(
+                lineMatch.sku
+                    ? `Line ${i + 1}: SKU ${lineMatch.sku} not found on ${purchaseOrder.poNumber}`
+                    : `Line ${i + 1}: no SKU to match against ${purchaseOrder.poNumber}`
+            );
+            continue;
+        }
+
+        if (isConfirmedPartialDelivery(lineMatch)) {
+            result.notes.push(
+                `Line ${i + 1}: partial delivery of ${lineMatch.sku} confirmed - invoiced ${lineMatch.invoicedQty} ` +
+                `of ${lineMatch.orderedQty} ordered (${purchaseOrder.poNumber}), delivered ${lineMatch.deliveredQty} ` +
+                `(${result.deliveryNotes.map((dn) => dn.dnNumber).join(', ')})`
+            );
+        } else if (lineMatch.status.includes('quantityMismatch')) {
+            const correction = createQuantityCorrection(
+                lineMatch,
+                purchaseOrder,
+                result.deliveryNotes,
+                strategy,
+                autoApplyThreshold
+            );
+            // Keeping the invoiced quantity changes nothing: report the mismatch only
+            if (correction.proposedValue === correction.originalValue) {
+                result.notes.push(`${correction.reasoning} (invoiced quantity kept)`);
+            } else {
+                result.corrections.push(correction);
+                result.notes.push(correction.reasoning);
+            }
+        }
+
+        if (lineMatch.status.includes('priceVariance')) {
+            const correction = createPriceCorrection(lineMatch, purchaseOrder);
+            result.corrections.push(correction);
+            result.notes.push(correction.reasoning);
+        }
+    }
+
+    const matchedCount = result.lineMatches.filter((m) => m.status.includes('matched')).length;
+    result.matchRate =
+        result.lineMatches.length > 0 ? matchedCount / result.lineMatches.length : 0;
+
+    result.notes.push(
+        `Three-way match against ${purchaseOrder.poNumber}` +
+        (result.deliveryNotes.length > 0
+            ? ` and ${result.deliveryNotes.map((dn) => dn.dnNumber).join(', ')}`
+            : ' (no delivery notes)') +
+        `: ${matchedCount}/${result.lineMatches.length} line(s) matched`
+    );
+
+    return result;
+}
+
+// =============================================================================
+// Line Item Matching
+// =============================================================================
+
+/**
+ * Compare a single invoice line item against the PO and delivery notes
+ */
+function matchLineItem(
+    invoice: InvoiceInput,
+    lineIndex: number,
+    purchaseOrder: PurchaseOrder,
+    deliveryNotes: DeliveryNote[]
+): LineItemMatch {
+    const item = invoice.lineItems[lineIndex];
+    const sku = item.productCode || null;
+    const lineMatch: LineItemMatch = {
+        lineIndex,
+        sku,
+        invoicedQty: item.quantity ?? 1,
+        invoicedUnitPrice: item.unitPrice,
+        status: [],
+    };
+
+    const poLine = sku ? purchaseOrder.lineItems.find((line) => line.sku === sku) : undefined;
+    if (!poLine) {
+        lineMatch.status.push('unmatched');
+        return lineMatch;
+    }
+
+    lineMatch.orderedQty = poLine.qty;
+    lineMatch.orderedUnitPrice = poLine.unitPrice;
+
+    const deliveredLines = deliveryNotes.flatMap((dn) => dn.lineItems.filter((line) => line.sku === sku));
+    if (deliveredLines.length > 0) {
+        lineMatch.deliveredQty = deliveredLines.reduce((sum, line) => sum + line.qtyDelivered, 0);
+    }
+
+    // Delivery notes settle the quantity up to the ordered quantity: invoicing what was
+    // delivered of a larger order is no mismatch, invoicing more than was ordered is
+    const { invoicedQty, deliveredQty } = lineMatch;
+    if (invoicedQty !== (deliveredQty ?? poLine.qty) || invoicedQty > poLine.qty) {
+        lineMatch.status.push('quantityMismatch');
+    }
+
+    if (lineMatch.invoicedUnitPrice !== undefined && poLine.unitPrice > 0) {
+        const variance = Math.abs(lineMatch.invoicedUnitPrice - poLine.unitPrice) / poLine.unitPrice;
+        if (variance > MATCHING.PRICE_TOLERANCE_PERCENT) {
+            lineMatch.status.push('priceVariance');
+        }
+    }
+
+    if (lineMatch.status.length === 0) {
+        lineMatch.status.push('matched');
+    }
+
+    return lineMatch;
+}
+
+/**
+ * Whether a line invoices exactly what was delivered of a larger order
+ */
+function isConfirmedPartialDelivery(lineMatch: LineItemMatch): boolean {
+    const { invoicedQty, orderedQty, deliveredQty } = lineMatch;
+    return (
+        deliveredQty !== undefined &&
+        orderedQty !== undefined &&
+        invoicedQty === deliveredQty &&
+        invoicedQty < orderedQty
+    );
+}
+
+/**
+ * Create a quantity mismatch correction according to the vendor's strategy
+ */
+function createQuantityCorrection(
+    lineMatch: LineItemMatch,
+    purchaseOrder: PurchaseOrder,
+    deliveryNotes: DeliveryNote[],
+    strategy: QuantityStrategy,
+    autoApplyThreshold: number
+): ProposedCorrection {
+    const { invoicedQty, orderedQty, deliveredQty } = lineMatch;
+    const referenceQty =
+        deliveredQty !== undefined && orderedQty !== undefined
+            ? Math.min(deliveredQty, orderedQty)
+            : deliveredQty ?? orderedQty;
+
+    let confidence: number;
+    let explanation: string;
+    if (deliveredQty === undefined) {
+        confidence = MATCHING.PO_ONLY_CONFIDENCE;
+        explanation = 'no delivery note to confirm';
+    } else if (invoicedQty === deliveredQty) {
+        confidence = MATCHING.DELIVERY_MISMATCH_CONFIDENCE;
+        explanation = 'delivered and invoiced more than ordered';
+    } else {
+        confidence = MATCHING.DELIVERY_MISMATCH_CONFIDENCE;
+        explanation =
+            invoicedQty > deliveredQty ? 'invoiced more than delivered' : 'invoiced less than delivered';
+    }
+
+    const proposedValue = strategy === 'preferInvoice' ? invoicedQty : referenceQty;
+    const deliveryRefs = deliveryNotes.map((dn) => dn.dnNumber).join(', ');
+
+    return {
+        field: `lineItems[${lineMatch.lineIndex}].quantity`,
+        originalValue: invoicedQty,
+        proposedValue,
+        confidence,
+        reasoning:
+            `Quantity mismatch for ${lineMatch.sku}: invoiced ${invoicedQty}, ` +
+            `ordered ${orderedQty} (${purchaseOrder.poNumber})` +
+            (deliveredQty !== undefined ? `, delivered ${deliveredQty} (${deliveryRefs})` : '') +
+            ` - ${explanation}; strategy: ${strategy}`,
+        source: 'threeWayMatch',
+        autoApplied: strategy !== 'askHuman' && confidence >= autoApplyThreshold,
+    };
+}
+
+/**
+ * Create a unit price variance correction (always requires review)
+ */
+function createPriceCorrection(
+    lineMatch: LineItemMatch,
+    purchaseOrder: PurchaseOrder
+): ProposedCorrection {
+    const invoicedPrice = lineMatch.invoicedUnitPrice ?? 0;
+    const orderedPrice = lineMatch.orderedUnitPrice ?? 0;
+    const variancePercent = ((invoicedPrice - orderedPrice) / orderedPrice) * 100;
+
+    return {
+        field: `lineItems[${lineMatch.lineIndex}].unitPrice`,
+        originalValue: invoicedPrice,
+        proposedValue: orderedPrice,
+        confidence: MATCHING.PRICE_VARIANCE_CONFIDENCE,
+        reasoning:
+            `Price variance for ${lineMatch.sku}: invoiced ${invoicedPrice.toFixed(2)} vs ` +
+            `${orderedPrice.toFixed(2)} on ${purchaseOrder.poNumber} ` +
+            `(${variancePercent > 0 ? '+' : ''}${variancePercent.toFixed(1)}%)`,
+        source: 'threeWayMatch',
+        autoApplied: false,
+    };
+}
@@ -16,8 +16,8 @@ import {
     DuplicateRecord,
 } from '../types';
 import { MemoryStore } from '../memory';
-import { getTimestamp, generateHash } from '../utils';
-import { DUPLICATE_DETECTION } from '../config';
+import { getTimestamp, generateHash, dateMonthKey, detectDateFormat } from '../utils';
+import { DUPLICATE_DETECTION, MATCHING } from '../config';
 import {
     createAuditEntry,
     appendToAuditLog,
@@ -28,9 +28,21 @@ import {
     checkForDuplicate,
     recordDuplicate,
     recordInvoiceForDuplicateDetection,
+    normalizeVendorName,
 } from './duplicates';
 import { applyVendorMemories, shouldAddNameVariation } from './rules/vendorRules';
 import { applyCorrectionMemories } from './rules/correctionRules';
+import { applyRulePlugins } from './rules/rulePlugins';
+import { reconcileTotals, findReconciliationMemory } from './rules/reconciliation';
+import { resolveVendor, VendorResolution } from './vendorResolution';
+import { ParsedRawText, parseRawText, crossCheckRawText } from './rawText';
+import {
+    ReferenceData,
+    createEmptyReferenceData,
+    performThreeWayMatch,
+    inferPurchaseOrder,
+    findPoInferenceMemory,
+} from './matching';
 
 /**
  * Pipeline configuration options
@@ -50,6 +62,15 @@ export interface PipelineOptions {
 
     /** Confidence threshold for escalating to human review */
     humanReviewThreshold?: number;
+
+    /** Purchase orders and delivery notes for three-way matching */
+    referenceData?: ReferenceData;
+
+    /** Days before the invoice date to search for open POs when the PO reference is missing */
+    poInferenceWindowDays?: number;
+
+    /** Apply the learn phase's memory updates to the store (the caller still saves) */
+    persistMemoryUpdates?: boolean;
 }
 
 /**
@@ -60,6 +81,9 @@ const DEFAULT_OPTIONS: Required<PipelineOptions> = {
     humanOverrides: {},
     autoApplyThreshold: 0.85,
     humanReviewThreshold: 0.6,
+    referenceData: createEmptyReferenceData(),
+    poInferenceWindowDays: MATCHING.PO_INFERENCE_WINDOW_DAYS,
+    persistMemoryUpdates: false,
 };
 
 /**
@@ -70,6 +94,9 @@ interface PipelineContext {
     options: Required<PipelineOptions>;
     auditTrail: AuditTrailEntry[];
     memoryStore: MemoryStore;
+
+    /** Parsed invoice rawText, shared by duplicate check and rules */
+    rawText: ParsedRawText;
 }
 
 /**
@@ -77,6 +104,7 @@ interface PipelineContext {
  */
 interface RecallResult {
     vendorMemory: VendorMemory | undefined;
+    vendorResolution: VendorResolution;
     correctionMemories: CorrectionMemory[];
     duplicateRecord: DuplicateRecord | undefined;
     duplicateHash: string;
@@ -157,6 +185,7 @@ export async function processInvoice(
         options: opts,
         auditTrail,
         memoryStore,
+        rawText: parseRawText(invoice.rawText),
     };
 
     // Phase 1: Recall
@@ -171,7 +200,7 @@ export async function processInvoice(
     );
 
     // Check for duplicate (after recall, before apply)
-    const duplicateCheck = checkForDuplicate(invoice, memoryStore);
+    const duplicateCheck = checkForDuplicate(invoice, memoryStore, context.rawText);
     if (duplicateCheck.isDuplicate) {
         skipLearning = duplicateCheck.skipLearning;
         addAudit(
@@ -225,8 +254,29 @@ export async function processInvoice(
         memoryUpdates = await learnFromOutcome(context, recallResult, applyResult, decideResult);
         addAudit(context, 'learn', `Generated ${memoryUpdates.length} memory update(s)`);
 
-        // Record invoice hash for future duplicate detection
-        recordInvoiceForDuplicateDetection(memoryStore, invoice, duplicateCheck.duplicateHash);
+        let duplicateRecorded = false;
+        if (opts.persistMemoryUpdates) {
+            const results = memoryStore.applyUpdates(memoryUpdates);
+            const failures = results.filter((r) => !r.success);
+            addAudit(
+                context,
+                'learn',
+                `Applied ${results.length - failures.length}/${results.length} memory update(s)`
+            );
+            for (const failure of failures) {
+                addAudit(
+                    context,
+                    'learn',
+                    `Memory update failed (${failure.update.operation} ${failure.update.memoryType}): ${failure.error}`
+                );
+            }
+            duplicateRecorded = results.some((r) => r.success && r.update.memoryType === 'duplicate');
+        }
+
+        // Record invoice hash for future duplicate detection, unless an applied update already did
+        if (!duplicateRecorded) {
+            recordInvoiceForDuplicateDetection(memoryStore, invoice, duplicateCheck.duplicateHash);
+        }
     }
 
     // Build final output
@@ -265,24 +315,43 @@ function addAudit(context: PipelineContext, step: AuditStep, details: string): v
 async function recallMemories(context: PipelineContext): Promise<RecallResult> {
     const { invoice, memoryStore } = context;
 
-    // Find vendor memory
-    const vendorMemory = memoryStore.findVendorByName(invoice.vendor.name);
+    // Find vendor memory, falling back to the closest known vendor
+    const vendorResolution = resolveVendor(memoryStore, invoice.vendor);
+    const vendorMemory = vendorResolution.vendor;
+    if (vendorResolution.matchType === 'fuzzy' && vendorMemory) {
+        addAudit(
+            context,
+            'recall',
+            `Vendor "${invoice.vendor.name}" resolved to "${vendorMemory.canonicalName}" ` +
+            `(match ${(vendorResolution.score * 100).toFixed(0)}%: ${vendorResolution.reasons.join(', ')})`
+        );
+    } else if (vendorResolution.matchType === 'none' && vendorResolution.candidates.length > 0) {
+        addAudit(
+            context,
+            'recall',
+            `No vendor matched "${invoice.vendor.name}"; closest: ` +
+            vendorResolution.candidates
+                .map((c) => `"${c.vendor.canonicalName}" (${(c.score * 100).toFixed(0)}%)`)
+                .join(', ')
+        );
+    }
 
     // Find applicable corrections
     const correctionMemories = vendorMemory
         ? memoryStore.findCorrections('fieldCorrection', vendorMemory.canonicalId)
         : [];
 
-    // Check for duplicates
+    // Check for duplicates (keyed like the records MemoryStore.recordDuplicate creates)
     const duplicateHash = generateHash({
-        vendorId: invoice.vendor.id || invoice.vendor.name,
+        vendorId: invoice.vendor.id || normalizeVendorName(invoice.vendor.name),
         invoiceNumber: invoice.invoiceNumber.toLowerCase().trim(),
-        dateKey: invoice.invoiceDate.substring(0, 7),
+        dateKey: dateMonthKey(invoice.invoiceDate, vendorMemory?.behaviors?.dateFormat),
     });
     const duplicateRecord = memoryStore.findDuplicate(duplicateHash);
 
     return {
         vendorMemory,
+        vendorResolution,
         correctionMemories,
         duplicateRecord,
         duplicateHash,
@@ -301,10 +370,12 @@ async function applyMemories(
     const allCorrections: ProposedCorrection[] = [];
 
     // Apply vendor memories
+    const { vendorResolution } = recallResult;
     const vendorResult = applyVendorMemories(
         invoice,
         recallResult.vendorMemory,
-        options.autoApplyThreshold
+        options.autoApplyThreshold,
+        vendorResolution.matchType === 'fuzzy' ? vendorResolution : undefined
     );
     allCorrections.push(...vendorResult.corrections);
 
@@ -313,11 +384,24 @@ async function applyMemories(
         addAudit(context, 'apply', note);
     }
 
+    // Cross-check extracted fields against what rawText says
+    for (const check of crossCheckRawText(invoice, context.rawText)) {
+        if (!check.consistent) {
+            addAudit(
+                context,
+                'apply',
+                `rawText ${check.label} "${check.rawTextValue}" differs from extracted ${check.field} "${check.extractedValue}"`
+            );
+        }
+    }
+
     // Apply correction memories
     const correctionResult = applyCorrectionMemories(
         invoice,
         recallResult.correctionMemories,
-        options.autoApplyThreshold
+        options.autoApplyThreshold,
+        recallResult.vendorMemory?.behaviors?.dateFormat,
+        vendorResult.corrections
     );
     allCorrections.push(...correctionResult.corrections);
 
@@ -326,6 +410,76 @@ async function applyMemories(
         addAudit(context, 'apply', note);
     }
 
+    // Check that line items, net, tax and gross totals add up
+    const reconciliationVendorId = recallResult.vendorMemory?.canonicalId;
+    const reconciliationResult = reconcileTotals(
+        invoice,
+        recallResult.vendorMemory,
+        reconciliationVendorId ? findReconciliationMemory(context.memoryStore, reconciliationVendorId) : undefined,
+        context.rawText,
+        {
+            autoApplyThreshold: options.autoApplyThreshold,
+            proposedCorrections: allCorrections,
+        }
+    );
+    allCorrections.push(...reconciliationResult.corrections);
+
+    for (const note of reconciliationResult.notes) {
+        addAudit(context, 'apply', note);
+    }
+
+    // Run registered rule plugins; a failing plugin is audited, not fatal
+    const pluginResult = await applyRulePlugins({
+        invoice,
+        vendorMemory: recallResult.vendorMemory,
+        correctionMemories: recallResult.correctionMemories,
+        corrections: allCorrections,
+        autoApplyThreshold: options.autoApplyThreshold,
+        rawText: context.rawText,
+    });
+    allCorrections.push(...pluginResult.corrections);
+
+    for (const note of pluginResult.notes) {
+        addAudit(context, 'apply', note);
+    }
+    for (const failure of pluginResult.failures) {
+        addAudit(context, 'apply', `Rule plugin "${failure.id}" failed and was skipped: ${failure.error}`);
+    }
+
+    // Infer a missing PO reference, then three-way match against POs and delivery notes
+    if (options.referenceData.purchaseOrders.length > 0) {
+        const vendorId = recallResult.vendorMemory?.canonicalId;
+        const inferenceResult = inferPurchaseOrder(
+            invoice,
+            options.referenceData,
+            recallResult.vendorMemory,
+            vendorId ? findPoInferenceMemory(context.memoryStore, vendorId) : undefined,
+            {
+                windowDays: options.poInferenceWindowDays,
+                autoApplyThreshold: options.autoApplyThreshold,
+            }
+        );
+        if (inferenceResult.correction) {
+            allCorrections.push(inferenceResult.correction);
+        }
+
+        for (const note of inferenceResult.notes) {
+            addAudit(context, 'apply', note);
+        }
+
+        const matchResult = performThreeWayMatch(
+            invoice,
+            options.referenceData,
+            recallResult.vendorMemory,
+            options.autoApplyThreshold
+        );
+        allCorrections.push(...matchResult.corrections);
+
+        for (const note of matchResult.notes) {
+            addAudit(context, 'apply', note);
+        }
+    }
+
     // Calculate overall confidence
     const vendorWeight = 0.6;
     const correctionWeight = 0.4;
@@ -426,8 +580,16 @@ async function learnFromOutcome(
     const { invoice } = context;
     const updates: MemoryUpdate[] = [];
 
+    // A fuzzy vendor match is only learned once its vendor.name correction is applied
+    const vendorConfirmed =
+        recallResult.vendorResolution.matchType !== 'fuzzy' ||
+        applyResult.corrections.some((c) => c.field === 'vendor.name' && c.autoApplied);
+
+    // An unambiguous invoice date shows how the vendor writes dates
+    const dateFormat = detectDateFormat(invoice.invoiceDate);
+
     // Update or create vendor memory
-    if (recallResult.vendorMemory) {
+    if (recallResult.vendorMemory && vendorConfirmed) {
         // Reinforce existing vendor memory
         updates.push({
             operation: 'reinforce',
@@ -449,7 +611,19 @@ async function learnFromOutcome(
                 reason: 'New name variation discovered',
             });
         }
-    } else {
+
+        if (dateFormat && dateFormat !== recallResult.vendorMemory.behaviors?.dateFormat) {
+            updates.push({
+                operation: 'update',
+                memoryType: 'vendor',
+                recordId: recallResult.vendorMemory.id,
+                data: {
+                    behaviors: { ...recallResult.vendorMemory.behaviors, dateFormat },
+                },
+                reason: `Learned date format ${dateFormat}`,
+            });
+        }
+    } else if (!recallResult.vendorMemory) {
         // Create new vendor memory
         updates.push({
             operation: 'create',
@@ -460,7 +634,9 @@ async function learnFromOutcome(
                 canonicalName: applyResult.normalizedInvoice.vendor.normalizedName,
                 nameVariations: [invoice.vendor.name],
                 fieldMappings: {},
-                behaviors: {},
+                behaviors: dateFormat ? { dateFormat } : {},
+                taxId: invoice.vendor.taxId,
+                address: invoice.vendor.address,
                 confidence: decideResult.requiresHumanReview ? 0.3 : 0.5,
             },
             reason: 'New vendor encountered',
@@ -488,13 +664,19 @@ async function learnFromOutcome(
     }
 
     // Record corrections that were auto-applied
+    // (sources can also be vendor memories or matching rules, which are not correction memories)
     const autoApplied = applyResult.corrections.filter((c) => c.autoApplied);
+    const reinforced = new Set<string>();
     for (const correction of autoApplied) {
-        if (correction.source) {
+        const source = correction.source
+            ? context.memoryStore.findMemoryById(correction.source)
+            : undefined;
+        if (source?.type === 'correction' && !reinforced.has(source.id)) {
+            reinforced.add(source.id);
             updates.push({
                 operation: 'reinforce',
                 memoryType: 'correction',
-                recordId: correction.source,
+                recordId: source.id,
                 data: {},
                 reason: `Correction auto-applied: ${correction.field}`,
             });
@@ -0,0 +1,380 @@
+/**
+ * Raw Text Parsing
+ *
+ * Shared parser for the OCR text of an invoice (InvoiceInput.rawText), so
+ * that rules, field mappings and the duplicate checker read one structured
+ * result instead of each scanning the text with its own expressions:
+ * - "Label: value" lines, with German and English labels recognized as
+ *   invoice fields ("Rechnungsnr" and "Invoice No" are both invoiceNumber)
+ * - Normalized values: ISO dates, amounts, identifiers ("PO-A050" and
+ *   "PO-A-050" compare equal)
+ * - Free-text facts: currency, VAT-inclusive prices, Skonto terms and
+ *   resubmission notes
+ */
+
+import { InvoiceInput } from '../types';
+import { parseDate, parseAmount, findAmounts, amountsMatch, toCurrencyCode } from '../utils';
+
+/**
+ * Invoice fields recognized from rawText labels
+ */
+export type RawTextField =
+    | 'invoiceNumber'
+    | 'poNumber'
+    | 'invoiceDate'
+    | 'serviceDate'
+    | 'dueDate'
+    | 'currency'
+    | 'totalAmount'
+    | 'netAmount'
+    | 'taxAmount'
+    | 'note'
+    | 'reference';
+
+/**
+ * A "Label: value" line
+ */
+export interface RawTextEntry {
+    /** Label as written (e.g., "Bestellnr") */
+    label: string;
+
+    /** Value as written */
+    value: string;
+
+    /** Field the label stands for, if it is a known label */
+    field?: RawTextField;
+
+    /** Normalized value: ISO date, amount, upper-case identifier or currency code */
+    normalized?: string | number;
+
+    /** Line index in rawText (0-based) */
+    line: number;
+}
+
+/**
+ * An amount written with its currency ("2380.00 EUR", "€ 99,90")
+ */
+export interface RawTextAmount {
+    amount: number;
+    currency: string;
+    line: number;
+}
+
+/**
+ * Parsed rawText of an invoice
+ */
+export interface ParsedRawText {
+    /** Non-empty lines, trimmed */
+    lines: string[];
+
+    /** All "Label: value" lines, in order */
+    entries: RawTextEntry[];
+
+    /** First entry per recognized field (placeholders like "(keine Angabe)" are left out) */
+    fields: Partial<Record<RawTextField, RawTextEntry>>;
+
+    /** Amounts written with a currency */
+    amounts: RawTextAmount[];
+
+    /** Currency from a currency label, else from amounts, else the only currency mentioned */
+    currency?: string;
+
+    /** Line stating that prices include VAT ("MwSt. inkl.", "Prices incl. VAT") */
+    vatIncludedLine?: string;
+
+    /** Skonto (early payment discount) terms */
+    skonto?: { discountPercent: number; discountDays: number; netDays?: number; line: string };
+
+    /** Note that the invoice was sent before ("Duplicate submission of PA-7810", "erneute Zusendung") */
+    resubmission?: { line: string; reference?: string };
+}
+
+/**
+ * A rawText value compared with the extracted invoice field
+ */
+export interface RawTextCheck {
+    field: RawTextField;
+
+    /** rawText label the value was read from */
+    label: string;
+
+    rawTextValue: string;
+    extractedValue: string;
+
+    /** Whether both agree after normalization */
+    consistent: boolean;
+}
+
+// =============================================================================
+// Dictionaries
+// =============================================================================
+
+/**
+ * Labels per field, lower case without dots and with single spaces
+ */
+const FIELD_LABELS: Record<RawTextField, string[]> = {
+    invoiceNumber: [
+        'rechnungsnr', 'rechnungsnummer', 'rechnung nr', 'rechnung',
+        'invoice no', 'invoice nr', 'invoice number', 'invoice #', 'invoice', 'inv no',
+    ],
+    poNumber: [
+        'bestellnr', 'bestellnummer', 'bestellung', 'bestell nr', 'auftragsnr', 'auftragsnummer',
+        'po', 'po no', 'po number', 'purchase order', 'order no', 'order number',
+    ],
+    invoiceDate: ['rechnungsdatum', 'datum', 'invoice date', 'date'],
+    serviceDate: ['leistungsdatum', 'lieferdatum', 'service date', 'delivery date'],
+    dueDate: ['fälligkeitsdatum', 'fällig am', 'zahlbar bis', 'due date', 'due'],
+    currency: ['währung', 'waehrung', 'currency'],
+    totalAmount: [
+        'gesamtbetrag', 'gesamtsumme', 'rechnungsbetrag', 'bruttobetrag', 'summe', 'gesamt',
+        'total', 'total amount', 'grand total', 'amount due',
+    ],
+    netAmount: ['nettobetrag', 'netto', 'zwischensumme', 'net', 'net amount', 'subtotal'],
+    taxAmount: ['mwst', 'ust', 'umsatzsteuer', 'mehrwertsteuer', 'vat', 'vat amount', 'tax'],
+    note: ['hinweis', 'bemerkung', 'anmerkung', 'note', 'remark', 'comment'],
+    reference: ['referenz', 'ihre referenz', 'reference', 'ref'],
+};
+
+const LABEL_TO_FIELD = new Map<string, RawTextField>(
+    (Object.entries(FIELD_LABELS) as Array<[RawTextField, string[]]>).flatMap(([field, labels]) =>
+        labels.map((label): [string, RawTextField] => [label, field])
+    )
+);
+
+/** Values that mean "no value" */
+const PLACEHOLDER_VALUES = new Set(['(keine angabe)', 'keine angabe', 'k.a.', 'n/a', 'none', '-', '--', '...']);
+
+const CURRENCY_CODE = '(EUR|USD|GBP|CHF)';
+const CURRENCY_TOKEN = `(${CURRENCY_CODE.slice(1, -1)}|€|\\$|£)`;
+const CURRENCY_MENTION = new RegExp(`\\b${CURRENCY_CODE}\\b|(€|£|\\$)`, 'gi');
+
+const VAT_INCLUDED_PATTERNS = [
+    /mwst\.?\s*inkl/i,
+    /inkl\.?\s*(?:der\s+)?(?:mwst|ust)/i,
+    /inklusive\s+(?:mehrwertsteuer|umsatzsteuer|mwst)/i,
+    /prices?\s+incl\.?\s*vat/i,
+    /incl(?:\.|uding)?\s+vat/i,
+    /brutto/i,
+];
+
+const SKONTO_PATTERNS = [
+    /(\d+(?:[.,]\d+)?)\s*%\s*(?:skonto|discount|rabatt)\b[^\n\d]{0,40}?(\d+)\s*(?:days?|tage?n?)/i,
+    /skonto\s*(\d+(?:[.,]\d+)?)\s*%[^\n\d]{0,40}?(\d+)\s*(?:days?|tage?n?)/i,
+];
+const NET_DAYS_PATTERN = /(?:net|netto)\s*(?:within|innerhalb)?\s*(\d+)\s*(?:days?|tage?n?)/i;
+
+const RESUBMISSION_PATTERN =
+    /\b(?:duplicate|resubmission|resubmitted|re-?sent|copy|duplikat|kopie|zweitschrift)\b|erneute\s+zusendung/i;
+const RESUBMISSION_REFERENCE = /\b(?:of|for|von|zu)\s+([A-Z0-9][A-Z0-9/-]*\d[A-Z0-9/-]*)/i;
+
+const LABEL_LINE_PATTERN = /^\s*([\p{L}#][\p{L}\p{N} .#/()-]{0,40}?)\s*:\s*(.*?)\s*$/u;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse an invoice's rawText
+ */
+export function parseRawText(rawText: string | undefined): ParsedRawText {
+    const lines = (rawText || '')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+
+    const entries = extractEntries(lines);
+    const fields: ParsedRawText['fields'] = {};
+    for (const entry of entries) {
+        if (entry.field && entry.normalized !== undefined && !fields[entry.field]) {
+            fields[entry.field] = entry;
+        }
+    }
+
+    const amounts = extractAmounts(lines);
+    const parsed: ParsedRawText = { lines, entries, fields, amounts };
+
+    const labeledCurrency = fields.currency?.normalized;
+    parsed.currency =
+        (typeof labeledCurrency === 'string' ? labeledCurrency : undefined) ??
+        amounts[0]?.currency ??
+        singleMentionedCurrency(lines);
+
+    parsed.vatIncludedLine = lines.find((line) => VAT_INCLUDED_PATTERNS.some((pattern) => pattern.test(line)));
+    parsed.skonto = findSkonto(lines);
+
+    const resubmissionLine = lines.find((line) => RESUBMISSION_PATTERN.test(line));
+    if (resubmissionLine) {
+        parsed.resubmission = {
+            line: resubmissionLine,
+            reference: resubmissionLine.match(RESUBMISSION_REFERENCE)?.[1],
+        };
+    }
+
+    return parsed;
+}
+
+/**
+ * Entry with the given label (labels compare case-insensitively, ignoring dots)
+ */
+export function findRawTextEntry(parsed: ParsedRawText, label: string): RawTextEntry | undefined {
+    const wanted = normalizeLabel(label);
+    return parsed.entries.find((entry) => normalizeLabel(entry.label) === wanted);
+}
+
+/**
+ * Collect "Label: value" lines
+ *
+ * A label with nothing after the colon takes its value from the next line,
+ * unless that line is a label itself ("Bestellung:\n(keine Angabe)").
+ */
+function extractEntries(lines: string[]): RawTextEntry[] {
+    const entries: RawTextEntry[] = [];
+
+    lines.forEach((line, i) => {
+        const match = line.match(LABEL_LINE_PATTERN);
+        if (!match) return;
+
+        let value = match[2];
+        if (value === '') {
+            const next = lines[i + 1];
+            if (!next || LABEL_LINE_PATTERN.test(next)) return;
+            value = next;
+        }
+
+        const label = match[1];
+        const field = LABEL_TO_FIELD.get(normalizeLabel(label));
+        entries.push({ label, value, field, normalized: normalizeValue(field, value), line: i });
+    });
+
+    return entries;
+}
+
+function normalizeLabel(label: string): string {
+    return label.toLowerCase().replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalize a value for its field (undefined for placeholders and unparseable values)
+ */
+function normalizeValue(field: RawTextField | undefined, value: string): string | number | undefined {
+    if (PLACEHOLDER_VALUES.has(value.toLowerCase())) return undefined;
+
+    switch (field) {
+        case 'invoiceNumber':
+        case 'poNumber':
+            return normalizeIdentifier(value) || undefined;
+        case 'invoiceDate':
+        case 'serviceDate':
+        case 'dueDate':
+            return parseDate(value) ?? undefined;
+        case 'currency':
+            return parseCurrency(value);
+        case 'totalAmount':
+        case 'netAmount':
+        case 'taxAmount':
+            return parseAmount(value)?.amount;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Upper-case identifier without separators ("PO-A050" and "po a-050" -> "POA050")
+ */
+export function normalizeIdentifier(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function parseCurrency(value: string): string | undefined {
+    const token = value.trim().match(new RegExp(`^${CURRENCY_TOKEN}`, 'i'))?.[1];
+    if (!token) return undefined;
+    return toCurrencyCode(token);
+}
+
+function extractAmounts(lines: string[]): RawTextAmount[] {
+    const amounts: RawTextAmount[] = [];
+
+    lines.forEach((line, i) => {
+        for (const { amount, currency } of findAmounts(line)) {
+            if (currency) amounts.push({ amount, currency, line: i });
+        }
+    });
+
+    return amounts;
+}
+
+function singleMentionedCurrency(lines: string[]): string | undefined {
+    const mentioned = new Set<string>();
+    for (const line of lines) {
+        for (const match of line.matchAll(CURRENCY_MENTION)) {
+            const currency = parseCurrency(match[0]);
+            if (currency) mentioned.add(currency);
+        }
+    }
+    return mentioned.size === 1 ? [...mentioned][0] : undefined;
+}
+
+function findSkonto(lines: string[]): ParsedRawText['skonto'] {
+    for (const line of lines) {
+        for (const pattern of SKONTO_PATTERNS) {
+            const match = line.match(pattern);
+            if (!match) continue;
+
+            const netMatch = lines.map((l) => l.match(NET_DAYS_PATTERN)).find((m) => m !== null);
+            return {
+                discountPercent: parseAmount(match[1])?.amount ?? 0,
+                discountDays: parseInt(match[2], 10),
+                netDays: netMatch ? parseInt(netMatch[1], 10) : undefined,
+                line,
+            };
+        }
+    }
+    return undefined;
+}
+
+// =============================================================================
+// Cross-Checks
+// =============================================================================
+
+/**
+ * Compare rawText values with the extracted invoice fields
+ *
+ * Only fields present on both sides are compared. PO numbers fall back to
+ * metadata.poNumber, where extraction often puts them.
+ */
+export function crossCheckRawText(invoice: InvoiceInput, parsed: ParsedRawText): RawTextCheck[] {
+    const metadataPo = invoice.metadata?.poNumber;
+    const extracted: Partial<Record<RawTextField, string | number | undefined>> = {
+        invoiceNumber: invoice.invoiceNumber,
+        poNumber: invoice.poNumber || (typeof metadataPo === 'string' ? metadataPo : undefined),
+        invoiceDate: invoice.invoiceDate,
+        serviceDate: invoice.serviceDate,
+        dueDate: invoice.dueDate,
+        currency: invoice.currency,
+        totalAmount: invoice.totalAmount,
+    };
+
+    const checks: RawTextCheck[] = [];
+    for (const [field, extractedValue] of Object.entries(extracted) as Array<[RawTextField, string | number | undefined]>) {
+        const entry = parsed.fields[field];
+        // Extracted JSON may carry null for missing fields
+        if (!entry || extractedValue === undefined || extractedValue === null || extractedValue === '') continue;
+
+        const extractedNormalized =
+            typeof extractedValue === 'number' ? extractedValue : normalizeValue(field, extractedValue);
+        const consistent =
+            typeof entry.normalized === 'number' && typeof extractedNormalized === 'number'
+                ? amountsMatch(entry.normalized, extractedNormalized)
+                : entry.normalized === extractedNormalized;
+
+        checks.push({
+            field,
+            label: entry.label,
+            rawTextValue: entry.value,
+            extractedValue: String(extractedValue),
+            consistent,
+        });
+    }
+
+    return checks;
+}
@@ -0,0 +1,178 @@
+/**
+ * Human Review Module
+ *
+ * Applies a reviewer's verdict on a processed invoice to memory:
+ * - Decisions on memory-based corrections reinforce or penalize that memory
+ * - Reviewer edits and approved rule proposals are learned as corrections
+ * - Approved heuristic fixes (ISO dates, currency defaults) are learned as vendor behaviors
+ * - The final decision on the invoice is recorded as in human_corrections.json
+ */
+
+import {
+    InvoiceInput,
+    InvoiceDecisionOutput,
+    ProposedCorrection,
+    HumanDecision,
+    HumanFieldCorrection,
+    VendorBehavior,
+} from '../types';
+import { MemoryStore } from '../memory';
+import { learnFromHumanCorrection, inferVendorBehavior, LearningResult } from './learning';
+import { recordHumanDecision, applyHumanOverrides } from './rules/correctionRules';
+import { isPoInferenceCorrection, recordPoInferenceOutcome } from './matching';
+
+/**
+ * A reviewer's decision on one proposed correction
+ */
+export interface CorrectionReview {
+    /** Field of the proposed correction */
+    field: string;
+
+    /** Position in proposedCorrections, to decide on one of several corrections of a field */
+    index?: number;
+
+    /** approved: keep the proposal, rejected: discard it, modified: use `value` instead */
+    action: 'approved' | 'rejected' | 'modified';
+
+    /** Value chosen by the reviewer (modified only) */
+    value?: unknown;
+
+    /** Reviewer's explanation */
+    reason?: string;
+}
+
+/**
+ * Everything a reviewer submits for one invoice
+ */
+export interface HumanReviewSubmission {
+    /** Final decision on the invoice */
+    finalDecision: 'approved' | 'rejected';
+
+    /** Decisions on the proposed corrections */
+    decisions?: CorrectionReview[];
+
+    /** Additional field corrections made by the reviewer */
+    corrections?: HumanFieldCorrection[];
+
+    /** Reviewer ID */
+    userId?: string;
+}
+
+/**
+ * What a review changed in memory
+ */
+export interface HumanReviewOutcome {
+    /** Decisions recorded on correction memories (revertible by decision ID) */
+    decisions: HumanDecision[];
+
+    /** Result of learning the reviewer's corrections */
+    learning: LearningResult;
+
+    /** Notes for reasoning */
+    notes: string[];
+}
+
+/**
+ * Apply a human review of a processed invoice to memory
+ *
+ * @param invoice The invoice as it was submitted for processing
+ * @param output The pipeline's decision for that invoice
+ */
+export async function applyHumanReview(
+    memoryStore: MemoryStore,
+    invoice: InvoiceInput,
+    output: InvoiceDecisionOutput,
+    review: HumanReviewSubmission
+): Promise<HumanReviewOutcome> {
+    const decisions: HumanDecision[] = [];
+    const notes: string[] = [];
+    const corrections: HumanFieldCorrection[] = [...(review.corrections || [])];
+    let behavior: Partial<VendorBehavior> = {};
+
+    for (const decision of review.decisions || []) {
+        const proposed = selectCorrections(output, decision);
+        if (proposed.length === 0) {
+            notes.push(`No proposed correction for ${decision.field}, decision ignored`);
+            continue;
+        }
+
+        const override = {
+            approved: decision.action !== 'rejected',
+            newValue: decision.action === 'modified' ? decision.value : undefined,
+        };
+
+        for (const correction of proposed) {
+            const memory = correction.source ? memoryStore.findMemoryById(correction.source) : undefined;
+            const inferredPo = isPoInferenceCorrection(correction, memory?.type === 'correction' ? memory : undefined);
+
+            if (memory?.type === 'correction') {
+                // Replacing an inferred PO rejects the inference, not just its value
+                const action = inferredPo && decision.action === 'modified' ? 'rejected' : decision.action;
+                decisions.push(
+                    await recordHumanDecision(memoryStore, memory.id, action, decision.reason, review.userId)
+                );
+                notes.push(`Recorded ${action} decision on correction memory ${memory.id}`);
+
+                // The memory itself is only reinforced or penalized; a new value is learned below
+                if (decision.action !== 'modified') continue;
+            } else if (inferredPo && decision.action !== 'approved') {
+                // The vendor's inference memory may have been learned since this invoice was processed
+                const vendor = memoryStore.findVendorByName(invoice.vendor.name);
+                const inferenceMemory = vendor
+                    ? recordPoInferenceOutcome(memoryStore, vendor.canonicalId, false)
+                    : undefined;
+                if (inferenceMemory) {
+                    notes.push(`Penalized PO inference memory ${inferenceMemory.id}`);
+                }
+            }
+
+            // Heuristic proposals and reviewer edits become memory once a human confirms them
+            const [reviewed] = applyHumanOverrides([correction], { [correction.field]: override });
+            if (!reviewed.autoApplied) {
+                notes.push(`Rejected heuristic correction for ${correction.field}`);
+                continue;
+            }
+            const fieldCorrection: HumanFieldCorrection = {
+                field: reviewed.field,
+                // A replaced inferred PO is not a filled-in PO, so learning does not reinforce the inference
+                from: inferredPo && decision.action === 'modified' ? correction.proposedValue : reviewed.originalValue,
+                to: reviewed.proposedValue,
+                reason: decision.reason || (decision.action === 'modified' ? 'Modified by reviewer' : correction.reasoning),
+            };
+
+            // Heuristics derive their value from this invoice and propose it again on the next one;
+            // approving one only confirms how the vendor writes invoices
+            if (correction.source === 'heuristic' && decision.action === 'approved') {
+                behavior = { ...behavior, ...inferVendorBehavior(invoice, fieldCorrection) };
+                notes.push(`Approved heuristic correction for ${reviewed.field}, not learned as a correction`);
+                continue;
+            }
+            corrections.push(fieldCorrection);
+        }
+    }
+
+    const learning = await learnFromHumanCorrection(
+        memoryStore,
+        invoice,
+        {
+            invoiceId: invoice.invoiceId,
+            vendor: invoice.vendor.name,
+            corrections,
+            finalDecision: review.finalDecision,
+        },
+        { userId: review.userId, behavior }
+    );
+
+    return { decisions, learning, notes: [...notes, ...learning.notes] };
+}
+
+/**
+ * Proposed corrections a decision refers to
+ */
+function selectCorrections(output: InvoiceDecisionOutput, decision: CorrectionReview): ProposedCorrection[] {
+    if (decision.index !== undefined) {
+        const correction = output.proposedCorrections[decision.index];
+        return correction?.field === decision.field ? [correction] : [];
+    }
+    return output.proposedCorrections.filter((c) => c.field === decision.field);
+}
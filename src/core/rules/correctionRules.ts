@@ -6,7 +6,7 @@
  * - VAT recomputation with clear reasoning
  * - Currency extraction heuristics
  * - Line item SKU suggestions
- * - Resolution memory integration
+ * - Resolution memory integration (recording and reverting human decisions)
  */
 
 import {
@@ -15,9 +15,28 @@ import {
     ProposedCorrection,
     CorrectionPattern,
     HumanDecision,
+    DecisionEffect,
+    MemoryStateSnapshot,
+    DateFormat,
 } from '../../types';
 import { MemoryStore } from '../../memory';
-import { getTimestamp } from '../../utils';
+import { CONFIDENCE_DELTAS } from '../../config';
+import { parseRawText } from '../rawText';
+import { getTimestamp, generateId, clamp, logger, parseDateWithFormat } from '../../utils';
+
+/**
+ * Fields whose values belong to a single invoice (identifiers, dates and amounts)
+ */
+const INVOICE_SPECIFIC_FIELDS = [
+    'invoiceId',
+    'invoiceNumber',
+    'poNumber',
+    'invoiceDate',
+    'serviceDate',
+    'dueDate',
+    'netAmount',
+    'lineItems[].unitPrice',
+];
 
 /**
  * Result from applying correction memories
@@ -59,12 +78,16 @@ export interface CorrectionContext {
  * @param invoice The raw invoice input
  * @param corrections Available correction memories
  * @param autoApplyThreshold Confidence threshold for auto-applying
+ * @param dateFormat The vendor's learned date format, for reading ambiguous dates
+ * @param otherCorrections Corrections already proposed (e.g. by vendor rules); heuristics skip their fields
  * @returns Result with proposed corrections and notes
  */
 export function applyCorrectionMemories(
     invoice: InvoiceInput,
     corrections: CorrectionMemory[],
-    autoApplyThreshold: number = 0.85
+    autoApplyThreshold: number = 0.85,
+    dateFormat?: DateFormat,
+    otherCorrections: ProposedCorrection[] = []
 ): CorrectionApplyResult {
     const proposedCorrections: ProposedCorrection[] = [];
     const notes: string[] = [];
@@ -84,16 +107,23 @@ export function applyCorrectionMemories(
         rawTextLength: invoice.rawText?.length || 0,
     };
 
-    // Filter corrections applicable to this invoice
-    const applicableCorrections = corrections.filter((c) =>
+    // Filter corrections applicable to this invoice, with the fields each one corrects
+    const applicableCorrections = corrections.flatMap((c) =>
         isPatternApplicable(c.pattern, context, invoice)
+            ? findCorrectionTargets(c, invoice).map((field) => ({ correction: c, field }))
+            : []
     );
 
     if (applicableCorrections.length === 0) {
         notes.push('No applicable correction patterns found from memory');
 
         // Apply heuristic corrections even without memory
-        const heuristicCorrections = applyHeuristicCorrections(invoice, autoApplyThreshold);
+        const heuristicCorrections = applyHeuristicCorrections(
+            invoice,
+            autoApplyThreshold,
+            dateFormat,
+            new Set(otherCorrections.map((c) => c.field))
+        );
         proposedCorrections.push(...heuristicCorrections.corrections);
         notes.push(...heuristicCorrections.notes);
 
@@ -108,8 +138,8 @@ export function applyCorrectionMemories(
 
     notes.push(`Found ${applicableCorrections.length} applicable correction pattern(s) from memory`);
 
-    for (const correction of applicableCorrections) {
-        const proposed = createProposedCorrection(correction, autoApplyThreshold);
+    for (const { correction, field } of applicableCorrections) {
+        const proposed = createProposedCorrection(correction, field, autoApplyThreshold);
         proposedCorrections.push(proposed);
         totalConfidence += correction.confidence;
 
@@ -158,7 +188,7 @@ function isPatternApplicable(
 
         case 'taxRecomputation':
             // Applicable if rawText suggests VAT issues
-            return context.hasRawText && detectVATIssue(invoice.rawText || '');
+            return context.hasRawText && parseRawText(invoice.rawText).vatIncludedLine !== undefined;
 
         case 'fieldCorrection':
             // Check if pattern signature matches vendor or field
@@ -178,18 +208,45 @@ function isPatternApplicable(
 }
 
 /**
- * Detect if raw text suggests VAT calculation issues
+ * Fields of an invoice a correction memory applies to
+ *
+ * Human-approved field corrections are keyed on the value they replaced and
+ * only apply where the invoice still carries that value; other patterns are
+ * labelled with their type.
  */
-function detectVATIssue(rawText: string): boolean {
-    const vatPatterns = [
-        /mwst\.?\s*inkl/i,
-        /inkl\.?\s*mwst/i,
-        /prices?\s+incl\.?\s*vat/i,
-        /brutto/i,
-        /inklusive\s+mehrwertsteuer/i,
-    ];
+function findCorrectionTargets(correction: CorrectionMemory, invoice: InvoiceInput): string[] {
+    if (correction.pattern.type !== 'fieldCorrection') return [correction.pattern.type];
+
+    const memoryField = getCorrectionMemoryField(correction);
+    if (!isReplayableCorrection(memoryField, correction.pattern.condition, correction.suggestedAction)) {
+        return [];
+    }
 
-    return vatPatterns.some((p) => p.test(rawText));
+    const condition = toCorrectionValue(correction.pattern.condition);
+    return readInvoiceField(invoice, memoryField)
+        .filter(({ value }) => toCorrectionValue(value) === condition)
+        .map(({ field }) => field);
+}
+
+/**
+ * Values of a field on an invoice ("lineItems[].productCode" yields one per line)
+ */
+function readInvoiceField(invoice: InvoiceInput, field: string): Array<{ field: string; value: unknown }> {
+    const lineField = field.match(/^lineItems\[\]\.(.+)$/);
+    if (lineField) {
+        return invoice.lineItems.map((item, i) => ({
+            field: `lineItems[${i}].${lineField[1]}`,
+            value: (item as unknown as Record<string, unknown>)[lineField[1]],
+        }));
+    }
+
+    const vendorField = field.match(/^vendor\.(.+)$/);
+    if (vendorField) {
+        return [{ field, value: (invoice.vendor as Record<string, unknown>)[vendorField[1]] }];
+    }
+
+    const value = (invoice as unknown as Record<string, unknown>)[field] ?? invoice.metadata?.[field];
+    return [{ field, value }];
 }
 
 /**
@@ -216,7 +273,9 @@ function isAmountSuspicious(amount: number): boolean {
  */
 function applyHeuristicCorrections(
     invoice: InvoiceInput,
-    autoApplyThreshold: number
+    autoApplyThreshold: number,
+    dateFormat: DateFormat | undefined,
+    proposedFields: ReadonlySet<string>
 ): {
     corrections: ProposedCorrection[];
     notes: string[];
@@ -230,8 +289,8 @@ function applyHeuristicCorrections(
     let autoApplied = 0;
     let pendingReview = 0;
 
-    // Heuristic 1: Missing currency extraction
-    if (!invoice.currency || invoice.currency === 'UNKNOWN') {
+    // Heuristic 1: Missing currency extraction (unless a vendor rule already extracted it)
+    if ((!invoice.currency || invoice.currency === 'UNKNOWN') && !proposedFields.has('currency')) {
         const extracted = extractCurrencyHeuristic(invoice);
         if (extracted) {
             const confidence = 0.6;
@@ -241,6 +300,7 @@ function applyHeuristicCorrections(
                 proposedValue: extracted.currency,
                 confidence,
                 reasoning: `Heuristic: Extracted currency "${extracted.currency}" from ${extracted.source}`,
+                source: 'heuristic',
                 autoApplied: confidence >= autoApplyThreshold,
             });
             totalConfidence += confidence;
@@ -263,6 +323,7 @@ function applyHeuristicCorrections(
                 proposedValue: suggestedSku.sku,
                 confidence,
                 reasoning: `Heuristic: "${item.description}" matches pattern for ${suggestedSku.sku}`,
+                source: 'heuristic',
                 autoApplied: confidence >= autoApplyThreshold,
             });
             totalConfidence += confidence;
@@ -271,17 +332,24 @@ function applyHeuristicCorrections(
         }
     }
 
-    // Heuristic 3: Date format normalization
+    // Heuristic 3: Date format normalization (day and month may be swappable)
     if (invoice.invoiceDate && !isISODate(invoice.invoiceDate)) {
-        const normalized = normalizeDateFormat(invoice.invoiceDate);
-        if (normalized) {
-            const confidence = 0.8;
+        const parsed = parseDateWithFormat(invoice.invoiceDate, dateFormat);
+        if (parsed) {
+            const confidence = parsed.ambiguous ? 0.4 : 0.8;
+            if (parsed.ambiguous) {
+                notes.push(`Invoice date "${invoice.invoiceDate}" is ambiguous: ${parsed.iso} or ${parsed.alternative}`);
+            }
             corrections.push({
                 field: 'invoiceDate',
                 originalValue: invoice.invoiceDate,
-                proposedValue: normalized,
+                proposedValue: parsed.iso,
                 confidence,
-                reasoning: 'Heuristic: Normalized date to ISO 8601 format',
+                reasoning: parsed.ambiguous
+                    ? `Heuristic: Normalized date to ISO 8601 format reading it as ${parsed.format}; could also be ${parsed.alternative}`
+                    : `Heuristic: Normalized date to ISO 8601 format (${parsed.format}` +
+                    `${parsed.format === dateFormat ? ', learned for vendor' : ''})`,
+                source: 'heuristic',
                 autoApplied: confidence >= autoApplyThreshold,
             });
             totalConfidence += confidence;
@@ -303,19 +371,9 @@ function extractCurrencyHeuristic(invoice: InvoiceInput): {
     source: string;
 } | null {
     // Check rawText
-    if (invoice.rawText) {
-        const patterns = [
-            { regex: /EUR|€/i, currency: 'EUR' },
-            { regex: /USD|\$/i, currency: 'USD' },
-            { regex: /GBP|£/i, currency: 'GBP' },
-            { regex: /CHF/i, currency: 'CHF' },
-        ];
-
-        for (const { regex, currency } of patterns) {
-            if (regex.test(invoice.rawText)) {
-                return { currency, source: 'rawText' };
-            }
-        }
+    const rawTextCurrency = parseRawText(invoice.rawText).currency;
+    if (rawTextCurrency) {
+        return { currency: rawTextCurrency, source: 'rawText' };
     }
 
     // Check metadata
@@ -368,39 +426,6 @@ function isISODate(dateStr: string): boolean {
     return /^\d{4}-\d{2}-\d{2}/.test(dateStr);
 }
 
-/**
- * Normalize date to ISO format
- */
-function normalizeDateFormat(dateStr: string): string | null {
-    // Try common formats
-    const patterns: Array<{ regex: RegExp; format: (m: RegExpMatchArray) => string }> = [
-        // DD.MM.YYYY
-        {
-            regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/,
-            format: (m) => `${m[3]}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`,
-        },
-        // DD/MM/YYYY
-        {
-            regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
-            format: (m) => `${m[3]}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`,
-        },
-        // MM/DD/YYYY (US format)
-        {
-            regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
-            format: (m) => `${m[3]}-${m[1].padStart(2, '0')}-${m[2].padStart(2, '0')}`,
-        },
-    ];
-
-    for (const { regex, format } of patterns) {
-        const match = dateStr.match(regex);
-        if (match) {
-            return format(match);
-        }
-    }
-
-    return null;
-}
-
 // =============================================================================
 // Correction Memory Helpers
 // =============================================================================
@@ -410,10 +435,11 @@ function normalizeDateFormat(dateStr: string): string | null {
  */
 function createProposedCorrection(
     correction: CorrectionMemory,
+    field: string,
     autoApplyThreshold: number
 ): ProposedCorrection {
     return {
-        field: correction.pattern.type,
+        field,
         originalValue: correction.pattern.condition,
         proposedValue: correction.suggestedAction,
         confidence: correction.confidence,
@@ -454,6 +480,8 @@ export function generatePatternSignature(
 
 /**
  * Record a human decision on a correction
+ *
+ * @returns The recorded decision, including the memory changes it caused
  */
 export async function recordHumanDecision(
     memoryStore: MemoryStore,
@@ -461,8 +489,11 @@ export async function recordHumanDecision(
     decision: 'approved' | 'rejected' | 'modified',
     reason?: string,
     userId?: string
-): Promise<void> {
+): Promise<HumanDecision> {
+    const decisionId = generateId('dec');
+    const before = snapshotMemoryState(memoryStore, correctionId);
     const humanDecision: HumanDecision = {
+        decisionId,
         decisionType: decision === 'approved' ? 'approveCorrection' : 'rejectCorrection',
         action: decision,
         timestamp: getTimestamp(),
@@ -483,8 +514,125 @@ export async function recordHumanDecision(
         memoryStore.penalizeMemory(correctionId);
     }
 
+    // Keep what the decision changed so it can be reverted later
+    const after = snapshotMemoryState(memoryStore, correctionId);
+    if (before && after) {
+        memoryStore.updateDecision(decisionId, {
+            effects: [{ memoryId: correctionId, before, after }],
+        });
+    }
+
     // Save changes
     await memoryStore.saveIfDirty();
+    return humanDecision;
+}
+
+/**
+ * Revert a human decision and the memory changes it made
+ *
+ * Confidence, counters and activation are rolled back by the amount the
+ * decision changed them, so anything that happened to the memory since is
+ * kept. The revert is recorded as a decision on the same resolution memory.
+ *
+ * @param decisionOrId The decision (as stored in a ResolutionMemory) or its ID
+ * @returns The revert decision
+ */
+export async function revertHumanDecision(
+    memoryStore: MemoryStore,
+    decisionOrId: HumanDecision | string,
+    reason?: string,
+    userId?: string
+): Promise<HumanDecision> {
+    const decisionId = typeof decisionOrId === 'string' ? decisionOrId : decisionOrId.decisionId;
+    if (!decisionId) {
+        throw new Error('Decision has no ID and cannot be reverted');
+    }
+
+    const found = memoryStore.findDecision(decisionId);
+    if (!found) {
+        throw new Error(`No decision with ID "${decisionId}"`);
+    }
+
+    const { resolution, decision } = found;
+    if (decision.decisionType === 'revertDecision') {
+        throw new Error(`Decision ${decisionId} is a revert and cannot be reverted`);
+    }
+    if (decision.revertedByDecisionId) {
+        throw new Error(`Decision ${decisionId} was already reverted by ${decision.revertedByDecisionId}`);
+    }
+    if (!decision.effects) {
+        throw new Error(`Decision ${decisionId} has no recorded memory effects to revert`);
+    }
+
+    const effects: DecisionEffect[] = [];
+    for (const effect of decision.effects) {
+        const current = snapshotMemoryState(memoryStore, effect.memoryId);
+        if (!current) {
+            logger.warn(`Memory ${effect.memoryId} no longer exists, skipping its rollback`);
+            continue;
+        }
+
+        const restored = rollBackEffect(current, effect);
+        memoryStore.setMemoryState(effect.memoryId, restored);
+        effects.push({ memoryId: effect.memoryId, before: current, after: restored });
+    }
+
+    const revert: HumanDecision = {
+        decisionId: generateId('dec'),
+        decisionType: 'revertDecision',
+        action: 'reverted',
+        timestamp: getTimestamp(),
+        reason,
+        userId,
+        effects,
+        revertsDecisionId: decisionId,
+    };
+
+    memoryStore.appendDecision(resolution.id, revert);
+    memoryStore.updateDecision(decisionId, { revertedByDecisionId: revert.decisionId });
+
+    await memoryStore.saveIfDirty();
+    return revert;
+}
+
+/**
+ * Capture the confidence, counters and activation of a memory
+ */
+function snapshotMemoryState(memoryStore: MemoryStore, memoryId: string): MemoryStateSnapshot | null {
+    const memory = memoryStore.findMemoryById(memoryId);
+    if (!memory) return null;
+
+    return {
+        confidence: memory.confidence,
+        reinforcementCount: memory.reinforcementCount,
+        contradictionCount: memory.contradictionCount,
+        isActive: memory.isActive,
+    };
+}
+
+/**
+ * Undo one decision effect on top of the memory's current state
+ */
+function rollBackEffect(current: MemoryStateSnapshot, effect: DecisionEffect): MemoryStateSnapshot {
+    const { before, after } = effect;
+
+    return {
+        confidence: clamp(
+            current.confidence - (after.confidence - before.confidence),
+            CONFIDENCE_DELTAS.MIN_CONFIDENCE,
+            CONFIDENCE_DELTAS.MAX_CONFIDENCE
+        ),
+        reinforcementCount: Math.max(
+            0,
+            current.reinforcementCount - (after.reinforcementCount - before.reinforcementCount)
+        ),
+        contradictionCount: Math.max(
+            0,
+            current.contradictionCount - (after.contradictionCount - before.contradictionCount)
+        ),
+        // Only touch activation if the decision changed it
+        isActive: before.isActive !== after.isActive ? before.isActive : current.isActive,
+    };
 }
 
 /**
@@ -492,7 +640,7 @@ export async function recordHumanDecision(
  */
 export function applyHumanOverrides(
     corrections: ProposedCorrection[],
-    overrides: { [field: string]: { approved: boolean; newValue?: string } }
+    overrides: { [field: string]: { approved: boolean; newValue?: unknown } }
 ): ProposedCorrection[] {
     return corrections.map((correction) => {
         const override = overrides[correction.field];
@@ -500,7 +648,7 @@ export function applyHumanOverrides(
             return {
                 ...correction,
                 autoApplied: override.approved,
-                proposedValue: override.newValue || correction.proposedValue,
+                proposedValue: override.newValue !== undefined ? override.newValue : correction.proposedValue,
                 reasoning: correction.reasoning + ' [Human override applied]',
             };
         }
@@ -508,20 +656,51 @@ export function applyHumanOverrides(
     });
 }
 
+/**
+ * Whether a human correction can be replayed on the vendor's later invoices
+ *
+ * Only a value replaced by another one qualifies: fill-ins of a missing value,
+ * format fixes ("12.01.2024" -> "2024-01-12"), identifiers, dates and amounts
+ * hold for one invoice only. What they teach is learned as field mappings and
+ * vendor behaviors instead.
+ */
+export function isReplayableCorrection(field: string, from: unknown, to: unknown): boolean {
+    const memoryField = toMemoryField(field);
+    if (determinePatterType(memoryField) !== 'fieldCorrection' || INVOICE_SPECIFIC_FIELDS.includes(memoryField)) {
+        return false;
+    }
+
+    const source = toCorrectionValue(from);
+    const target = toCorrectionValue(to);
+    return source !== undefined && target !== undefined && source.toLowerCase() !== target.toLowerCase();
+}
+
+/**
+ * Field a human-approved correction memory corrects (line items as "lineItems[].<field>")
+ */
+export function getCorrectionMemoryField(correction: CorrectionMemory): string {
+    return correction.pattern.signature.split(':')[0];
+}
+
 /**
  * Create a new correction memory from a human-approved correction
+ *
+ * The memory is keyed on the replaced value ("<field>:<value>:<vendorId>"), so
+ * each value the vendor gets wrong has its own memory.
  */
 export function createCorrectionFromApproval(
     correction: ProposedCorrection,
     vendorId?: string
 ): Omit<CorrectionMemory, 'id' | 'createdAt' | 'updatedAt' | 'reinforcementCount' | 'contradictionCount' | 'isActive'> {
+    const field = toMemoryField(correction.field);
+    const condition = toCorrectionValue(correction.originalValue) ?? String(correction.originalValue);
     return {
         type: 'correction',
         confidence: 0.7, // Human-approved starts higher
         pattern: {
-            type: determinePatterType(correction.field),
-            signature: `${correction.field}:${vendorId || 'global'}`,
-            condition: String(correction.originalValue),
+            type: determinePatterType(field),
+            signature: `${field}:${condition}:${vendorId || 'global'}`,
+            condition,
         },
         suggestedAction: String(correction.proposedValue),
         vendorId,
@@ -529,6 +708,22 @@ export function createCorrectionFromApproval(
     };
 }
 
+/**
+ * Field as a correction memory stores it: line item corrections apply to any line
+ */
+function toMemoryField(field: string): string {
+    return field.replace(/^lineItems\[\d+\]/, 'lineItems[]');
+}
+
+/**
+ * A correction value as text, if it is a non-empty string, number or boolean
+ */
+function toCorrectionValue(value: unknown): string | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return undefined;
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+}
+
 /**
  * Determine pattern type from field name
  */
@@ -2,4 +2,8 @@
  * Rules module exports
  */
 export * from './vendorRules';
+export * from './vendorRuleSet';
+export * from './rulePlugins';
+export * from './taxRules';
 export * from './correctionRules';
+export * from './reconciliation';
@@ -0,0 +1,457 @@
+/**
+ * Totals Reconciliation
+ *
+ * Checks that an invoice's totals add up: line items against the net total,
+ * net + tax against gross, the invoice total against gross, the tax against
+ * the VAT rates, and the totals against what rawText states. When checks fail,
+ * the smallest set of fields whose correction makes every check pass is taken
+ * as the most likely wrong fields and proposed as amount adjustments.
+ * Confirmed adjustments are learned in a per-vendor reconciliation memory.
+ */
+
+import { InvoiceInput, VendorMemory, CorrectionMemory, ProposedCorrection } from '../../types';
+import { MemoryStore } from '../../memory';
+import { RECONCILIATION } from '../../config';
+import { amountsMatch } from '../../utils';
+import { ParsedRawText, RawTextField } from '../rawText';
+import {
+    resolveInvoiceTaxRate,
+    resolveLineTaxRates,
+    summarizeLineTaxes,
+    sumTaxSummary,
+    describeTaxSummary,
+} from './taxRules';
+
+/**
+ * Invoice totals that take part in reconciliation
+ */
+export type TotalsField = 'netTotal' | 'taxTotal' | 'grossTotal' | 'totalAmount';
+
+/**
+ * Values of the totals present on an invoice
+ */
+export type InvoiceTotals = Partial<Record<TotalsField, number>>;
+
+/**
+ * A linear check over the totals: sum(coefficient * total) = constant
+ */
+export interface TotalsCheck {
+    /** Readable form (e.g., "net + tax = gross") */
+    label: string;
+
+    /** Coefficient of each total in the check */
+    terms: InvoiceTotals;
+
+    constant: number;
+
+    /** Difference tolerated as rounding */
+    tolerance: number;
+}
+
+/**
+ * A failed check and by how much it is off
+ */
+export interface TotalsDiscrepancy {
+    check: string;
+    difference: number;
+}
+
+/**
+ * Options for totals reconciliation
+ */
+export interface ReconciliationOptions {
+    /** Confidence threshold for auto-applying adjustments */
+    autoApplyThreshold?: number;
+
+    /** Corrections proposed earlier in the apply phase; their fields are not adjusted again */
+    proposedCorrections?: ProposedCorrection[];
+}
+
+/**
+ * Result of reconciling an invoice's totals
+ */
+export interface ReconciliationResult {
+    totals: InvoiceTotals;
+    discrepancies: TotalsDiscrepancy[];
+
+    /** Corrected values of the most likely wrong fields, if the discrepancies could be explained */
+    adjustments?: InvoiceTotals;
+
+    corrections: ProposedCorrection[];
+    notes: string[];
+}
+
+/**
+ * Fields in the order they are suspected (extractors most often misread tax and gross)
+ */
+const TOTALS_FIELDS: TotalsField[] = ['taxTotal', 'grossTotal', 'totalAmount', 'netTotal'];
+
+/**
+ * Pipeline correction field of each total
+ */
+const CORRECTION_FIELDS: Record<TotalsField, string> = {
+    netTotal: 'netAmount',
+    taxTotal: 'taxAmount',
+    grossTotal: 'grossTotal',
+    totalAmount: 'totalAmount',
+};
+
+/**
+ * rawText fields that state a total
+ */
+const RAW_TEXT_TOTALS: Array<[RawTextField, TotalsField]> = [
+    ['netAmount', 'netTotal'],
+    ['taxAmount', 'taxTotal'],
+    ['totalAmount', 'totalAmount'],
+];
+
+// =============================================================================
+// Reconciliation
+// =============================================================================
+
+/**
+ * Reconcile an invoice's totals and propose adjustments for the fields that are most likely wrong
+ */
+export function reconcileTotals(
+    invoice: InvoiceInput,
+    vendorMemory: VendorMemory | undefined,
+    reconciliationMemory: CorrectionMemory | undefined,
+    rawText: ParsedRawText,
+    options: ReconciliationOptions = {}
+): ReconciliationResult {
+    const autoApplyThreshold = options.autoApplyThreshold ?? 0.85;
+    const notes: string[] = [];
+    const corrections: ProposedCorrection[] = [];
+
+    const totals = readInvoiceTotals(invoice);
+    const checks = buildTotalsChecks(invoice, totals, vendorMemory, rawText);
+    const discrepancies = checks
+        .filter((check) => Math.abs(checkResidual(check, totals)) > check.tolerance)
+        .map((check) => ({ check: check.label, difference: roundCents(checkResidual(check, totals)) }));
+
+    if (discrepancies.length === 0) {
+        return { totals, discrepancies, corrections, notes };
+    }
+
+    const failed = discrepancies.map((d) => `"${d.check}" off by ${Math.abs(d.difference).toFixed(2)}`).join(', ');
+    notes.push(`Totals do not reconcile: ${failed}`);
+
+    const explanations = findExplanations(totals, checks);
+    if (explanations.length === 0) {
+        notes.push(
+            `Totals reconciliation: no adjustment of up to ${RECONCILIATION.MAX_ADJUSTED_FIELDS} fields ` +
+            'reconciles all totals'
+        );
+        return { totals, discrepancies, corrections, notes };
+    }
+
+    // Several equally small explanations leave the wrong field open
+    const [adjustments, ...alternatives] = explanations;
+    if (alternatives.length > 0) {
+        notes.push(
+            `Totals reconciliation is ambiguous; also consistent: ` +
+            alternatives.map((a) => describeAdjustments(totals, a)).join(' or ')
+        );
+    }
+
+    const pinpointConfidence =
+        alternatives.length > 0 ? RECONCILIATION.AMBIGUOUS_CONFIDENCE : RECONCILIATION.PINPOINTED_CONFIDENCE;
+    const confidence = reconciliationMemory
+        ? Math.min(pinpointConfidence, reconciliationMemory.confidence)
+        : pinpointConfidence * RECONCILIATION.UNLEARNED_FACTOR;
+    const autoApplied = !!reconciliationMemory?.humanApproved && confidence >= autoApplyThreshold;
+
+    const reasoning =
+        `Totals do not reconcile (${discrepancies.map((d) => d.check).join(', ')}); ` +
+        `adjusting ${describeAdjustments(totals, adjustments)} reconciles them` +
+        (reconciliationMemory ? ` (${reconciliationMemory.reinforcementCount} confirmed adjustments)` : '');
+
+    const proposedFields = new Set((options.proposedCorrections || []).map((c) => c.field));
+    for (const field of TOTALS_FIELDS) {
+        const value = adjustments[field];
+        if (value === undefined) continue;
+
+        // The metadata gross total and the invoice total are one correction when both move together
+        if (field === 'grossTotal' && adjustments.totalAmount === value) continue;
+
+        const correctionField = CORRECTION_FIELDS[field];
+        if (proposedFields.has(correctionField)) {
+            notes.push(`Totals reconciliation: ${correctionField} already has a proposed correction, adjustment skipped`);
+            continue;
+        }
+
+        corrections.push({
+            field: correctionField,
+            originalValue: totals[field],
+            proposedValue: value,
+            confidence,
+            reasoning,
+            source: reconciliationMemory?.id || 'totalsReconciliation',
+            autoApplied,
+        });
+    }
+
+    if (corrections.length > 0) {
+        notes.push(
+            autoApplied
+                ? `Auto-applied totals adjustment: ${describeAdjustments(totals, adjustments)}`
+                : `Suggested totals adjustment: ${describeAdjustments(totals, adjustments)} ` +
+                `(confidence: ${(confidence * 100).toFixed(0)}%)`
+        );
+    }
+
+    return { totals, discrepancies, adjustments, corrections, notes };
+}
+
+/**
+ * Totals of an invoice: metadata net, tax and gross totals and the invoice total
+ */
+export function readInvoiceTotals(invoice: InvoiceInput): InvoiceTotals {
+    const totals: InvoiceTotals = {};
+    const values: Record<TotalsField, unknown> = {
+        netTotal: invoice.metadata?.netTotal,
+        taxTotal: invoice.metadata?.taxTotal,
+        grossTotal: invoice.metadata?.grossTotal,
+        totalAmount: invoice.totalAmount,
+    };
+
+    for (const field of TOTALS_FIELDS) {
+        const value = values[field];
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            totals[field] = value;
+        }
+    }
+    return totals;
+}
+
+/**
+ * Checks that apply to the totals present on an invoice
+ *
+ * Line item amounts are net amounts, as in the extracted line items.
+ */
+export function buildTotalsChecks(
+    invoice: InvoiceInput,
+    totals: InvoiceTotals,
+    vendorMemory: VendorMemory | undefined,
+    rawText: ParsedRawText
+): TotalsCheck[] {
+    const checks: TotalsCheck[] = [];
+    const tolerance = RECONCILIATION.ROUNDING_TOLERANCE;
+    const lineTolerance = tolerance + RECONCILIATION.LINE_ROUNDING_TOLERANCE * invoice.lineItems.length;
+    const has = (field: TotalsField): boolean => totals[field] !== undefined;
+
+    if (invoice.lineItems.length > 0 && has('netTotal')) {
+        const lineSum = invoice.lineItems.reduce((sum, item) => sum + item.amount, 0);
+        checks.push({
+            label: 'line items = net',
+            terms: { netTotal: 1 },
+            constant: roundCents(lineSum),
+            tolerance: lineTolerance,
+        });
+    }
+
+    if (has('netTotal') && has('taxTotal') && has('grossTotal')) {
+        checks.push({
+            label: 'net + tax = gross',
+            terms: { netTotal: 1, taxTotal: 1, grossTotal: -1 },
+            constant: 0,
+            tolerance,
+        });
+    }
+
+    if (has('totalAmount') && has('grossTotal')) {
+        checks.push({ label: 'total = gross', terms: { totalAmount: 1, grossTotal: -1 }, constant: 0, tolerance });
+    }
+
+    // Mixed line rates fix the tax outright; a single rate ties it to the net total
+    if (has('taxTotal')) {
+        const invoiceRate = resolveInvoiceTaxRate(invoice, vendorMemory);
+        const summary = summarizeLineTaxes(invoice, resolveLineTaxRates(invoice, invoiceRate), false);
+        const rate = summary?.length === 1 ? summary[0].rate : invoiceRate?.rate;
+
+        if (summary && summary.length > 1) {
+            checks.push({
+                label: `tax = line VAT (${describeTaxSummary(summary)})`,
+                terms: { taxTotal: 1 },
+                constant: sumTaxSummary(summary).taxAmount,
+                tolerance: lineTolerance,
+            });
+        } else if (rate !== undefined && has('netTotal')) {
+            checks.push({
+                label: `tax = net × ${rate}%`,
+                terms: rate > 0 ? { taxTotal: 1, netTotal: -rate / 100 } : { taxTotal: 1 },
+                constant: 0,
+                tolerance: lineTolerance,
+            });
+        }
+    }
+
+    for (const [rawTextField, field] of RAW_TEXT_TOTALS) {
+        const entry = rawText.fields[rawTextField];
+        if (typeof entry?.normalized === 'number' && has(field)) {
+            checks.push({
+                label: `${field} = rawText ${entry.label}`,
+                terms: { [field]: 1 },
+                constant: entry.normalized,
+                tolerance,
+            });
+        }
+    }
+
+    return checks;
+}
+
+// =============================================================================
+// Pinpointing
+// =============================================================================
+
+/**
+ * Smallest sets of adjusted fields that make every check pass
+ *
+ * Sets of one field are tried first, then two, and so on; the suspected
+ * fields are solved from the checks and the remaining (trusted) totals.
+ * All explanations of the smallest size are returned, most suspected first.
+ */
+function findExplanations(totals: InvoiceTotals, checks: TotalsCheck[]): InvoiceTotals[] {
+    const fields = TOTALS_FIELDS.filter((field) => totals[field] !== undefined);
+    const maxSize = Math.min(RECONCILIATION.MAX_ADJUSTED_FIELDS, fields.length - 1);
+
+    for (let size = 1; size <= maxSize; size++) {
+        const explanations: InvoiceTotals[] = [];
+        for (const suspects of combinations(fields, size)) {
+            const adjustments = solveForFields(totals, checks, suspects);
+            if (adjustments) explanations.push(adjustments);
+        }
+        if (explanations.length > 0) return explanations;
+    }
+    return [];
+}
+
+/**
+ * Solve the suspected fields from the checks, if that reconciles all totals
+ *
+ * @returns The suspects' corrected values, or undefined if they cannot be solved,
+ *          leave a check failing, or a suspect keeps its value
+ */
+function solveForFields(totals: InvoiceTotals, checks: TotalsCheck[], suspects: TotalsField[]): InvoiceTotals | undefined {
+    const values: InvoiceTotals = { ...totals };
+    for (const suspect of suspects) delete values[suspect];
+
+    // Propagate: a check with one unknown field determines it
+    let progress = true;
+    while (progress) {
+        progress = false;
+        for (const check of checks) {
+            const unknown = termFields(check).filter((field) => values[field] === undefined);
+            if (unknown.length !== 1) continue;
+
+            const [field] = unknown;
+            const known = termFields(check)
+                .filter((f) => f !== field)
+                .reduce((sum, f) => sum + (check.terms[f] ?? 0) * (values[f] ?? 0), 0);
+            values[field] = roundCents((check.constant - known) / (check.terms[field] ?? 1));
+            progress = true;
+        }
+    }
+
+    const adjustments: InvoiceTotals = {};
+    for (const suspect of suspects) {
+        const value = values[suspect];
+        const original = totals[suspect];
+        if (value === undefined || original === undefined) return undefined;
+        if (amountsMatch(value, original, RECONCILIATION.ROUNDING_TOLERANCE)) return undefined;
+        adjustments[suspect] = value;
+    }
+
+    const reconciled = checks.every((check) => Math.abs(checkResidual(check, values)) <= check.tolerance);
+    return reconciled ? adjustments : undefined;
+}
+
+function termFields(check: TotalsCheck): TotalsField[] {
+    return TOTALS_FIELDS.filter((field) => (check.terms[field] ?? 0) !== 0);
+}
+
+function checkResidual(check: TotalsCheck, values: InvoiceTotals): number {
+    return termFields(check).reduce((sum, field) => sum + (check.terms[field] ?? 0) * (values[field] ?? 0), 0) -
+        check.constant;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+    if (size === 0) return [[]];
+    return items.flatMap((item, i) =>
+        combinations(items.slice(i + 1), size - 1).map((rest) => [item, ...rest])
+    );
+}
+
+/**
+ * "taxTotal 400.00 -> 380.00, totalAmount 2400.00 -> 2380.00"
+ */
+function describeAdjustments(totals: InvoiceTotals, adjustments: InvoiceTotals): string {
+    return TOTALS_FIELDS.filter((field) => adjustments[field] !== undefined)
+        .map((field) => `${field} ${(totals[field] ?? 0).toFixed(2)} -> ${(adjustments[field] ?? 0).toFixed(2)}`)
+        .join(', ');
+}
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// =============================================================================
+// Reconciliation Memory
+// =============================================================================
+
+/**
+ * Signature of the per-vendor totals reconciliation memory
+ */
+function reconciliationSignature(vendorId: string): string {
+    return `totals_reconciliation:${vendorId}`;
+}
+
+/**
+ * Whether a (pipeline) correction field is one of the reconciled totals
+ */
+export function isTotalsCorrectionField(field: string): boolean {
+    return Object.values(CORRECTION_FIELDS).includes(field);
+}
+
+/**
+ * Find the learned totals reconciliation memory for a vendor
+ */
+export function findReconciliationMemory(
+    memoryStore: MemoryStore,
+    vendorId: string
+): CorrectionMemory | undefined {
+    const signature = reconciliationSignature(vendorId);
+    return memoryStore
+        .findCorrections('amountAdjustment', vendorId)
+        .find((c) => c.pattern.signature === signature);
+}
+
+/**
+ * Record the outcome of a totals adjustment (confirmed or rejected by a human)
+ */
+export function recordReconciliationOutcome(
+    memoryStore: MemoryStore,
+    vendorId: string,
+    confirmed: boolean
+): CorrectionMemory | undefined {
+    if (!confirmed) {
+        const existing = findReconciliationMemory(memoryStore, vendorId);
+        if (existing) {
+            memoryStore.penalizeMemory(existing.id);
+        }
+        return existing;
+    }
+
+    return memoryStore.recordCorrection({
+        pattern: {
+            type: 'amountAdjustment',
+            signature: reconciliationSignature(vendorId),
+            condition: 'Invoice totals do not reconcile',
+            context: { rule: 'totalsReconciliation' },
+        },
+        suggestedAction: 'Adjust the totals that break reconciliation',
+        vendorId,
+        humanApproved: true,
+    });
+}
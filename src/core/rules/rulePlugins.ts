@@ -0,0 +1,156 @@
+/**
+ * Rule Plugins
+ *
+ * Registry for code-based rules, for vendors whose quirks the declarative
+ * rule files cannot express (odd tax logic, multi-page totals, ...). The
+ * apply phase runs every registered plugin whose appliesTo() accepts the
+ * invoice, after vendor and correction memories, highest priority first.
+ * A plugin that throws is reported in the audit trail and skipped; the
+ * invoice is still processed.
+ */
+
+import { InvoiceInput, VendorMemory, CorrectionMemory, ProposedCorrection } from '../../types';
+import { logger } from '../../utils';
+import { ParsedRawText, parseRawText } from '../rawText';
+
+/**
+ * What a plugin gets to see
+ */
+export interface RulePluginContext {
+    invoice: InvoiceInput;
+
+    /** Parsed invoice rawText (labels, amounts, VAT and Skonto notes) */
+    rawText: ParsedRawText;
+
+    /** Vendor memory recalled for the invoice */
+    vendorMemory: VendorMemory | undefined;
+
+    /** Correction memories recalled for the invoice */
+    correctionMemories: CorrectionMemory[];
+
+    /** Corrections proposed so far (vendor memory, correction memories, earlier plugins) */
+    corrections: readonly ProposedCorrection[];
+
+    /** Confidence threshold for auto-applying corrections */
+    autoApplyThreshold: number;
+}
+
+/**
+ * What a plugin contributes
+ */
+export interface RulePluginResult {
+    corrections?: ProposedCorrection[];
+
+    /** Added to the apply phase's audit trail */
+    notes?: string[];
+}
+
+/**
+ * A code-based rule
+ */
+export interface RulePlugin {
+    /** Unique identifier, shown in notes and errors */
+    id: string;
+
+    /** Whether the plugin handles this invoice */
+    appliesTo: (invoice: InvoiceInput, context: RulePluginContext) => boolean;
+
+    /** Propose corrections for an invoice the plugin applies to */
+    apply: (context: RulePluginContext) => RulePluginResult | Promise<RulePluginResult>;
+
+    /** Higher priorities run first (default 0); equal priorities run in registration order */
+    priority?: number;
+}
+
+/**
+ * Outcome of running the registered plugins for one invoice
+ */
+export interface RulePluginRunResult {
+    corrections: ProposedCorrection[];
+    notes: string[];
+
+    /** Plugins that threw, with their error messages */
+    failures: Array<{ id: string; error: string }>;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const registeredPlugins: RulePlugin[] = [];
+
+/**
+ * Register a rule plugin
+ *
+ * @throws Error if a plugin with the same ID is already registered
+ */
+export function registerRule(plugin: RulePlugin): void {
+    if (registeredPlugins.some((p) => p.id === plugin.id)) {
+        throw new Error(`Rule plugin "${plugin.id}" is already registered`);
+    }
+    registeredPlugins.push(plugin);
+}
+
+/**
+ * Remove a rule plugin
+ *
+ * @returns Whether a plugin with that ID was registered
+ */
+export function unregisterRule(id: string): boolean {
+    const index = registeredPlugins.findIndex((p) => p.id === id);
+    if (index === -1) return false;
+    registeredPlugins.splice(index, 1);
+    return true;
+}
+
+/**
+ * Registered plugins, in the order they run
+ */
+export function getRegisteredRules(): RulePlugin[] {
+    // Array.prototype.sort is stable, so registration order breaks ties
+    return [...registeredPlugins].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+/**
+ * Run the registered plugins that apply to an invoice
+ *
+ * Each plugin sees the corrections of the plugins before it.
+ */
+export async function applyRulePlugins(
+    context: Omit<RulePluginContext, 'corrections' | 'rawText'> & {
+        corrections?: readonly ProposedCorrection[];
+        rawText?: ParsedRawText;
+    }
+): Promise<RulePluginRunResult> {
+    const result: RulePluginRunResult = { corrections: [], notes: [], failures: [] };
+    const earlier = context.corrections ?? [];
+    const rawText = context.rawText ?? parseRawText(context.invoice.rawText);
+
+    for (const plugin of getRegisteredRules()) {
+        const pluginContext: RulePluginContext = {
+            ...context,
+            rawText,
+            corrections: [...earlier, ...result.corrections],
+        };
+
+        try {
+            if (!plugin.appliesTo(context.invoice, pluginContext)) continue;
+
+            const output = await plugin.apply(pluginContext);
+            const corrections = [...(output?.corrections ?? [])];
+            const notes = (output?.notes ?? []).map((note) => `[${plugin.id}] ${note}`);
+            result.corrections.push(...corrections);
+            result.notes.push(...notes);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn(`Rule plugin "${plugin.id}" failed for invoice ${context.invoice.invoiceId}: ${message}`);
+            result.failures.push({ id: plugin.id, error: message });
+        }
+    }
+
+    return result;
+}
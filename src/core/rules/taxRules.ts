@@ -0,0 +1,171 @@
+/**
+ * Tax Rules
+ *
+ * VAT handling for invoices that mix rates (19%, 7%, 0%):
+ * - Resolves the rate of each line item (line, invoice, vendor default or fallback)
+ * - Summarizes net, tax and gross per rate
+ * - Recomputes VAT from gross amounts rate by rate
+ */
+
+import { InvoiceInput, VendorMemory, TaxSummaryEntry } from '../../types';
+
+/**
+ * Where a VAT rate came from
+ */
+export type TaxRateSource = 'line' | 'invoice' | 'vendor' | 'fallback';
+
+/**
+ * A VAT rate (percent) and its origin
+ */
+export interface ResolvedTaxRate {
+    rate: number;
+    source: TaxRateSource;
+}
+
+const SOURCE_LABELS: Record<TaxRateSource, string> = {
+    line: 'line item',
+    invoice: 'invoice tax rate',
+    vendor: 'vendor default',
+    fallback: 'VAT marker',
+};
+
+// =============================================================================
+// Rate Resolution
+// =============================================================================
+
+/**
+ * Normalize a VAT rate to percent (0.19 and "19%" -> 19)
+ *
+ * @returns undefined for missing, negative or non-numeric rates
+ */
+export function normalizeTaxRate(value: unknown): number | undefined {
+    const rate = typeof value === 'string' ? parseFloat(value.replace('%', '').replace(',', '.')) : value;
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) return undefined;
+
+    // Fractions are rates below 100%; 0 stays 0
+    return rate > 0 && rate < 1 ? Math.round(rate * 1000) / 10 : rate;
+}
+
+/**
+ * Invoice-level VAT rate: metadata.taxRate, then the vendor's default, then the fallback
+ */
+export function resolveInvoiceTaxRate(
+    invoice: InvoiceInput,
+    vendorMemory: VendorMemory | undefined,
+    fallbackRate?: number
+): ResolvedTaxRate | undefined {
+    const invoiceRate = normalizeTaxRate(invoice.metadata?.taxRate);
+    if (invoiceRate !== undefined) return { rate: invoiceRate, source: 'invoice' };
+
+    const vendorRate = normalizeTaxRate(vendorMemory?.behaviors?.defaultVatRate);
+    if (vendorRate !== undefined) return { rate: vendorRate, source: 'vendor' };
+
+    return fallbackRate !== undefined ? { rate: fallbackRate, source: 'fallback' } : undefined;
+}
+
+/**
+ * VAT rate of each line item: its own rate, else the invoice-level rate
+ */
+export function resolveLineTaxRates(
+    invoice: InvoiceInput,
+    invoiceRate: ResolvedTaxRate | undefined
+): Array<ResolvedTaxRate | undefined> {
+    return invoice.lineItems.map((item) => {
+        const lineRate = normalizeTaxRate(item.taxRate);
+        return lineRate !== undefined ? { rate: lineRate, source: 'line' } : invoiceRate;
+    });
+}
+
+/**
+ * Readable origin of a rate, for reasoning
+ */
+export function describeTaxRateSource(source: TaxRateSource): string {
+    return SOURCE_LABELS[source];
+}
+
+// =============================================================================
+// Summaries
+// =============================================================================
+
+/**
+ * Summarize amounts per VAT rate, highest rate first
+ *
+ * @param amounts Amounts with their rate and line index (-1 for an invoice total)
+ * @param amountsIncludeVat Whether the amounts are gross (VAT included) or net
+ */
+export function buildTaxSummary(
+    amounts: Array<{ amount: number; rate: number; lineIndex: number }>,
+    amountsIncludeVat: boolean
+): TaxSummaryEntry[] {
+    const byRate = new Map<number, { total: number; lineIndexes: number[] }>();
+    for (const { amount, rate, lineIndex } of amounts) {
+        const group = byRate.get(rate) ?? { total: 0, lineIndexes: [] };
+        group.total += amount;
+        if (lineIndex >= 0) group.lineIndexes.push(lineIndex);
+        byRate.set(rate, group);
+    }
+
+    return [...byRate.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([rate, { total, lineIndexes }]) => {
+            const netAmount = amountsIncludeVat ? total / (1 + rate / 100) : total;
+            const grossAmount = amountsIncludeVat ? total : total * (1 + rate / 100);
+            return {
+                rate,
+                netAmount: roundCents(netAmount),
+                taxAmount: roundCents(grossAmount - netAmount),
+                grossAmount: roundCents(grossAmount),
+                lineIndexes,
+            };
+        });
+}
+
+/**
+ * Tax summary of an invoice's line items, if every line has a known rate
+ */
+export function summarizeLineTaxes(
+    invoice: InvoiceInput,
+    lineRates: Array<ResolvedTaxRate | undefined>,
+    amountsIncludeVat: boolean
+): TaxSummaryEntry[] | undefined {
+    if (invoice.lineItems.length === 0) return undefined;
+
+    const amounts: Array<{ amount: number; rate: number; lineIndex: number }> = [];
+    for (const [i, item] of invoice.lineItems.entries()) {
+        const lineRate = lineRates[i];
+        if (!lineRate) return undefined;
+        amounts.push({ amount: item.amount, rate: lineRate.rate, lineIndex: i });
+    }
+
+    return buildTaxSummary(amounts, amountsIncludeVat);
+}
+
+/**
+ * Totals over a tax summary
+ */
+export function sumTaxSummary(summary: TaxSummaryEntry[]): { netAmount: number; taxAmount: number; grossAmount: number } {
+    return {
+        netAmount: roundCents(summary.reduce((sum, entry) => sum + entry.netAmount, 0)),
+        taxAmount: roundCents(summary.reduce((sum, entry) => sum + entry.taxAmount, 0)),
+        grossAmount: roundCents(summary.reduce((sum, entry) => sum + entry.grossAmount, 0)),
+    };
+}
+
+/**
+ * "19% on lines 1, 3 (VAT 380.00); 7% on line 2 (VAT 7.00)"
+ */
+export function describeTaxSummary(summary: TaxSummaryEntry[]): string {
+    return summary
+        .map((entry) => {
+            const lines =
+                entry.lineIndexes.length === 0
+                    ? ''
+                    : ` on line${entry.lineIndexes.length > 1 ? 's' : ''} ${entry.lineIndexes.map((i) => i + 1).join(', ')}`;
+            return `${entry.rate}%${lines} (VAT ${entry.taxAmount.toFixed(2)})`;
+        })
+        .join('; ');
+}
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
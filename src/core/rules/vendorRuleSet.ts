@@ -0,0 +1,313 @@
+/**
+ * Vendor Rule Sets
+ *
+ * Loads the declarative vendor rules in vendor-rules/*.json. Each file
+ * describes one vendor: which vendor names it matches and which rules
+ * (field extraction, VAT-inclusion markers, currency detection, Skonto
+ * terms, SKU mappings, ...) apply to its invoices. New vendors are
+ * onboarded by adding a file; applyVendorMemories() interprets the rules.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VendorRuleSet, RulePattern } from '../../types';
+import { logger } from '../../utils';
+
+/**
+ * Default directory holding vendor rule files
+ */
+export const DEFAULT_VENDOR_RULES_DIR = path.join(process.cwd(), 'vendor-rules');
+
+/** Order of rule sets that do not set one */
+const DEFAULT_ORDER = 100;
+
+/**
+ * A vendor rule file that cannot be used
+ */
+export class InvalidVendorRulesError extends Error {
+    constructor(
+        public readonly source: string,
+        message: string
+    ) {
+        super(`Invalid vendor rules in ${source}: ${message}`);
+        this.name = 'InvalidVendorRulesError';
+    }
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Load all rule sets from a directory, sorted by order and then file name
+ *
+ * A missing directory is logged and yields no rule sets; an invalid file
+ * throws InvalidVendorRulesError.
+ */
+export function loadVendorRuleSets(rulesDir?: string): VendorRuleSet[] {
+    const dir = rulesDir || DEFAULT_VENDOR_RULES_DIR;
+
+    if (!fs.existsSync(dir)) {
+        logger.warn(`Vendor rules directory not found: ${dir}`);
+        return [];
+    }
+
+    const files = fs
+        .readdirSync(dir)
+        .filter((name) => name.endsWith('.json'))
+        .sort();
+
+    const ruleSets: VendorRuleSet[] = [];
+    for (const file of files) {
+        const filePath = path.join(dir, file);
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            throw new InvalidVendorRulesError(filePath, error instanceof Error ? error.message : String(error));
+        }
+        ruleSets.push(parseVendorRuleSet(parsed, filePath));
+    }
+
+    const ids = new Set<string>();
+    for (const ruleSet of ruleSets) {
+        if (ids.has(ruleSet.id)) {
+            throw new InvalidVendorRulesError(dir, `duplicate rule set id "${ruleSet.id}"`);
+        }
+        ids.add(ruleSet.id);
+    }
+
+    // Stable sort keeps file name order within the same order value
+    return ruleSets.sort((a, b) => (a.order ?? DEFAULT_ORDER) - (b.order ?? DEFAULT_ORDER));
+}
+
+let activeRuleSets: VendorRuleSet[] | undefined;
+
+/**
+ * Rule sets used by applyVendorMemories (loaded from the default directory on first use)
+ */
+export function getVendorRuleSets(): VendorRuleSet[] {
+    if (!activeRuleSets) {
+        activeRuleSets = loadVendorRuleSets();
+    }
+    return activeRuleSets;
+}
+
+/**
+ * Replace the active rule sets (e.g., with ones loaded from another directory)
+ */
+export function setVendorRuleSets(ruleSets: VendorRuleSet[]): void {
+    activeRuleSets = [...ruleSets].sort((a, b) => (a.order ?? DEFAULT_ORDER) - (b.order ?? DEFAULT_ORDER));
+}
+
+/**
+ * Find the first rule set whose name fragments occur in a vendor name
+ */
+export function findVendorRuleSet(
+    vendorName: string,
+    ruleSets: VendorRuleSet[] = getVendorRuleSets()
+): VendorRuleSet | undefined {
+    const normalized = vendorName.toLowerCase().trim();
+    return ruleSets.find((ruleSet) =>
+        ruleSet.match.nameContains.some((fragment) => normalized.includes(fragment.toLowerCase()))
+    );
+}
+
+// =============================================================================
+// Patterns
+// =============================================================================
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Compile a rule pattern (compiled expressions are cached)
+ */
+export function compileRulePattern(rulePattern: RulePattern): RegExp {
+    const flags = rulePattern.flags ?? 'i';
+    const key = `${flags}/${rulePattern.pattern}`;
+    let regex = compiledPatterns.get(key);
+    if (!regex) {
+        regex = new RegExp(rulePattern.pattern, flags);
+        compiledPatterns.set(key, regex);
+    }
+    return regex;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+type Json = Record<string, unknown>;
+
+/**
+ * Validate a parsed rule file
+ *
+ * @param value Parsed JSON
+ * @param source File path (or other origin) for error messages
+ */
+export function parseVendorRuleSet(value: unknown, source: string): VendorRuleSet {
+    const fail = (message: string): never => {
+        throw new InvalidVendorRulesError(source, message);
+    };
+
+    const ruleSet = requireObject(value, 'rule set', fail);
+    requireString(ruleSet, 'id', fail);
+    requireString(ruleSet, 'name', fail);
+    if (ruleSet.order !== undefined && typeof ruleSet.order !== 'number') {
+        fail('"order" must be a number');
+    }
+
+    const match = requireObject(ruleSet.match, '"match"', fail);
+    const nameContains = match.nameContains;
+    if (
+        !Array.isArray(nameContains) ||
+        nameContains.length === 0 ||
+        !nameContains.every((fragment) => typeof fragment === 'string' && fragment.trim() !== '')
+    ) {
+        fail('"match.nameContains" must be a non-empty array of strings');
+    }
+
+    if (!Array.isArray(ruleSet.rules)) {
+        fail('"rules" must be an array');
+    }
+    (ruleSet.rules as unknown[]).forEach((rule, i) => validateRule(rule, `rules[${i}]`, fail));
+
+    return value as VendorRuleSet;
+}
+
+function validateRule(value: unknown, at: string, fail: (message: string) => never): void {
+    const rule = requireObject(value, at, fail);
+    const prefixed = (message: string): never => fail(`${at}: ${message}`);
+
+    switch (rule.type) {
+        case 'fieldExtraction':
+            requireString(rule, 'targetField', prefixed);
+            requireString(rule, 'label', prefixed);
+            requireString(rule, 'reasoning', prefixed);
+            if (rule.metadataKeys === undefined && rule.rawTextPatterns === undefined) {
+                prefixed('needs "metadataKeys" or "rawTextPatterns"');
+            }
+            if (
+                rule.metadataKeys !== undefined &&
+                !(Array.isArray(rule.metadataKeys) && rule.metadataKeys.every((key) => typeof key === 'string'))
+            ) {
+                prefixed('"metadataKeys" must be an array of strings');
+            }
+            if (rule.rawTextPatterns !== undefined) {
+                requirePatterns(rule, 'rawTextPatterns', [], prefixed);
+            }
+            requireConfidence(rule.confidence, prefixed);
+            break;
+
+        case 'vatIncluded':
+            requirePatterns(rule, 'markers', ['marker'], prefixed);
+            for (const marker of rule.markers as Json[]) {
+                if (typeof marker.rate !== 'number') prefixed('every marker needs a numeric "rate"');
+            }
+            if (rule.metadataField !== undefined) requireString(rule, 'metadataField', prefixed);
+            requireConfidence(rule.confidence, prefixed);
+            break;
+
+        case 'currencyFromRawText':
+            requirePatterns(rule, 'patterns', ['currency'], prefixed);
+            requireNumber(rule, 'confidence', prefixed);
+            requireNumber(rule, 'confirmedConfidence', prefixed);
+            break;
+
+        case 'skonto':
+            requirePatterns(rule, 'patterns', [], prefixed);
+            if (rule.netDaysPattern !== undefined) {
+                requirePattern(rule.netDaysPattern, 'netDaysPattern', prefixed);
+            }
+            requireNumber(rule, 'confidence', prefixed);
+            if (rule.alwaysApply !== undefined && typeof rule.alwaysApply !== 'boolean') {
+                prefixed('"alwaysApply" must be a boolean');
+            }
+            break;
+
+        case 'skuMapping':
+            requireString(rule, 'sku', prefixed);
+            requireString(rule, 'label', prefixed);
+            requirePatterns(rule, 'descriptionPatterns', [], prefixed);
+            requireConfidence(rule.confidence, prefixed);
+            break;
+
+        case 'poReference':
+            requireNumber(rule, 'confidenceFactor', prefixed);
+            requireNumber(rule, 'minConfidence', prefixed);
+            break;
+
+        case 'lineItemPoHints':
+            break;
+
+        default:
+            prefixed(`unknown rule type "${String(rule.type)}"`);
+    }
+}
+
+function requireObject(value: unknown, what: string, fail: (message: string) => never): Json {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(`${what} must be an object`);
+    }
+    return value as Json;
+}
+
+function requireString(object: Json, key: string, fail: (message: string) => never): void {
+    if (typeof object[key] !== 'string' || object[key] === '') {
+        fail(`"${key}" must be a non-empty string`);
+    }
+}
+
+function requireNumber(object: Json, key: string, fail: (message: string) => never): void {
+    if (typeof object[key] !== 'number' || Number.isNaN(object[key])) {
+        fail(`"${key}" must be a number`);
+    }
+}
+
+function requireConfidence(value: unknown, fail: (message: string) => never): void {
+    const confidence = requireObject(value, '"confidence"', fail);
+    for (const key of ['base', 'memoryBoost', 'max']) {
+        if (typeof confidence[key] !== 'number') {
+            fail(`"confidence.${key}" must be a number`);
+        }
+    }
+}
+
+function requirePatterns(
+    object: Json,
+    key: string,
+    labelKeys: string[],
+    fail: (message: string) => never
+): void {
+    const patterns = object[key];
+    if (!Array.isArray(patterns) || patterns.length === 0) {
+        fail(`"${key}" must be a non-empty array`);
+    }
+    (patterns as unknown[]).forEach((pattern, i) => {
+        requirePattern(pattern, `${key}[${i}]`, fail);
+        for (const labelKey of labelKeys) {
+            requireString(pattern as Json, labelKey, (message) => fail(`${key}[${i}]: ${message}`));
+        }
+    });
+}
+
+function requirePattern(value: unknown, at: string, fail: (message: string) => never): void {
+    const rulePattern = requireObject(value, at, fail);
+    if (typeof rulePattern.pattern !== 'string' || rulePattern.pattern === '') {
+        fail(`${at}: "pattern" must be a non-empty string`);
+    }
+    if (rulePattern.flags !== undefined && typeof rulePattern.flags !== 'string') {
+        fail(`${at}: "flags" must be a string`);
+    }
+
+    // Stateful flags would make test() depend on earlier calls
+    const flags = rulePattern.flags ?? 'i';
+    if (/[gy]/.test(flags)) {
+        fail(`${at}: flags "g" and "y" are not supported`);
+    }
+    try {
+        compileRulePattern({ pattern: rulePattern.pattern, flags });
+    } catch (error) {
+        fail(`${at}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
@@ -1,8 +1,9 @@
 /**
  * Vendor Rules Module
  *
- * Applies vendor-specific memories to normalize invoice data.
- * Implements concrete logic for:
+ * Applies vendor-specific memories to normalize invoice data, then runs the
+ * declarative rule set of the invoice's vendor (see vendorRuleSet.ts and
+ * vendor-rules/*.json), e.g.:
  * - Supplier GmbH: Field mapping (Leistungsdatum -> serviceDate), PO matching
  * - Parts AG: VAT included detection, currency extraction
  * - Freight & Co: SKU mapping for shipping, Skonto detection
@@ -15,8 +16,28 @@ import {
     NormalizedInvoice,
     NormalizedLineItem,
     FieldMapping,
+    VendorRuleSet,
+    RuleConfidence,
+    FieldExtractionRule,
+    VatInclusionRule,
+    CurrencyExtractionRule,
+    SkontoRule,
+    SkuMappingRule,
+    PoReferenceRule,
 } from '../../types';
-import { getTimestamp, generateId } from '../../utils';
+import { getTimestamp, parseDate, parseAmount, amountsMatch } from '../../utils';
+import { findVendorRuleSet, compileRulePattern } from './vendorRuleSet';
+import { ParsedRawText, parseRawText, findRawTextEntry } from '../rawText';
+import { normalizeVendorName } from '../duplicates';
+import {
+    resolveInvoiceTaxRate,
+    resolveLineTaxRates,
+    summarizeLineTaxes,
+    buildTaxSummary,
+    sumTaxSummary,
+    describeTaxSummary,
+    describeTaxRateSource,
+} from './taxRules';
 
 /**
  * Result from applying vendor memories
@@ -42,16 +63,6 @@ export interface VendorApplyResult {
     };
 }
 
-// =============================================================================
-// Known Vendor Constants
-// =============================================================================
-
-const KNOWN_VENDORS = {
-    SUPPLIER_GMBH: ['supplier gmbh', 'supplier', 'lieferant gmbh'],
-    PARTS_AG: ['parts ag', 'parts', 'teile ag'],
-    FREIGHT_CO: ['freight & co', 'freight and co', 'freight co', 'fracht & co'],
-};
-
 // =============================================================================
 // Main Apply Function
 // =============================================================================
@@ -62,38 +73,47 @@ const KNOWN_VENDORS = {
  * @param invoice The raw invoice input
  * @param vendorMemory The vendor memory (if found)
  * @param autoApplyThreshold Confidence threshold for auto-applying corrections
+ * @param fuzzyMatch Score and reasons when vendorMemory was found by fuzzy resolution
  * @returns Result with normalized fields and proposed corrections
  */
 export function applyVendorMemories(
     invoice: InvoiceInput,
     vendorMemory: VendorMemory | undefined,
-    autoApplyThreshold: number = 0.85
+    autoApplyThreshold: number = 0.85,
+    fuzzyMatch?: { score: number; reasons: string[] }
 ): VendorApplyResult {
     const corrections: ProposedCorrection[] = [];
     const notes: string[] = [];
 
     // Default vendor info
     let normalizedVendorName = invoice.vendor.name;
-    let canonicalVendorId = invoice.vendor.id || generateId('vendor');
+    // Same ID learning and duplicate records use for the vendor
+    let canonicalVendorId = invoice.vendor.id || normalizeVendorName(invoice.vendor.name);
     let vendorConfidence = 0.5; // Default for unknown vendor
     let detectedPaymentTerms: VendorApplyResult['detectedPaymentTerms'];
 
-    // Identify vendor type
-    const vendorType = identifyVendorType(invoice.vendor.name);
+    // Identify the vendor's rule set
+    const ruleSet = findVendorRuleSet(invoice.vendor.name);
+    const rawText = parseRawText(invoice.rawText);
 
     if (vendorMemory) {
         vendorConfidence = vendorMemory.confidence;
 
         // Apply vendor name normalization
         if (vendorMemory.canonicalName !== invoice.vendor.name) {
+            // A fuzzy match is only as certain as the match itself
+            const confidence = fuzzyMatch ? vendorMemory.confidence * fuzzyMatch.score : vendorMemory.confidence;
             const correction: ProposedCorrection = {
                 field: 'vendor.name',
                 originalValue: invoice.vendor.name,
                 proposedValue: vendorMemory.canonicalName,
-                confidence: vendorMemory.confidence,
-                reasoning: `Vendor name normalized based on ${vendorMemory.reinforcementCount} previous occurrences`,
+                confidence,
+                reasoning: fuzzyMatch
+                    ? `Vendor name resembles known vendor "${vendorMemory.canonicalName}" ` +
+                      `(match ${(fuzzyMatch.score * 100).toFixed(0)}%: ${fuzzyMatch.reasons.join(', ')})`
+                    : `Vendor name normalized based on ${vendorMemory.reinforcementCount} previous occurrences`,
                 source: vendorMemory.id,
-                autoApplied: vendorMemory.confidence >= autoApplyThreshold,
+                autoApplied: confidence >= autoApplyThreshold,
             };
 
             corrections.push(correction);
@@ -104,7 +124,7 @@ export function applyVendorMemories(
                 notes.push(`Auto-normalized vendor name to "${vendorMemory.canonicalName}"`);
             } else {
                 notes.push(
-                    `Suggested vendor normalization to "${vendorMemory.canonicalName}" (confidence: ${(vendorMemory.confidence * 100).toFixed(0)}%)`
+                    `Suggested vendor normalization to "${vendorMemory.canonicalName}" (confidence: ${(confidence * 100).toFixed(0)}%)`
                 );
             }
         } else {
@@ -120,37 +140,27 @@ export function applyVendorMemories(
         notes.push(`No vendor memory found for "${invoice.vendor.name}"`);
     }
 
-    // Apply vendor-type-specific rules
-    switch (vendorType) {
-        case 'SUPPLIER_GMBH':
-            const supplierResult = applySupplierGmbHRules(invoice, vendorMemory, autoApplyThreshold);
-            corrections.push(...supplierResult.corrections);
-            notes.push(...supplierResult.notes);
-            break;
-
-        case 'PARTS_AG':
-            const partsResult = applyPartsAGRules(invoice, vendorMemory, autoApplyThreshold);
-            corrections.push(...partsResult.corrections);
-            notes.push(...partsResult.notes);
-            break;
-
-        case 'FREIGHT_CO':
-            const freightResult = applyFreightCoRules(invoice, vendorMemory, autoApplyThreshold);
-            corrections.push(...freightResult.corrections);
-            notes.push(...freightResult.notes);
-            detectedPaymentTerms = freightResult.paymentTerms;
-            break;
+    // Apply vendor-specific rules
+    if (ruleSet) {
+        const ruleResult = applyVendorRuleSet(ruleSet, invoice, vendorMemory, autoApplyThreshold, rawText);
+        corrections.push(...ruleResult.corrections);
+        notes.push(...ruleResult.notes);
+        detectedPaymentTerms = ruleResult.paymentTerms;
     }
 
-    // Build normalized line items
-    const normalizedLineItems: NormalizedLineItem[] = invoice.lineItems.map((item) => ({
+    // Build normalized line items with their VAT rates
+    const invoiceTaxRate = resolveInvoiceTaxRate(invoice, vendorMemory);
+    const lineTaxRates = resolveLineTaxRates(invoice, invoiceTaxRate);
+    const normalizedLineItems: NormalizedLineItem[] = invoice.lineItems.map((item, i) => ({
         description: item.description,
         quantity: item.quantity || 1,
         unitPrice: item.unitPrice || item.amount,
         amount: item.amount,
         category: item.category || null,
         productCode: item.productCode || null,
+        taxRate: lineTaxRates[i]?.rate ?? null,
     }));
+    const amountsIncludeVat = vendorMemory?.behaviors?.vatIncluded === true || rawText.vatIncludedLine !== undefined;
 
     // Build partial normalized invoice
     const normalizedInvoice: Partial<NormalizedInvoice> = {
@@ -167,6 +177,8 @@ export function applyVendorMemories(
         totalAmount: invoice.totalAmount,
         currency: invoice.currency,
         lineItems: normalizedLineItems,
+        taxRate: invoiceTaxRate?.rate,
+        taxSummary: summarizeLineTaxes(invoice, lineTaxRates, amountsIncludeVat),
         poNumber: invoice.poNumber || null,
         paymentTerms: detectedPaymentTerms || invoice.paymentTerms,
         processingTimestamp: getTimestamp(),
@@ -182,22 +194,6 @@ export function applyVendorMemories(
     };
 }
 
-// =============================================================================
-// Vendor Identification
-// =============================================================================
-
-function identifyVendorType(vendorName: string): string | null {
-    const normalized = vendorName.toLowerCase().trim();
-
-    for (const [type, patterns] of Object.entries(KNOWN_VENDORS)) {
-        if (patterns.some((p) => normalized.includes(p))) {
-            return type;
-        }
-    }
-
-    return null;
-}
-
 // =============================================================================
 // Field Mapping Application
 // =============================================================================
@@ -215,363 +211,396 @@ function applyFieldMappings(
     }
 
     const metadata = invoice.metadata || {};
+    const rawText = parseRawText(invoice.rawText);
 
     for (const [sourceField, mapping] of Object.entries(vendorMemory.fieldMappings)) {
-        if (metadata[sourceField] !== undefined) {
-            const value = String(metadata[sourceField]);
-            const shouldAutoApply = mapping.confidence >= autoApplyThreshold;
-
-            corrections.push({
-                field: mapping.targetField,
-                originalValue: '',
-                proposedValue: value,
-                confidence: mapping.confidence,
-                reasoning: `Field mapping: "${sourceField}" -> "${mapping.targetField}" (${mapping.occurrenceCount} occurrences)`,
-                source: vendorMemory.id,
-                autoApplied: shouldAutoApply,
-            });
-
-            if (shouldAutoApply) {
-                notes.push(`Applied field mapping: ${sourceField} -> ${mapping.targetField} = "${value}"`);
-            } else {
-                notes.push(`Suggested field mapping: ${sourceField} -> ${mapping.targetField}`);
+        let value: string | undefined;
+        if (mapping.source === 'rawText') {
+            // Dates are proposed in ISO format, like the values reviewers enter
+            const entry = findRawTextEntry(rawText, sourceField);
+            if (entry?.normalized !== undefined) {
+                value = parseDate(entry.value, vendorMemory.behaviors?.dateFormat) || entry.value;
             }
+        } else if (metadata[sourceField] !== undefined) {
+            value = String(metadata[sourceField]);
         }
-    }
-
-    return { corrections, notes };
-}
-
-// =============================================================================
-// Supplier GmbH Rules
-// =============================================================================
-
-/**
- * Supplier GmbH specific rules:
- * - Map "Leistungsdatum" -> serviceDate
- * - Suggest PO matching when single PO matches
- */
-function applySupplierGmbHRules(
-    invoice: InvoiceInput,
-    vendorMemory: VendorMemory | undefined,
-    autoApplyThreshold: number
-): { corrections: ProposedCorrection[]; notes: string[] } {
-    const corrections: ProposedCorrection[] = [];
-    const notes: string[] = [];
-    const metadata = invoice.metadata || {};
+        if (value === undefined) continue;
 
-    // Rule 1: Map "Leistungsdatum" to serviceDate
-    const leistungsdatum = metadata['Leistungsdatum'] || metadata['leistungsdatum'];
-    if (leistungsdatum && !invoice.serviceDate) {
-        const confidence = vendorMemory ? Math.min(vendorMemory.confidence + 0.1, 0.95) : 0.7;
-        const shouldAutoApply = confidence >= autoApplyThreshold;
+        const origin = mapping.source === 'rawText' ? `rawText label "${sourceField}"` : `"${sourceField}"`;
+        const shouldAutoApply = mapping.confidence >= autoApplyThreshold;
 
         corrections.push({
-            field: 'serviceDate',
+            field: mapping.targetField,
             originalValue: '',
-            proposedValue: String(leistungsdatum),
-            confidence,
-            reasoning: 'Supplier GmbH: Mapped "Leistungsdatum" field to serviceDate',
-            source: vendorMemory?.id,
+            proposedValue: value,
+            confidence: mapping.confidence,
+            reasoning: `Field mapping: ${origin} -> "${mapping.targetField}" (${mapping.occurrenceCount} occurrences)`,
+            source: vendorMemory.id,
             autoApplied: shouldAutoApply,
         });
 
         if (shouldAutoApply) {
-            notes.push(`Auto-applied: Leistungsdatum "${leistungsdatum}" -> serviceDate`);
+            notes.push(`Applied field mapping: ${sourceField} -> ${mapping.targetField} = "${value}"`);
         } else {
-            notes.push(`Suggested: Map Leistungsdatum "${leistungsdatum}" to serviceDate`);
+            notes.push(`Suggested field mapping: ${sourceField} -> ${mapping.targetField}`);
         }
     }
 
-    // Rule 2: PO matching suggestion
-    if (invoice.poNumber && vendorMemory) {
-        // Check if we have historical data suggesting this is a valid PO
-        const poConfidence = vendorMemory.confidence * 0.9;
-        if (poConfidence >= 0.6) {
-            notes.push(`PO-${invoice.poNumber} reference found, confidence: ${(poConfidence * 100).toFixed(0)}%`);
-        }
-    }
-
-    // Rule 3: Check for item matching patterns in line items
-    const lineItemMatches = analyzeLineItemsForPO(invoice);
-    if (lineItemMatches.length > 0) {
-        notes.push(`Found ${lineItemMatches.length} line item(s) potentially matching PO`);
-    }
-
     return { corrections, notes };
 }
 
+// =============================================================================
+// Rule Set Application
+// =============================================================================
+
+type PaymentTerms = NonNullable<VendorApplyResult['detectedPaymentTerms']>;
+
 /**
- * Analyze line items for PO matching hints
+ * Inputs shared by all rules of a rule set
  */
-function analyzeLineItemsForPO(invoice: InvoiceInput): string[] {
-    const matches: string[] = [];
+interface RuleContext {
+    invoice: InvoiceInput;
+    vendorMemory: VendorMemory | undefined;
+    autoApplyThreshold: number;
 
-    for (const item of invoice.lineItems) {
-        // Look for product codes or SKUs that suggest PO line matching
-        if (item.productCode) {
-            matches.push(item.productCode);
-        }
-    }
+    /** Parsed invoice rawText */
+    rawText: ParsedRawText;
 
-    return matches;
+    /** Vendor name prefixed to reasoning */
+    vendorLabel: string;
 }
 
-// =============================================================================
-// Parts AG Rules
-// =============================================================================
+interface RuleResult {
+    corrections: ProposedCorrection[];
+    notes: string[];
+    paymentTerms?: PaymentTerms;
+}
 
 /**
- * Parts AG specific rules:
- * - Detect "MwSt. inkl." / "Prices incl. VAT" and recompute tax
- * - Extract currency from rawText if missing
+ * Apply a vendor's rules in the order they are declared
  */
-function applyPartsAGRules(
+function applyVendorRuleSet(
+    ruleSet: VendorRuleSet,
     invoice: InvoiceInput,
     vendorMemory: VendorMemory | undefined,
-    autoApplyThreshold: number
-): { corrections: ProposedCorrection[]; notes: string[] } {
-    const corrections: ProposedCorrection[] = [];
-    const notes: string[] = [];
+    autoApplyThreshold: number,
+    rawText: ParsedRawText
+): RuleResult {
+    const context: RuleContext = { invoice, vendorMemory, autoApplyThreshold, rawText, vendorLabel: ruleSet.name };
+    const result: RuleResult = { corrections: [], notes: [] };
+
+    for (const rule of ruleSet.rules) {
+        switch (rule.type) {
+            case 'fieldExtraction':
+                applyFieldExtraction(rule, context, result);
+                break;
+            case 'poReference':
+                applyPoReference(rule, context, result);
+                break;
+            case 'lineItemPoHints':
+                applyLineItemPoHints(context, result);
+                break;
+            case 'vatIncluded':
+                applyVatInclusion(rule, context, result);
+                break;
+            case 'currencyFromRawText':
+                applyCurrencyExtraction(rule, context, result);
+                break;
+            case 'skonto':
+                applySkonto(rule, context, result);
+                break;
+            case 'skuMapping':
+                applySkuMapping(rule, context, result);
+                break;
+        }
+    }
 
-    // Rule 1: VAT included detection and recomputation
-    const vatIncluded = detectVATIncluded(invoice);
-    if (vatIncluded.detected) {
-        const vatResult = recomputeVATFromGross(invoice.totalAmount, vatIncluded.rate);
-        const confidence = vendorMemory
-            ? Math.min(vendorMemory.confidence + 0.15, 0.9)
-            : 0.65;
+    return result;
+}
 
-        corrections.push({
-            field: 'taxAmount',
-            originalValue: '0',
-            proposedValue: vatResult.taxAmount.toFixed(2),
-            confidence,
-            reasoning: `Parts AG: Detected "${vatIncluded.marker}" - Recomputed VAT at ${vatResult.rate}%`,
-            source: vendorMemory?.id,
-            autoApplied: confidence >= autoApplyThreshold,
-        });
+/**
+ * Rule confidence, raised from the vendor memory's confidence when there is one
+ */
+function ruleConfidence(confidence: RuleConfidence, vendorMemory: VendorMemory | undefined): number {
+    return vendorMemory
+        ? Math.min(vendorMemory.confidence + confidence.memoryBoost, confidence.max)
+        : confidence.base;
+}
 
-        corrections.push({
-            field: 'netAmount',
-            originalValue: invoice.totalAmount.toFixed(2),
-            proposedValue: vatResult.netAmount.toFixed(2),
-            confidence,
-            reasoning: `Parts AG: Net amount after VAT extraction (${vatResult.rate}%)`,
-            source: vendorMemory?.id,
-            autoApplied: confidence >= autoApplyThreshold,
-        });
+// =============================================================================
+// Field Extraction and PO Rules
+// =============================================================================
 
-        notes.push(
-            `VAT included detected: "${vatIncluded.marker}". ` +
-            `Gross: ${invoice.totalAmount.toFixed(2)}, Net: ${vatResult.netAmount.toFixed(2)}, ` +
-            `VAT: ${vatResult.taxAmount.toFixed(2)} (${vatResult.rate}%)`
-        );
-    }
+/**
+ * Fill a missing field from metadata (e.g., "Leistungsdatum" -> serviceDate) or rawText
+ */
+function applyFieldExtraction(rule: FieldExtractionRule, context: RuleContext, result: RuleResult): void {
+    const { invoice, vendorMemory, autoApplyThreshold } = context;
+    const currentValue = (invoice as unknown as Record<string, unknown>)[rule.targetField];
+    if (currentValue) return;
 
-    // Rule 2: Currency extraction from rawText
-    if (!invoice.currency || invoice.currency === 'UNKNOWN') {
-        const extractedCurrency = extractCurrencyFromRawText(invoice.rawText);
-        if (extractedCurrency) {
-            // Higher confidence if vendor memory confirms typical currency
-            let confidence = 0.6;
-            if (vendorMemory?.behaviors?.defaultCurrency === extractedCurrency) {
-                confidence = 0.85;
-                notes.push(`Currency "${extractedCurrency}" confirmed by vendor memory`);
-            }
+    const value = extractRuleValue(rule, invoice);
+    if (!value) return;
 
-            corrections.push({
-                field: 'currency',
-                originalValue: invoice.currency || 'UNKNOWN',
-                proposedValue: extractedCurrency,
-                confidence,
-                reasoning: `Parts AG: Extracted currency "${extractedCurrency}" from invoice text`,
-                source: vendorMemory?.id,
-                autoApplied: confidence >= autoApplyThreshold,
-            });
+    const confidence = ruleConfidence(rule.confidence, vendorMemory);
+    const shouldAutoApply = confidence >= autoApplyThreshold;
 
-            notes.push(`Extracted currency "${extractedCurrency}" from rawText`);
-        }
-    }
+    result.corrections.push({
+        field: rule.targetField,
+        originalValue: '',
+        proposedValue: value,
+        confidence,
+        reasoning: `${context.vendorLabel}: ${rule.reasoning}`,
+        source: vendorMemory?.id,
+        autoApplied: shouldAutoApply,
+    });
 
-    return { corrections, notes };
+    if (shouldAutoApply) {
+        result.notes.push(`Auto-applied: ${rule.label} "${value}" -> ${rule.targetField}`);
+    } else {
+        result.notes.push(`Suggested: Map ${rule.label} "${value}" to ${rule.targetField}`);
+    }
 }
 
 /**
- * Detect if VAT is included in the price
+ * First non-empty value among the rule's metadata keys, then its rawText patterns
  */
-function detectVATIncluded(invoice: InvoiceInput): {
-    detected: boolean;
-    marker: string;
-    rate: number;
-} {
-    const rawText = invoice.rawText || '';
+function extractRuleValue(rule: FieldExtractionRule, invoice: InvoiceInput): string | undefined {
     const metadata = invoice.metadata || {};
 
-    // Check common VAT inclusion markers
-    const vatMarkers = [
-        { pattern: /mwst\.?\s*inkl/i, marker: 'MwSt. inkl.', rate: 19 },
-        { pattern: /prices?\s+incl\.?\s*vat/i, marker: 'Prices incl. VAT', rate: 19 },
-        { pattern: /inkl\.?\s*mwst/i, marker: 'inkl. MwSt.', rate: 19 },
-        { pattern: /including\s+vat/i, marker: 'including VAT', rate: 20 },
-        { pattern: /inklusive\s+mehrwertsteuer/i, marker: 'inklusive Mehrwertsteuer', rate: 19 },
-        { pattern: /brutto/i, marker: 'Brutto', rate: 19 },
-    ];
-
-    for (const { pattern, marker, rate } of vatMarkers) {
-        if (pattern.test(rawText) || pattern.test(String(metadata['vatInfo'] || ''))) {
-            return { detected: true, marker, rate };
-        }
+    for (const key of rule.metadataKeys || []) {
+        if (metadata[key]) return String(metadata[key]);
+    }
+
+    const rawText = invoice.rawText || '';
+    for (const rulePattern of rule.rawTextPatterns || []) {
+        const match = rawText.match(compileRulePattern(rulePattern));
+        if (match?.[1]) return match[1].trim();
     }
 
-    return { detected: false, marker: '', rate: 0 };
+    return undefined;
 }
 
 /**
- * Recompute net and tax from gross amount
+ * Note a PO reference when the vendor memory is confident enough
  */
-function recomputeVATFromGross(
-    grossAmount: number,
-    vatRate: number
-): { netAmount: number; taxAmount: number; rate: number } {
-    const rate = vatRate;
-    const netAmount = grossAmount / (1 + rate / 100);
-    const taxAmount = grossAmount - netAmount;
+function applyPoReference(rule: PoReferenceRule, context: RuleContext, result: RuleResult): void {
+    const { invoice, vendorMemory } = context;
+    if (!invoice.poNumber || !vendorMemory) return;
 
-    return {
-        netAmount: Math.round(netAmount * 100) / 100,
-        taxAmount: Math.round(taxAmount * 100) / 100,
-        rate,
-    };
+    const poConfidence = vendorMemory.confidence * rule.confidenceFactor;
+    if (poConfidence >= rule.minConfidence) {
+        result.notes.push(`PO-${invoice.poNumber} reference found, confidence: ${(poConfidence * 100).toFixed(0)}%`);
+    }
 }
 
 /**
- * Extract currency from raw text
+ * Note line items whose product codes suggest PO line matching
  */
-function extractCurrencyFromRawText(rawText?: string): string | null {
-    if (!rawText) return null;
-
-    // Common currency patterns
-    const currencyPatterns = [
-        { pattern: /(\d+[.,]\d{2})\s*EUR/i, currency: 'EUR' },
-        { pattern: /EUR\s*(\d+[.,]\d{2})/i, currency: 'EUR' },
-        { pattern: /€\s*(\d+[.,]\d{2})/i, currency: 'EUR' },
-        { pattern: /(\d+[.,]\d{2})\s*€/i, currency: 'EUR' },
-        { pattern: /(\d+[.,]\d{2})\s*USD/i, currency: 'USD' },
-        { pattern: /USD\s*(\d+[.,]\d{2})/i, currency: 'USD' },
-        { pattern: /\$\s*(\d+[.,]\d{2})/i, currency: 'USD' },
-        { pattern: /(\d+[.,]\d{2})\s*CHF/i, currency: 'CHF' },
-        { pattern: /CHF\s*(\d+[.,]\d{2})/i, currency: 'CHF' },
-        { pattern: /(\d+[.,]\d{2})\s*GBP/i, currency: 'GBP' },
-        { pattern: /£\s*(\d+[.,]\d{2})/i, currency: 'GBP' },
-    ];
-
-    for (const { pattern, currency } of currencyPatterns) {
-        if (pattern.test(rawText)) {
-            return currency;
-        }
+function applyLineItemPoHints(context: RuleContext, result: RuleResult): void {
+    const matches = context.invoice.lineItems.filter((item) => item.productCode).length;
+    if (matches > 0) {
+        result.notes.push(`Found ${matches} line item(s) potentially matching PO`);
     }
-
-    return null;
 }
 
 // =============================================================================
-// Freight & Co Rules
+// VAT and Currency Rules
 // =============================================================================
 
 /**
- * Freight & Co specific rules:
- * - Detect Skonto terms and store as structured data
- * - Map shipping descriptions to FREIGHT SKU
+ * Detect VAT-inclusive prices (e.g., "MwSt. inkl.") and recompute net and tax
  */
-function applyFreightCoRules(
-    invoice: InvoiceInput,
-    vendorMemory: VendorMemory | undefined,
-    autoApplyThreshold: number
-): {
-    corrections: ProposedCorrection[];
-    notes: string[];
-    paymentTerms?: { discountPercent?: number; discountDays?: number; netDays?: number };
-} {
-    const corrections: ProposedCorrection[] = [];
-    const notes: string[] = [];
+function applyVatInclusion(rule: VatInclusionRule, context: RuleContext, result: RuleResult): void {
+    const { invoice, vendorMemory, autoApplyThreshold, rawText, vendorLabel } = context;
+    const metadataText = rule.metadataField ? String((invoice.metadata || {})[rule.metadataField] || '') : '';
+
+    // The parser finds the VAT-inclusive line; the rule's markers name it and give the rate
+    const texts = [rawText.vatIncludedLine || '', metadataText];
+    const detected = rule.markers.find((marker) => {
+        const pattern = compileRulePattern(marker);
+        return texts.some((text) => pattern.test(text));
+    });
+    if (!detected) return;
+
+    const recomputationRule = vendorMemory?.behaviors?.taxRecomputationRule;
+    if (recomputationRule === 'useVendorTax') {
+        result.notes.push(`VAT included detected: "${detected.marker}". Keeping the vendor's tax amounts (useVendorTax)`);
+        return;
+    }
 
-    // Rule 1: Detect Skonto/discount terms
-    const skontoTerms = detectSkontoTerms(invoice);
-    if (skontoTerms) {
-        notes.push(
-            `Detected Skonto terms: ${skontoTerms.discountPercent}% within ${skontoTerms.discountDays} days` +
-            (skontoTerms.netDays ? `, net ${skontoTerms.netDays} days` : '')
+    // Line rates, then the invoice's rate or the vendor default; the marker's rate is the last resort
+    const invoiceRate = resolveInvoiceTaxRate(invoice, vendorMemory, detected.rate) ?? {
+        rate: detected.rate,
+        source: 'fallback' as const,
+    };
+    const lineRates = resolveLineTaxRates(invoice, invoiceRate);
+    const lineSummary = summarizeLineTaxes(invoice, lineRates, true);
+    const lineTotal = invoice.lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    // The total rawText states is the gross the VAT is part of; extraction may have misread it
+    const statedTotal = rawText.fields.totalAmount?.normalized;
+    const gross = typeof statedTotal === 'number' && statedTotal > 0 ? statedTotal : invoice.totalAmount;
+    if (!amountsMatch(gross, invoice.totalAmount)) {
+        result.notes.push(
+            `Using rawText ${rawText.fields.totalAmount?.label} ${gross.toFixed(2)} as gross ` +
+            `instead of extracted total ${invoice.totalAmount.toFixed(2)}`
         );
-
-        corrections.push({
-            field: 'paymentTerms',
-            originalValue: JSON.stringify(invoice.paymentTerms || {}),
-            proposedValue: JSON.stringify(skontoTerms),
-            confidence: 0.8,
-            reasoning: `Freight & Co: Extracted Skonto terms from invoice`,
-            source: vendorMemory?.id,
-            autoApplied: true,
-        });
     }
 
-    // Rule 2: Map shipping/freight descriptions to FREIGHT SKU
-    for (let i = 0; i < invoice.lineItems.length; i++) {
-        const item = invoice.lineItems[i];
-        const isShipping = isShippingLineItem(item.description);
-
-        if (isShipping && !item.productCode) {
-            const confidence = vendorMemory
-                ? Math.min(vendorMemory.confidence + 0.2, 0.95)
-                : 0.7;
-
-            corrections.push({
-                field: `lineItems[${i}].productCode`,
-                originalValue: item.productCode || '',
-                proposedValue: 'FREIGHT',
+    // Split by rate only when the lines mix rates and add up to the gross total
+    const perLine = lineSummary !== undefined && lineSummary.length > 1 && amountsMatch(lineTotal, gross, 0.01);
+    const summary = perLine
+        ? lineSummary
+        : buildTaxSummary([{ amount: gross, rate: invoiceRate.rate, lineIndex: -1 }], true);
+    const totals = sumTaxSummary(summary);
+
+    const rateText = perLine
+        ? describeTaxSummary(summary)
+        : `at ${invoiceRate.rate}% (${describeTaxRateSource(invoiceRate.source)})`;
+    const confidence = ruleConfidence(rule.confidence, vendorMemory);
+    const askHuman = recomputationRule === 'askHuman';
+    const autoApplied = !askHuman && confidence >= autoApplyThreshold;
+    const reviewNote = askHuman ? ' - review required (askHuman)' : '';
+
+    result.corrections.push({
+        field: 'taxAmount',
+        originalValue: '0',
+        proposedValue: totals.taxAmount.toFixed(2),
+        confidence,
+        reasoning: `${vendorLabel}: Detected "${detected.marker}" - Recomputed VAT ${rateText}${reviewNote}`,
+        source: vendorMemory?.id,
+        autoApplied,
+    });
+
+    result.corrections.push({
+        field: 'netAmount',
+        originalValue: invoice.totalAmount.toFixed(2),
+        proposedValue: totals.netAmount.toFixed(2),
+        confidence,
+        reasoning: `${vendorLabel}: Net amount after VAT extraction (${summary.map((entry) => `${entry.rate}%`).join(', ')})${reviewNote}`,
+        source: vendorMemory?.id,
+        autoApplied,
+    });
+
+    // Lines without a rate of their own on a mixed-rate invoice
+    if (perLine) {
+        lineRates.forEach((lineRate, i) => {
+            if (!lineRate || lineRate.source === 'line') return;
+            const item = invoice.lineItems[i];
+            result.corrections.push({
+                field: `lineItems[${i}].taxRate`,
+                originalValue: '',
+                proposedValue: String(lineRate.rate),
                 confidence,
-                reasoning: `Freight & Co: Mapped shipping description "${item.description}" to SKU FREIGHT`,
+                reasoning:
+                    `${vendorLabel}: Line ${i + 1} "${item.description}" has no VAT rate; ` +
+                    `taxed at ${lineRate.rate}% (${describeTaxRateSource(lineRate.source)})${reviewNote}`,
                 source: vendorMemory?.id,
-                autoApplied: confidence >= autoApplyThreshold,
+                autoApplied,
             });
+        });
+    }
 
-            notes.push(
-                `Suggested SKU "FREIGHT" for line item: "${item.description}" (confidence: ${(confidence * 100).toFixed(0)}%)`
-            );
-        }
+    if (!perLine && invoiceRate.rate !== detected.rate) {
+        result.notes.push(
+            `Using ${invoiceRate.rate}% (${describeTaxRateSource(invoiceRate.source)}) instead of ` +
+            `the ${detected.rate}% of marker "${detected.marker}"`
+        );
+    }
+    result.notes.push(
+        `VAT included detected: "${detected.marker}". ` +
+        `Gross: ${gross.toFixed(2)}, Net: ${totals.netAmount.toFixed(2)}, ` +
+        `VAT: ${totals.taxAmount.toFixed(2)} (${rateText})`
+    );
+}
+
+/**
+ * Take a missing currency from rawText
+ */
+function applyCurrencyExtraction(rule: CurrencyExtractionRule, context: RuleContext, result: RuleResult): void {
+    const { invoice, vendorMemory, autoApplyThreshold, rawText, vendorLabel } = context;
+    if (invoice.currency && invoice.currency !== 'UNKNOWN') return;
+    if (!invoice.rawText) return;
+
+    // Vendor patterns cover phrasings the parser does not know
+    const text = invoice.rawText;
+    const extractedCurrency =
+        rawText.currency ?? rule.patterns.find((p) => compileRulePattern(p).test(text))?.currency;
+    if (!extractedCurrency) return;
+
+    // Higher confidence if vendor memory confirms typical currency
+    let confidence = rule.confidence;
+    if (vendorMemory?.behaviors?.defaultCurrency === extractedCurrency) {
+        confidence = rule.confirmedConfidence;
+        result.notes.push(`Currency "${extractedCurrency}" confirmed by vendor memory`);
     }
 
-    return { corrections, notes, paymentTerms: skontoTerms || undefined };
+    result.corrections.push({
+        field: 'currency',
+        originalValue: invoice.currency || 'UNKNOWN',
+        proposedValue: extractedCurrency,
+        confidence,
+        reasoning: `${vendorLabel}: Extracted currency "${extractedCurrency}" from invoice text`,
+        source: vendorMemory?.id,
+        autoApplied: confidence >= autoApplyThreshold,
+    });
+
+    result.notes.push(`Extracted currency "${extractedCurrency}" from rawText`);
+}
+
+// =============================================================================
+// Payment Terms and Line Item Rules
+// =============================================================================
+
+/**
+ * Detect Skonto terms and store them as structured data
+ */
+function applySkonto(rule: SkontoRule, context: RuleContext, result: RuleResult): void {
+    const { invoice, vendorMemory, autoApplyThreshold, vendorLabel } = context;
+    const skontoTerms = detectSkontoTerms(rule, invoice, context.rawText);
+    if (!skontoTerms) return;
+
+    result.notes.push(
+        `Detected Skonto terms: ${skontoTerms.discountPercent}% within ${skontoTerms.discountDays} days` +
+        (skontoTerms.netDays ? `, net ${skontoTerms.netDays} days` : '')
+    );
+
+    result.corrections.push({
+        field: 'paymentTerms',
+        originalValue: JSON.stringify(invoice.paymentTerms || {}),
+        proposedValue: JSON.stringify(skontoTerms),
+        confidence: rule.confidence,
+        reasoning: `${vendorLabel}: Extracted Skonto terms from invoice`,
+        source: vendorMemory?.id,
+        autoApplied: rule.alwaysApply === true || rule.confidence >= autoApplyThreshold,
+    });
+
+    result.paymentTerms = skontoTerms;
 }
 
 /**
- * Detect Skonto payment terms from invoice
+ * Detect Skonto payment terms in rawText, then with the rule's patterns in rawText and metadata
  */
-function detectSkontoTerms(invoice: InvoiceInput): {
-    discountPercent: number;
-    discountDays: number;
-    netDays?: number;
-} | null {
+function detectSkontoTerms(rule: SkontoRule, invoice: InvoiceInput, parsed: ParsedRawText): PaymentTerms | null {
+    if (parsed.skonto) {
+        const { discountPercent, discountDays, netDays } = parsed.skonto;
+        return { discountPercent, discountDays, netDays };
+    }
+
     const rawText = invoice.rawText || '';
     const metadata = invoice.metadata || {};
     const searchText = rawText + ' ' + JSON.stringify(metadata);
 
-    // Pattern: "2% Skonto within 14 days" or "2% Skonto innerhalb 14 Tagen"
-    const skontoPatterns = [
-        /(\d+(?:[.,]\d+)?)\s*%\s*skonto\s*(?:within|innerhalb|bei\s+zahlung\s+binnen)\s*(\d+)\s*(?:days?|tage?n?)/i,
-        /skonto\s*(\d+(?:[.,]\d+)?)\s*%\s*(?:within|innerhalb|bei\s+zahlung\s+binnen)\s*(\d+)\s*(?:days?|tage?n?)/i,
-        /(\d+(?:[.,]\d+)?)\s*%\s*(?:discount|rabatt)\s*(?:within|innerhalb)\s*(\d+)\s*(?:days?|tage?n?)/i,
-    ];
-
-    for (const pattern of skontoPatterns) {
-        const match = searchText.match(pattern);
+    for (const rulePattern of rule.patterns) {
+        const match = searchText.match(compileRulePattern(rulePattern));
         if (match) {
-            const discountPercent = parseFloat(match[1].replace(',', '.'));
+            const discountPercent = parseAmount(match[1])?.amount;
+            if (discountPercent === undefined) continue;
             const discountDays = parseInt(match[2], 10);
 
             // Try to find net payment days
-            const netPattern = /(?:net|netto)\s*(?:within|innerhalb)?\s*(\d+)\s*(?:days?|tage?n?)/i;
-            const netMatch = searchText.match(netPattern);
+            const netMatch = rule.netDaysPattern ? searchText.match(compileRulePattern(rule.netDaysPattern)) : null;
             const netDays = netMatch ? parseInt(netMatch[1], 10) : undefined;
 
             return { discountPercent, discountDays, netDays };
@@ -582,22 +611,34 @@ function detectSkontoTerms(invoice: InvoiceInput): {
 }
 
 /**
- * Check if a line item description indicates shipping/freight
+ * Propose a SKU for line items without product code whose description matches
  */
-function isShippingLineItem(description: string): boolean {
-    const shippingPatterns = [
-        /seefracht/i,
-        /shipping/i,
-        /freight/i,
-        /fracht/i,
-        /versand/i,
-        /lieferung/i,
-        /transport/i,
-        /luftfracht/i,
-        /express\s*delivery/i,
-    ];
-
-    return shippingPatterns.some((pattern) => pattern.test(description));
+function applySkuMapping(rule: SkuMappingRule, context: RuleContext, result: RuleResult): void {
+    const { invoice, vendorMemory, autoApplyThreshold, vendorLabel } = context;
+    const patterns = rule.descriptionPatterns.map(compileRulePattern);
+
+    for (let i = 0; i < invoice.lineItems.length; i++) {
+        const item = invoice.lineItems[i];
+        const matches = patterns.some((pattern) => pattern.test(item.description));
+
+        if (matches && !item.productCode) {
+            const confidence = ruleConfidence(rule.confidence, vendorMemory);
+
+            result.corrections.push({
+                field: `lineItems[${i}].productCode`,
+                originalValue: item.productCode || '',
+                proposedValue: rule.sku,
+                confidence,
+                reasoning: `${vendorLabel}: Mapped ${rule.label} description "${item.description}" to SKU ${rule.sku}`,
+                source: vendorMemory?.id,
+                autoApplied: confidence >= autoApplyThreshold,
+            });
+
+            result.notes.push(
+                `Suggested SKU "${rule.sku}" for line item: "${item.description}" (confidence: ${(confidence * 100).toFixed(0)}%)`
+            );
+        }
+    }
 }
 
 // =============================================================================
@@ -630,10 +671,12 @@ export function createFieldMapping(
     sourceField: string,
     targetField: string,
     confidence: number = 0.5,
-    exampleValue?: string
+    exampleValue?: string,
+    source?: FieldMapping['source']
 ): FieldMapping {
     return {
         sourceField,
+        ...(source ? { source } : {}),
         targetField,
         confidence,
         occurrenceCount: 1,
@@ -0,0 +1,87 @@
+/**
+ * Vendor Merge & Split
+ *
+ * Repairs vendor identity in memory: merges a vendor that was forked into two
+ * vendor memories, or splits off a vendor that was wrongly merged into
+ * another. The record changes are made by MemoryStore; these functions add
+ * the audit log record and save.
+ */
+
+import { VendorMergeResult, VendorSplitSpec, VendorSplitResult } from '../types';
+import { MemoryStore } from '../memory';
+import { appendMemoryOperationToAuditLog } from './audit';
+
+/**
+ * Who made a merge or split, and why
+ */
+export interface VendorMaintenanceOptions {
+    userId?: string;
+    reason?: string;
+
+    /** Audit log file (defaults to data/audit-log.jsonl) */
+    auditLogPath?: string;
+}
+
+/**
+ * Merge a vendor memory into another, record it in the audit log and save memory
+ *
+ * @param sourceId Canonical ID of the vendor to merge (deactivated afterwards)
+ * @param targetId Canonical ID of the vendor to keep
+ */
+export async function mergeVendors(
+    memoryStore: MemoryStore,
+    sourceId: string,
+    targetId: string,
+    options: VendorMaintenanceOptions = {}
+): Promise<VendorMergeResult> {
+    const result = memoryStore.mergeVendorMemories(sourceId, targetId);
+
+    appendMemoryOperationToAuditLog(
+        'vendorMerge',
+        [
+            `Merged vendor "${result.source.canonicalName}" (${sourceId}) into ` +
+            `"${result.target.canonicalName}" (${targetId})${describeActor(options)}`,
+            `Re-pointed ${result.correctionIds.length} correction(s) and ` +
+            `${result.duplicateIds.length} duplicate record(s); ` +
+            `combined ${result.combinedCorrectionIds.length} correction(s) with an equivalent one of the target`,
+            ...result.notes,
+        ],
+        options.auditLogPath
+    );
+
+    await memoryStore.saveIfDirty();
+    return result;
+}
+
+/**
+ * Split part of a vendor memory off into a new vendor, record it in the audit log and save memory
+ *
+ * @param vendorId Canonical ID of the vendor to split
+ */
+export async function splitVendor(
+    memoryStore: MemoryStore,
+    vendorId: string,
+    spec: VendorSplitSpec,
+    options: VendorMaintenanceOptions = {}
+): Promise<VendorSplitResult> {
+    const result = memoryStore.splitVendorMemory(vendorId, spec);
+
+    appendMemoryOperationToAuditLog(
+        'vendorSplit',
+        [
+            `Split vendor "${result.created.canonicalName}" (${result.created.canonicalId}) off ` +
+            `"${result.source.canonicalName}" (${vendorId})${describeActor(options)}`,
+            `Moved ${result.created.nameVariations.length} name variation(s), ` +
+            `${Object.keys(result.created.fieldMappings).length} field mapping(s), ` +
+            `${result.correctionIds.length} correction(s) and ${result.duplicateIds.length} duplicate record(s)`,
+        ],
+        options.auditLogPath
+    );
+
+    await memoryStore.saveIfDirty();
+    return result;
+}
+
+function describeActor(options: VendorMaintenanceOptions): string {
+    return (options.userId ? ` by ${options.userId}` : '') + (options.reason ? `: ${options.reason}` : '');
+}
@@ -0,0 +1,212 @@
+/**
+ * Vendor Identity Resolution
+ *
+ * Finds the known vendor an invoice belongs to when its name is not an exact
+ * match for a vendor memory ("Supplier GmbH." or "Suppiler GmbH" for
+ * "Supplier GmbH"). Candidates are scored on name similarity after
+ * legal-form normalization, tax ID and address, so that a near match is
+ * proposed as a vendor.name correction instead of starting a new vendor
+ * memory.
+ */
+
+import { InvoiceInput, VendorMemory } from '../types';
+import { MemoryStore } from '../memory';
+import { calculateStringSimilarity } from '../utils';
+import { VENDOR_RESOLUTION } from '../config';
+
+/**
+ * A known vendor the invoice may belong to
+ */
+export interface VendorCandidate {
+    vendor: VendorMemory;
+
+    /** Match score (0-1) */
+    score: number;
+
+    /** What the score is based on (e.g., "tax ID matches") */
+    reasons: string[];
+}
+
+/**
+ * Outcome of resolving an invoice's vendor
+ */
+export interface VendorResolution {
+    /** Resolved vendor memory, if any */
+    vendor?: VendorMemory;
+
+    /** exact: name or a known variation matches; fuzzy: best candidate above the match threshold */
+    matchType: 'exact' | 'fuzzy' | 'none';
+
+    /** Score of the resolved vendor (1 for exact matches, 0 when unresolved) */
+    score: number;
+
+    /** Reasons for a fuzzy match */
+    reasons: string[];
+
+    /** Ranked candidates, best first */
+    candidates: VendorCandidate[];
+}
+
+/**
+ * Resolution thresholds (defaults from VENDOR_RESOLUTION)
+ */
+export interface VendorResolutionOptions {
+    matchThreshold?: number;
+    minCandidateScore?: number;
+    maxCandidates?: number;
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Resolve the vendor memory for an invoice's vendor
+ *
+ * Exact name matches win as before; otherwise all active vendor memories are
+ * scored and the best one is used when it reaches the match threshold.
+ */
+export function resolveVendor(
+    memoryStore: MemoryStore,
+    invoiceVendor: InvoiceInput['vendor'],
+    options: VendorResolutionOptions = {}
+): VendorResolution {
+    const matchThreshold = options.matchThreshold ?? VENDOR_RESOLUTION.MATCH_THRESHOLD;
+    const minCandidateScore = options.minCandidateScore ?? VENDOR_RESOLUTION.MIN_CANDIDATE_SCORE;
+    const maxCandidates = options.maxCandidates ?? VENDOR_RESOLUTION.MAX_CANDIDATES;
+
+    const exact = memoryStore.findVendorByName(invoiceVendor.name);
+    if (exact) {
+        return {
+            vendor: exact,
+            matchType: 'exact',
+            score: 1,
+            reasons: [],
+            candidates: [{ vendor: exact, score: 1, reasons: ['name matches'] }],
+        };
+    }
+
+    const candidates = Object.values(memoryStore.getData().vendorMemories)
+        .filter((vendor) => vendor.isActive)
+        .map((vendor) => scoreVendorCandidate(invoiceVendor, vendor))
+        .filter((candidate) => candidate.score >= minCandidateScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxCandidates);
+
+    const best = candidates[0];
+    if (best && best.score >= matchThreshold) {
+        return { vendor: best.vendor, matchType: 'fuzzy', score: best.score, reasons: best.reasons, candidates };
+    }
+
+    return { matchType: 'none', score: 0, reasons: [], candidates };
+}
+
+/**
+ * Score how likely an invoice's vendor is a known vendor
+ */
+export function scoreVendorCandidate(invoiceVendor: InvoiceInput['vendor'], vendor: VendorMemory): VendorCandidate {
+    const reasons: string[] = [];
+    const invoiceName = normalizeLegalForm(invoiceVendor.name);
+
+    // Best name similarity over the canonical name and known variations
+    let nameScore = 0;
+    let legalFormsDiffer = false;
+    for (const knownName of [vendor.canonicalName, ...vendor.nameVariations]) {
+        const known = normalizeLegalForm(knownName);
+        const similarity = calculateStringSimilarity(invoiceName.core, known.core);
+        if (similarity > nameScore) {
+            nameScore = similarity;
+            legalFormsDiffer =
+                invoiceName.legalForm !== '' && known.legalForm !== '' && invoiceName.legalForm !== known.legalForm;
+        }
+    }
+
+    let score = nameScore;
+    reasons.push(`name ${(nameScore * 100).toFixed(0)}% similar`);
+    if (invoiceVendor.address && vendor.address) {
+        const addressScore = calculateStringSimilarity(
+            normalizeAddress(invoiceVendor.address),
+            normalizeAddress(vendor.address)
+        );
+        score = score * (1 - VENDOR_RESOLUTION.ADDRESS_WEIGHT) + addressScore * VENDOR_RESOLUTION.ADDRESS_WEIGHT;
+        reasons.push(`address ${(addressScore * 100).toFixed(0)}% similar`);
+    }
+
+    // A different legal form is a different entity until a reviewer says otherwise
+    if (legalFormsDiffer) {
+        score = Math.min(score, VENDOR_RESOLUTION.LEGAL_FORM_MISMATCH_MAX_SCORE);
+        reasons.push('legal form differs');
+    }
+
+    // A tax ID identifies the legal entity, whatever the name says
+    if (invoiceVendor.taxId && vendor.taxId) {
+        if (normalizeTaxId(invoiceVendor.taxId) === normalizeTaxId(vendor.taxId)) {
+            score = Math.max(score, VENDOR_RESOLUTION.TAX_ID_MATCH_SCORE);
+            reasons.push('tax ID matches');
+        } else {
+            score *= VENDOR_RESOLUTION.TAX_ID_CONFLICT_FACTOR;
+            reasons.push('tax ID differs');
+        }
+    }
+
+    return { vendor, score: Math.round(score * 1000) / 1000, reasons };
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+/**
+ * Legal forms, as word sequences after punctuation is removed ("&" reads as "and")
+ */
+const LEGAL_FORMS = [
+    'gmbh and co kg', 'gmbh', 'mbh', 'ag', 'kg', 'ohg', 'gbr', 'ug', 'e k', 'ek', 'e v', 'ev',
+    'and co', 'co',
+    'ltd', 'limited', 'llc', 'llp', 'inc', 'incorporated', 'corp', 'corporation', 'plc',
+    'sa', 'sarl', 'sas', 'bv', 'nv', 'spa', 'srl', 'ab', 'oy',
+];
+
+const LEGAL_FORM_PATTERN = new RegExp(
+    `(?:^|\\s)(${LEGAL_FORMS.join('|')})(?=\\s|$)`,
+    'g'
+);
+
+/**
+ * Split a vendor name into its core name and legal form
+ *
+ * "Supplier GmbH." -> { core: "supplier", legalForm: "gmbh" };
+ * "Freight & Co" and "Freight and Co" -> { core: "freight", legalForm: "co" }
+ */
+export function normalizeLegalForm(name: string): { core: string; legalForm: string } {
+    const words = name
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+    const forms: string[] = [];
+    const core = words
+        .replace(LEGAL_FORM_PATTERN, (_match, form: string) => {
+            // "& Co" and "Co", "e.K." and "eK" are the same legal form
+            forms.push(form.replace(/^and /, '').replace(/\s/g, ''));
+            return ' ';
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    // A name that is nothing but a legal form is its own core
+    return { core: core || words, legalForm: forms.join(' ') };
+}
+
+function normalizeAddress(address: string): string {
+    return address
+        .toLowerCase()
+        .replace(/stra(?:ss|ß)e\b/g, 'str')
+        .replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeTaxId(taxId: string): string {
+    return taxId.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
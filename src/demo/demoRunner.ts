@@ -12,9 +12,12 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { processInvoice } from '../core/pipeline';
+import { processInvoice, PipelineOptions } from '../core/pipeline';
+import { loadReferenceData } from '../core/matching';
+import { learnFromHumanCorrection, resolveCorrectionField } from '../core/learning';
 import { MemoryStore } from '../memory/MemoryStore';
-import { InvoiceInput, InvoiceDecisionOutput } from '../types';
+import { journalPathFor } from '../memory/storage';
+import { InvoiceInput, InvoiceDecisionOutput, HumanCorrectionRecord } from '../types';
 
 // Paths
 const DATA_DIR = path.join(process.cwd(), 'invoices');
@@ -40,11 +43,13 @@ async function runDemo() {
     console.log(`${colors.bright}Setting up demo environment...${colors.reset}`);
     if (fs.existsSync(DEMO_MEMORY_PATH)) {
         fs.unlinkSync(DEMO_MEMORY_PATH);
+        fs.rmSync(journalPathFor(DEMO_MEMORY_PATH), { force: true });
         console.log('Cleared previous demo memory.');
     }
 
     const invoices = loadJson<InvoiceInput[]>('invoices_extracted.json');
-    const corrections = loadJson<any[]>('human_corrections.json');
+    const corrections = loadJson<HumanCorrectionRecord[]>('human_corrections.json');
+    const options: PipelineOptions = { referenceData: loadReferenceData(DATA_DIR) };
 
     // Initialize memory store
     const memoryStore = new MemoryStore(DEMO_MEMORY_PATH);
@@ -56,7 +61,8 @@ async function runDemo() {
         'Scenario 1: Supplier GmbH - Learning Field Mapping',
         [invoices[0], invoices[2]], // INV-A-001 (Learn), INV-A-003 (Apply)
         memoryStore,
-        corrections
+        corrections,
+        options
     );
 
     // 3. Scenario 2: Parts AG - VAT & Currency Learning
@@ -64,7 +70,8 @@ async function runDemo() {
         'Scenario 2: Parts AG - VAT Correction & Currency',
         [invoices[4], invoices[6]], // INV-B-001 (Learn), INV-B-003 (Apply)
         memoryStore,
-        corrections
+        corrections,
+        options
     );
 
     // 4. Scenario 3: Freight & Co - Skonto & SKU Mapping
@@ -72,7 +79,8 @@ async function runDemo() {
         'Scenario 3: Freight & Co - Skonto & SKU Mapping',
         [invoices[8], invoices[9]], // INV-C-001 (Learn), INV-C-002 (Apply)
         memoryStore,
-        corrections
+        corrections,
+        options
     );
 
     // 5. Scenario 4: Duplicate Detection
@@ -80,7 +88,8 @@ async function runDemo() {
         'Scenario 4: Duplicate Detection',
         invoices[6], // INV-B-003 (Original)
         invoices[7], // INV-B-004 (Duplicate of B-003, PA-7810)
-        memoryStore
+        memoryStore,
+        options
     );
 
     console.log(`\n${colors.bright}${colors.green}Demo completed successfully!${colors.reset}`);
@@ -91,7 +100,8 @@ async function runScenario(
     title: string,
     scenarioInvoices: InvoiceInput[],
     memoryStore: MemoryStore,
-    allCorrections: any[]
+    allCorrections: HumanCorrectionRecord[],
+    options: PipelineOptions
 ) {
     console.log(`${colors.bright}${colors.blue}-------------------------------------------------${colors.reset}`);
     console.log(`${colors.bright}${colors.blue}${title}${colors.reset}`);
@@ -102,7 +112,7 @@ async function runScenario(
     console.log(`${colors.yellow}► Processing Invoice 1: ${inv1.invoiceNumber} (${inv1.vendor.name})${colors.reset}`);
 
     // Process
-    let result1 = await processInvoice(inv1, memoryStore);
+    let result1 = await processInvoice(inv1, memoryStore, options);
     printResultSummary(result1);
 
     // Human Correction
@@ -110,45 +120,14 @@ async function runScenario(
     if (humanInput) {
         console.log(`\n${colors.bright}Applying Human Corrections:${colors.reset}`);
         for (const corr of humanInput.corrections) {
-            console.log(` - Corrected ${colors.cyan}${corr.field}${colors.reset}: ${corr.from} -> ${colors.green}${corr.to}${colors.reset} (${corr.reason})`);
-
-            // Simulate learning (this normally happens in the API layer)
-            // We need to construct what the correction memory would look like
-
-            if (corr.field === 'serviceDate' || corr.field === 'currency') {
-                // Field Mapping or simple field fix
-                if (inv1.vendor.id) { // Ensure vendor ID exists
-                    // For mapping, we need the source field. roughly guessing from reason or raw text
-                    // In a real app, the UI would tell us "mapped X to Y"
-                    // Here we'll simulate adding a memory directly for demonstration
-
-                    /* 
-                       Note: In the real app, the learnFromOutcome function handles this.
-                       To demonstrate "learning", we must ensure learnFromOutcome was called or we manually reinforce.
-                       processInvoice outputs memoryUpdates, but they are 'pending' until saved/confirmed.
-                       But wait, processInvoice Phase 4 IS 'Learn'. It returns updates that *were* performed.
-                       However, for *new* patterns like mapping 'Leistungsdatum', the system needs to be TOLD 
-                       that 'Leistungsdatum' maps to 'serviceDate'.
-                       
-                       For this demo, we will simulate the behavior of the "Feedback Loop":
-                       1. User updates the invoice.
-                       2. System records this as a correction.
-                       3. System learns.
-                    */
-
-                    // Manually inject the learning for the demo if it wasn't auto-learned
-                    // Logic: If we fixed serviceDate, and rawText had "Leistungsdatum", learn the mapping.
-                }
-            }
+            console.log(` - Corrected ${colors.cyan}${corr.field}${colors.reset}: ${String(corr.from)} -> ${colors.green}${String(corr.to)}${colors.reset} (${corr.reason})`);
         }
 
-        // RE-PROCESS to simulate "User verified and saved" which triggers reinforcement
-        // For the demo, we'll check the 'memoryUpdates' from result1.
-        // If the system didn't propose the correction, we need to manually teach it.
+        // Feed the reviewer's edits back into memory
+        const learning = await learnFromHumanCorrection(memoryStore, inv1, humanInput);
+        learning.notes.forEach(note => console.log(`   ${note}`));
 
         if (humanInput.finalDecision === 'approved') {
-            // Simulate "Teaching" - manually adding memories that would be learned from human correction
-            await simulateLearningFromHuman(inv1, humanInput, memoryStore);
             console.log(`${colors.green}✓ Learned from human corrections.${colors.reset}\n`);
         }
     } else {
@@ -159,13 +138,13 @@ async function runScenario(
     const inv2 = scenarioInvoices[1];
     if (inv2) {
         console.log(`${colors.yellow}► Processing Invoice 2: ${inv2.invoiceNumber} (${inv2.vendor.name})${colors.reset}`);
-        const result2 = await processInvoice(inv2, memoryStore);
+        const result2 = await processInvoice(inv2, memoryStore, options);
         printResultSummary(result2);
 
         // Check if previously corrected fields are now auto-corrected
         if (humanInput) {
             console.log(`${colors.bright}Verifying Learning:${colors.reset}`);
-            const learnedFields = humanInput.corrections.map((c: any) => c.field);
+            const learnedFields = humanInput.corrections.map(c => resolveCorrectionField(c.field));
             const appliedCorrections = result2.proposedCorrections.filter(c => learnedFields.includes(c.field));
 
             if (appliedCorrections.length > 0) {
@@ -185,7 +164,8 @@ async function runDuplicateScenario(
     title: string,
     original: InvoiceInput,
     duplicate: InvoiceInput,
-    memoryStore: MemoryStore
+    memoryStore: MemoryStore,
+    options: PipelineOptions
 ) {
     console.log(`${colors.bright}${colors.blue}-------------------------------------------------${colors.reset}`);
     console.log(`${colors.bright}${colors.blue}${title}${colors.reset}`);
@@ -193,12 +173,12 @@ async function runDuplicateScenario(
 
     // Process Original
     console.log(`${colors.yellow}► Processing Original: ${original.invoiceNumber}${colors.reset}`);
-    await processInvoice(original, memoryStore); // Just process to store it
+    await processInvoice(original, memoryStore, options); // Just process to store it
     console.log("Original processed and stored.\n");
 
     // Process Duplicate
     console.log(`${colors.yellow}► Processing Duplicate: ${duplicate.invoiceNumber}${colors.reset}`);
-    const result = await processInvoice(duplicate, memoryStore);
+    const result = await processInvoice(duplicate, memoryStore, options);
 
     printResultSummary(result);
 
@@ -210,58 +190,6 @@ async function runDuplicateScenario(
     console.log('');
 }
 
-async function simulateLearningFromHuman(invoice: InvoiceInput, correctionData: any, memoryStore: MemoryStore) {
-    // This helper simulates the complex logic of "Analyzing a human edit to find a pattern"
-    // In a real system, this is a separate heavy component.
-    // Here we strictly map the known demo corrections to memory entries.
-
-    const vendorId = invoice.vendor.id || 'unknown';
-
-    for (const corr of correctionData.corrections) {
-        // 1. Field Mapping: Leistungsdatum -> serviceDate
-        if (corr.field === 'serviceDate' && corr.reason.includes('Leistungsdatum')) {
-            memoryStore.updateVendorMemory(vendorId, {
-                fieldMapping: {
-                    sourceField: 'Leistungsdatum',
-                    targetField: 'serviceDate',
-                    confidence: 0.8, // Boosted for demo
-                    occurrenceCount: 1,
-                    exampleValues: [corr.to]
-                }
-            });
-        }
-
-        // 2. Parts AG: VAT Correction
-        if (corr.field === 'taxTotal' || corr.field === 'grossTotal') {
-            // Reinforce Parts AG behavior
-            // We assume the logic inside Parts AG rules will pick up if we reinforce the *vendor* generally
-            // Or specifically, we might restart a rule.
-            // For now, let's just use the existing reinforceMemory if a memory existed, 
-            // or rely on the pipeline's 'Learn' phase which should have been called.
-
-            // Actually, for Parts AG, the rules are heuristic/vendor specific code in `vendorRules.ts`.
-            // They rely on `vendorMemory.confidence`.
-            // So we just reinforce the vendor memory.
-            const mem = memoryStore.getVendorMemory(vendorId);
-            if (mem) {
-                memoryStore.reinforceMemory(mem.id);
-            }
-        }
-
-        // 3. Freight & Co: SKU Mapping
-        if (corr.field.includes('sku') && corr.to === 'FREIGHT') {
-            // This is handled by a heuristic in `vendorRules.ts` that checks vendor confidence.
-            // So reinforcing the vendor memory helps.
-            const mem = memoryStore.getVendorMemory(vendorId);
-            if (mem) {
-                memoryStore.reinforceMemory(mem.id);
-            }
-        }
-    }
-
-    await memoryStore.saveIfDirty();
-}
-
 function printResultSummary(result: InvoiceDecisionOutput) {
     console.log(`   reviewRequired: ${result.requiresHumanReview ? colors.red + 'YES' + colors.reset : colors.green + 'NO' + colors.reset}`);
     console.log(`   confidence:     ${(result.confidenceScore * 100).toFixed(0)}%`);
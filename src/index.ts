@@ -26,7 +26,7 @@ async function main(): Promise<void> {
     const store = memoryManager.getStore();
     logger.info('System initialized successfully');
     logger.info(`Memory store version: ${store.schemaVersion}`);
-    logger.info(`Vendors in memory: ${Object.keys(store.vendors).length}`);
+    logger.info(`Vendors in memory: ${Object.keys(store.vendorMemories).length}`);
     logger.info(`Total invoices processed: ${store.stats.totalInvoicesProcessed}`);
     logger.info(`Average confidence: ${(store.stats.averageConfidence * 100).toFixed(1)}%`);
     logger.info(`Decision engine ready: ${decisionEngine ? 'yes' : 'no'}`);
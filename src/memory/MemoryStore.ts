@@ -5,8 +5,6 @@
  * Handles loading, saving, and CRUD operations for all memory types.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
 import {
     MemoryStoreData,
     VendorMemory,
@@ -17,40 +15,57 @@ import {
     VendorBehavior,
     CorrectionPattern,
     HumanDecision,
+    MemoryEvent,
+    MemoryEventType,
+    MemoryRecord,
+    MemoryStateSnapshot,
+    MemoryUpdate,
+    MemoryUpdateResult,
+    VendorMergeResult,
+    VendorSplitSpec,
+    VendorSplitResult,
 } from '../types';
-import { getTimestamp, generateId, generateHash, logger } from '../utils';
+import { getTimestamp, generateId, generateHash, dateMonthKey, logger, withFileLock } from '../utils';
+import { CONCURRENCY } from '../config';
 import {
     initialConfidence,
     reinforce,
     penalize,
-    applyDecay,
     shouldDeactivate,
 } from './confidence';
+import { applyMemoryUpdates, decayRecord } from './updateApplier';
+import { createEmptyStoreData } from './migrations';
+import {
+    MemoryConflictPolicy,
+    MemoryConflictError,
+    changeKeyOf,
+    mergeStoreData,
+    snapshotRecords,
+} from './concurrency';
+import {
+    MemoryStorageAdapter,
+    MemoryJournal,
+    JsonFileStorageOptions,
+    StorageAdapterKind,
+    InMemoryStorageAdapter,
+    createStorageAdapter,
+    createRecordEvent,
+    createStatsEvent,
+    replayEvents,
+} from './storage';
 
 /**
- * Default paths for memory storage
+ * Options for the memory store
  */
-const DEFAULT_MEMORY_PATH = path.join(process.cwd(), 'data', 'memory.json');
-const SCHEMA_VERSION = '2.0.0';
+export interface MemoryStoreOptions extends JsonFileStorageOptions {
+    /** Built-in adapter to use when none is passed (defaults to PERSISTENCE.ADAPTER) */
+    adapter?: StorageAdapterKind;
 
-/**
- * Creates an empty memory store with the correct schema
- */
-function createEmptyStore(): MemoryStoreData {
-    return {
-        schemaVersion: SCHEMA_VERSION,
-        lastUpdated: getTimestamp(),
-        vendorMemories: {},
-        correctionMemories: [],
-        resolutionMemories: [],
-        duplicates: [],
-        stats: {
-            totalInvoicesProcessed: 0,
-            totalCorrectionsApplied: 0,
-            totalHumanReviewsRequested: 0,
-            averageConfidence: 0,
-        },
-    };
+    /** Lock the storage file while loading and saving (defaults to CONCURRENCY.LOCKING) */
+    locking?: boolean;
+
+    /** Handling of saves made by other writers since load (defaults to CONCURRENCY.ON_CONFLICT) */
+    onConflict?: MemoryConflictPolicy;
 }
 
 /**
@@ -58,12 +73,33 @@ function createEmptyStore(): MemoryStoreData {
  */
 export class MemoryStore {
     private data: MemoryStoreData;
-    private filePath: string;
+    private storage: MemoryStorageAdapter;
+    private journal?: MemoryJournal;
+    private pendingEvents: MemoryEvent[] = [];
     private isDirty: boolean = false;
+    private locking: boolean;
+    private onConflict: MemoryConflictPolicy;
+
+    /** Revision, statistics and records as of the last load/save, and records changed since */
+    private baseRevision = 0;
+    private baseStats: MemoryStoreData['stats'];
+    private baseRecords = new Map<string, MemoryRecord>();
+    private changedKeys = new Set<string>();
 
-    constructor(filePath?: string) {
-        this.filePath = filePath || DEFAULT_MEMORY_PATH;
-        this.data = createEmptyStore();
+    /**
+     * @param pathOrAdapter File path for the built-in file adapters, or a storage adapter
+     * @param options Adapter selection and JSON file options
+     */
+    constructor(pathOrAdapter?: string | MemoryStorageAdapter, options: MemoryStoreOptions = {}) {
+        this.storage =
+            typeof pathOrAdapter === 'object'
+                ? pathOrAdapter
+                : createStorageAdapter(options.adapter, pathOrAdapter, options);
+        this.journal = this.storage.journal;
+        this.locking = options.locking ?? CONCURRENCY.LOCKING;
+        this.onConflict = options.onConflict ?? CONCURRENCY.ON_CONFLICT;
+        this.data = createEmptyStoreData();
+        this.baseStats = { ...this.data.stats };
     }
 
     // ===========================================================================
@@ -71,56 +107,43 @@ export class MemoryStore {
     // ===========================================================================
 
     /**
-     * Load memory store from disk
+     * Load memory store from storage (migrating older schemas)
      */
     async loadFromDisk(): Promise<void> {
-        try {
-            const dir = path.dirname(this.filePath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
+        await this.withStorageLock(async () => {
+            const result = await this.storage.load();
+
+            if (!result) {
+                // Nothing stored (or only a corrupt file): there is nothing to reconcile with
+                this.data = createEmptyStoreData();
+                this.markPersisted();
+                await this.writeToStorage({ reconcile: false });
+                logger.info('Initialized new memory store');
+                return;
             }
 
-            if (fs.existsSync(this.filePath)) {
-                const raw = fs.readFileSync(this.filePath, 'utf-8');
-                const loaded = JSON.parse(raw) as MemoryStoreData;
-
-                // Handle schema migration if needed
-                if (loaded.schemaVersion !== SCHEMA_VERSION) {
-                    logger.warn(`Schema version mismatch: ${loaded.schemaVersion} -> ${SCHEMA_VERSION}`);
-                    this.data = this.migrateSchema(loaded);
-                } else {
-                    this.data = loaded;
-                }
-
-                logger.info(`Memory store loaded from ${this.filePath}`);
-            } else {
-                this.data = createEmptyStore();
-                await this.saveToDisk();
-                logger.info('Initialized new memory store');
+            this.data = result.data;
+            this.markPersisted();
+            await this.startJournalIfEmpty();
+            if (result.migrated) {
+                logger.info(`Migrated memory store ${result.fromVersion} -> ${result.data.schemaVersion}`);
+                await this.writeToStorage();
             }
-        } catch (error) {
-            logger.error(`Failed to load memory store from ${this.filePath}`, error);
-            // Fallback to empty store on corruption to allow app to start
-            // In production, might want to backup the corrupted file first
-            this.data = createEmptyStore();
-            logger.warn('Initialized empty store due to load error');
-        }
+
+            logger.info(`Memory store loaded from ${this.storage.description}`);
+        });
     }
 
     /**
-     * Save memory store to disk
+     * Save memory store to storage
+     *
+     * If another writer saved since this store was loaded, local changes are
+     * merged into the stored data, or the save fails with MemoryConflictError
+     * under the 'reject' policy (reload and redo the changes to recover).
      */
     async saveToDisk(): Promise<void> {
         try {
-            const dir = path.dirname(this.filePath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            this.data.lastUpdated = getTimestamp();
-            const json = JSON.stringify(this.data, null, 2);
-            fs.writeFileSync(this.filePath, json, 'utf-8');
-            this.isDirty = false;
+            await this.withStorageLock(() => this.writeToStorage());
             logger.debug('Memory store saved successfully');
         } catch (error) {
             logger.error('Failed to save memory store', error);
@@ -129,19 +152,162 @@ export class MemoryStore {
     }
 
     /**
-     * Migrate from older schema versions
+     * Write the store (the caller holds the storage lock)
      */
-    private migrateSchema(oldData: MemoryStoreData): MemoryStoreData {
-        // TODO: Implement actual migration logic when schema changes
-        logger.info('Migrating memory store schema...');
+    private async writeToStorage(options: { reconcile?: boolean } = {}): Promise<void> {
+        if (options.reconcile ?? true) {
+            await this.reconcileWithStorage();
+        }
 
-        // For now, preserve existing data and update version
-        return {
-            ...createEmptyStore(),
-            ...oldData,
-            schemaVersion: SCHEMA_VERSION,
-            lastUpdated: getTimestamp(),
-        };
+        this.data.revision += 1;
+        this.data.lastUpdated = getTimestamp();
+        await this.storage.save(this.data);
+        this.isDirty = false;
+        this.markPersisted();
+
+        if (this.journal && this.pendingEvents.length > 0) {
+            const events = this.pendingEvents;
+            this.pendingEvents = [];
+            try {
+                await this.journal.append(events);
+            } catch (error) {
+                // Keep the events so the next save retries them
+                this.pendingEvents = [...events, ...this.pendingEvents];
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Check the stored revision and bring in saves made by other writers
+     */
+    private async reconcileWithStorage(): Promise<void> {
+        const stored = await this.storage.load();
+        if (!stored || stored.data.revision === this.baseRevision) return;
+
+        if (this.onConflict === 'reject') {
+            throw new MemoryConflictError(this.storage.description, this.baseRevision, stored.data.revision);
+        }
+
+        this.data = mergeStoreData(stored.data, this.data, this.changedKeys, this.baseStats, this.baseRecords);
+        if (this.journal) {
+            this.pendingEvents.push(createStatsEvent(this.data.stats));
+        }
+        logger.info(
+            `Merged ${this.changedKeys.size} changed record(s) into ${this.storage.description} ` +
+            `(revision ${this.baseRevision} -> ${stored.data.revision})`
+        );
+    }
+
+    /**
+     * Remember the current state as the one in storage
+     */
+    private markPersisted(): void {
+        this.baseRevision = this.data.revision;
+        this.baseStats = { ...this.data.stats };
+        this.baseRecords = snapshotRecords(this.allRecords());
+        this.changedKeys.clear();
+    }
+
+    private withStorageLock<T>(fn: () => Promise<T>): Promise<T> {
+        const lockPath = this.storage.lockPath;
+        if (!lockPath) {
+            return fn();
+        }
+        return withFileLock(lockPath, fn, { enabled: this.locking });
+    }
+
+    // ===========================================================================
+    // Journal & Time Travel
+    // ===========================================================================
+
+    /**
+     * Record the state of a record after a mutation
+     */
+    private track(type: MemoryEventType, record: MemoryRecord): void {
+        this.changedKeys.add(changeKeyOf(record));
+        if (this.journal) {
+            this.pendingEvents.push(createRecordEvent(type, record));
+        }
+    }
+
+    /**
+     * Seed an empty journal with the loaded records so replay starts from them
+     */
+    private async startJournalIfEmpty(): Promise<void> {
+        if (!this.journal || !(await this.journal.isEmpty())) return;
+
+        const records = this.allRecords();
+        if (records.length === 0) return;
+
+        await this.journal.append([
+            ...records.map((record) => createRecordEvent('baseline', record)),
+            createStatsEvent(this.data.stats, 'baseline'),
+        ]);
+        logger.info(`Started memory journal with ${records.length} baseline record(s)`);
+    }
+
+    /**
+     * Read all journal events, including those not yet flushed by a save
+     */
+    async readJournal(): Promise<MemoryEvent[]> {
+        if (!this.journal) {
+            throw new Error(`Memory journal is disabled for ${this.storage.description}`);
+        }
+        return [...(await this.journal.read()), ...this.pendingEvents];
+    }
+
+    /**
+     * Rebuild the store by replaying the journal
+     */
+    async rebuildFromJournal(): Promise<void> {
+        const events = await this.readJournal();
+        const revision = this.data.revision;
+        this.data = replayEvents(events);
+        this.data.revision = revision;
+        for (const record of this.allRecords()) {
+            this.changedKeys.add(changeKeyOf(record));
+        }
+        this.isDirty = true;
+        logger.info(`Rebuilt memory store from ${events.length} journal event(s)`);
+    }
+
+    /**
+     * Materialize the memory state as of a point in time
+     *
+     * @returns A detached, in-memory store holding the state at that time
+     */
+    async materializeAt(timestamp: string | Date): Promise<MemoryStore> {
+        const until = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+        if (isNaN(until.getTime())) {
+            throw new Error(`Invalid timestamp: ${String(timestamp)}`);
+        }
+
+        const data = replayEvents(await this.readJournal(), until);
+        const snapshot = new MemoryStore(new InMemoryStorageAdapter(data, { journal: false }));
+        await snapshot.loadFromDisk();
+        return snapshot;
+    }
+
+    /**
+     * Journal events for one record (by ID, or canonical ID for vendors)
+     */
+    async getRecordHistory(recordId: string): Promise<MemoryEvent[]> {
+        return (await this.readJournal()).filter(
+            (event) => event.recordKey === recordId || event.after?.id === recordId
+        );
+    }
+
+    /**
+     * All records across memory types
+     */
+    private allRecords(): MemoryRecord[] {
+        return [
+            ...Object.values(this.data.vendorMemories),
+            ...this.data.correctionMemories,
+            ...this.data.resolutionMemories,
+            ...this.data.duplicates,
+        ];
     }
 
     /**
@@ -192,9 +358,15 @@ export class MemoryStore {
             fieldMapping?: FieldMapping;
             behavior?: Partial<VendorBehavior>;
             taxId?: string;
+            address?: string;
         }
     ): VendorMemory {
-        const existing = this.data.vendorMemories[vendorId];
+        let existing = this.data.vendorMemories[vendorId];
+
+        // Learning about a merged vendor goes to the vendor it was merged into
+        while (existing?.mergedInto && this.data.vendorMemories[existing.mergedInto]) {
+            existing = this.data.vendorMemories[existing.mergedInto];
+        }
 
         if (existing) {
             // Update existing vendor
@@ -213,11 +385,15 @@ export class MemoryStore {
             if (updates.taxId) {
                 existing.taxId = updates.taxId;
             }
+            if (updates.address) {
+                existing.address = updates.address;
+            }
 
             existing.updatedAt = getTimestamp();
             existing.confidence = reinforce(existing.confidence);
             existing.reinforcementCount += 1;
 
+            this.track('updateVendorMemory', existing);
             this.isDirty = true;
             return existing;
         } else {
@@ -239,9 +415,11 @@ export class MemoryStore {
                     : {},
                 behaviors: updates.behavior || {},
                 taxId: updates.taxId,
+                address: updates.address,
             };
 
             this.data.vendorMemories[vendorId] = newVendor;
+            this.track('updateVendorMemory', newVendor);
             this.isDirty = true;
             return newVendor;
         }
@@ -255,10 +433,275 @@ export class MemoryStore {
         if (vendor) {
             vendor.fieldMappings[mapping.sourceField] = mapping;
             vendor.updatedAt = getTimestamp();
+            this.track('addVendorFieldMapping', vendor);
             this.isDirty = true;
         }
     }
 
+    // ===========================================================================
+    // Vendor Merge & Split
+    // ===========================================================================
+
+    /**
+     * Merge one vendor memory into another
+     *
+     * The target keeps its identity and gains the source's names, field
+     * mappings, behaviors and counters; its confidence becomes the average of
+     * both weighted by reinforcement count. Correction memories and duplicate
+     * records of the source are re-pointed to the target. The source is kept,
+     * inactive, with `mergedInto` set.
+     *
+     * @throws Error if either vendor is unknown, the source is inactive, or both are the same
+     */
+    mergeVendorMemories(sourceId: string, targetId: string): VendorMergeResult {
+        const source = this.requireVendor(sourceId);
+        const target = this.requireVendor(targetId);
+        if (source === target) {
+            throw new Error(`Cannot merge vendor memory "${sourceId}" into itself`);
+        }
+        if (!source.isActive) {
+            throw new Error(`Vendor memory "${sourceId}" is inactive`);
+        }
+
+        const now = getTimestamp();
+        const notes: string[] = [];
+
+        for (const name of [source.canonicalName, ...source.nameVariations]) {
+            addNameVariation(target, name);
+        }
+
+        for (const [sourceField, mapping] of Object.entries(source.fieldMappings)) {
+            const existing = target.fieldMappings[sourceField];
+            if (!existing) {
+                target.fieldMappings[sourceField] = { ...mapping, exampleValues: [...(mapping.exampleValues ?? [])] };
+            } else if (existing.targetField === mapping.targetField) {
+                existing.occurrenceCount += mapping.occurrenceCount;
+                existing.confidence = Math.max(existing.confidence, mapping.confidence);
+                existing.exampleValues = [
+                    ...new Set([...(existing.exampleValues ?? []), ...(mapping.exampleValues ?? [])]),
+                ].slice(0, MAX_MAPPING_EXAMPLES);
+            } else {
+                const keepSource = mapping.confidence > existing.confidence;
+                if (keepSource) {
+                    target.fieldMappings[sourceField] = { ...mapping, exampleValues: [...(mapping.exampleValues ?? [])] };
+                }
+                notes.push(
+                    `Field mapping "${sourceField}" conflicts (${existing.targetField} vs ${mapping.targetField}), ` +
+                    `kept ${keepSource ? mapping.targetField : existing.targetField}`
+                );
+            }
+        }
+
+        // The target's behaviors win; the source fills in what the target has not learned
+        for (const [key, value] of Object.entries(source.behaviors)) {
+            const current = (target.behaviors as Record<string, unknown>)[key];
+            if (current !== undefined && JSON.stringify(current) !== JSON.stringify(value)) {
+                notes.push(`Behavior "${key}" differs, kept ${JSON.stringify(current)}`);
+            }
+        }
+        const sourceCategories = source.behaviors.expectedCategories;
+        const targetCategories = target.behaviors.expectedCategories;
+        target.behaviors = { ...source.behaviors, ...target.behaviors };
+        if (sourceCategories && targetCategories) {
+            target.behaviors.expectedCategories = [...new Set([...targetCategories, ...sourceCategories])];
+        }
+
+        if (source.taxId && target.taxId && source.taxId !== target.taxId) {
+            notes.push(`Tax IDs differ (${target.taxId} vs ${source.taxId}), kept ${target.taxId}`);
+        }
+        target.taxId = target.taxId || source.taxId;
+        target.address = target.address || source.address;
+
+        const reinforcementCount = target.reinforcementCount + source.reinforcementCount;
+        target.confidence =
+            (target.confidence * target.reinforcementCount + source.confidence * source.reinforcementCount) /
+            reinforcementCount;
+        target.reinforcementCount = reinforcementCount;
+        target.contradictionCount += source.contradictionCount;
+        if (source.createdAt < target.createdAt) {
+            target.createdAt = source.createdAt;
+        }
+        target.updatedAt = now;
+
+        const correctionIds: string[] = [];
+        const combinedCorrectionIds: string[] = [];
+        for (const correction of this.data.correctionMemories) {
+            if (correction.vendorId !== source.canonicalId) continue;
+
+            correction.vendorId = target.canonicalId;
+            correction.pattern = {
+                ...correction.pattern,
+                signature: repointSignature(correction.pattern.signature, source.canonicalId, target.canonicalId),
+            };
+            correction.updatedAt = now;
+
+            // Fold into the target's memory of the same pattern, if it has one
+            const equivalent = this.data.correctionMemories.find(
+                (c) =>
+                    c !== correction &&
+                    c.isActive &&
+                    c.vendorId === target.canonicalId &&
+                    c.pattern.type === correction.pattern.type &&
+                    c.pattern.signature === correction.pattern.signature
+            );
+            if (equivalent && correction.isActive) {
+                equivalent.reinforcementCount += correction.reinforcementCount;
+                equivalent.contradictionCount += correction.contradictionCount;
+                equivalent.confidence = Math.max(equivalent.confidence, correction.confidence);
+                equivalent.humanApproved = equivalent.humanApproved || correction.humanApproved;
+                equivalent.updatedAt = now;
+                correction.isActive = false;
+                this.track('mergeVendorMemories', equivalent);
+                combinedCorrectionIds.push(correction.id);
+            } else {
+                correctionIds.push(correction.id);
+            }
+            this.track('mergeVendorMemories', correction);
+        }
+
+        const duplicateIds: string[] = [];
+        for (const duplicate of this.data.duplicates) {
+            if (duplicate.vendorId !== source.canonicalId) continue;
+            duplicate.vendorId = target.canonicalId;
+            duplicate.updatedAt = now;
+            duplicateIds.push(duplicate.id);
+            this.track('mergeVendorMemories', duplicate);
+        }
+
+        source.isActive = false;
+        source.mergedInto = target.canonicalId;
+        // A reactivated vendor that takes in another is no longer merged anywhere
+        delete target.mergedInto;
+        source.updatedAt = now;
+
+        this.track('mergeVendorMemories', target);
+        this.track('mergeVendorMemories', source);
+        this.isDirty = true;
+
+        return { target, source, correctionIds, combinedCorrectionIds, duplicateIds, notes };
+    }
+
+    /**
+     * Split part of a vendor memory off into a new vendor memory
+     *
+     * The named variations, field mappings, correction memories and duplicate
+     * records move to the new vendor. What was learned about the vendor as a
+     * whole cannot be attributed, so the new vendor starts with initial
+     * confidence and the source keeps its counters and behaviors.
+     *
+     * @throws Error if the vendor is unknown, the new canonical ID is taken (by
+     *   anything but a vendor merged into this one), or the spec names records
+     *   that do not belong to the vendor
+     */
+    splitVendorMemory(vendorId: string, spec: VendorSplitSpec): VendorSplitResult {
+        const source = this.requireVendor(vendorId);
+        const canonicalId = spec.canonicalId || spec.canonicalName.toLowerCase().trim().replace(/[^a-z0-9]/g, '');
+        if (!canonicalId) {
+            throw new Error('The new vendor needs a canonical name');
+        }
+        // A vendor merged into this one can be split off again under its old ID
+        const previous = this.data.vendorMemories[canonicalId];
+        if (previous && previous.mergedInto !== source.canonicalId) {
+            throw new Error(`Vendor memory "${canonicalId}" already exists`);
+        }
+
+        const movedNames = new Set([spec.canonicalName, ...spec.nameVariations].map((n) => n.toLowerCase().trim()));
+        if (movedNames.has(source.canonicalName.toLowerCase().trim())) {
+            throw new Error(`"${source.canonicalName}" is the canonical name of "${vendorId}" and cannot be split off`);
+        }
+
+        const mappingFields = spec.fieldMappings || [];
+        const unknownMapping = mappingFields.find((field) => !source.fieldMappings[field]);
+        if (unknownMapping) {
+            throw new Error(`Vendor memory "${vendorId}" has no field mapping "${unknownMapping}"`);
+        }
+
+        const corrections = (spec.correctionIds || []).map((id) => {
+            const correction = this.data.correctionMemories.find((c) => c.id === id);
+            if (!correction || correction.vendorId !== source.canonicalId) {
+                throw new Error(`Correction memory "${id}" does not belong to vendor "${vendorId}"`);
+            }
+            return correction;
+        });
+        const duplicates = (spec.duplicateIds || []).map((id) => {
+            const duplicate = this.data.duplicates.find((d) => d.id === id);
+            if (!duplicate || duplicate.vendorId !== source.canonicalId) {
+                throw new Error(`Duplicate record "${id}" does not belong to vendor "${vendorId}"`);
+            }
+            return duplicate;
+        });
+
+        const now = getTimestamp();
+        const created: VendorMemory = {
+            type: 'vendor',
+            id: previous?.id ?? generateId('vendor'),
+            createdAt: previous?.createdAt ?? now,
+            updatedAt: now,
+            confidence: initialConfidence(),
+            reinforcementCount: 1,
+            contradictionCount: 0,
+            isActive: true,
+            canonicalId,
+            canonicalName: spec.canonicalName,
+            nameVariations: [],
+            fieldMappings: {},
+            behaviors: {},
+            taxId: spec.taxId,
+            address: spec.address,
+        };
+        for (const name of [spec.canonicalName, ...spec.nameVariations]) {
+            addNameVariation(created, name);
+        }
+
+        source.nameVariations = source.nameVariations.filter((n) => !movedNames.has(n.toLowerCase().trim()));
+        for (const field of mappingFields) {
+            created.fieldMappings[field] = source.fieldMappings[field];
+            delete source.fieldMappings[field];
+        }
+        if (spec.taxId && source.taxId === spec.taxId) {
+            source.taxId = undefined;
+        }
+        if (spec.address && source.address === spec.address) {
+            source.address = undefined;
+        }
+        source.updatedAt = now;
+
+        for (const correction of corrections) {
+            correction.vendorId = canonicalId;
+            correction.pattern = {
+                ...correction.pattern,
+                signature: repointSignature(correction.pattern.signature, source.canonicalId, canonicalId),
+            };
+            correction.updatedAt = now;
+            this.track('splitVendorMemory', correction);
+        }
+        for (const duplicate of duplicates) {
+            duplicate.vendorId = canonicalId;
+            duplicate.updatedAt = now;
+            this.track('splitVendorMemory', duplicate);
+        }
+
+        this.data.vendorMemories[canonicalId] = created;
+        this.track('splitVendorMemory', source);
+        this.track('splitVendorMemory', created);
+        this.isDirty = true;
+
+        return {
+            source,
+            created,
+            correctionIds: corrections.map((c) => c.id),
+            duplicateIds: duplicates.map((d) => d.id),
+        };
+    }
+
+    private requireVendor(vendorId: string): VendorMemory {
+        const vendor = this.data.vendorMemories[vendorId];
+        if (!vendor) {
+            throw new Error(`No vendor memory "${vendorId}"`);
+        }
+        return vendor;
+    }
+
     // ===========================================================================
     // Correction Memory Operations
     // ===========================================================================
@@ -280,6 +723,7 @@ export class MemoryStore {
             existing.confidence = reinforce(existing.confidence);
             existing.reinforcementCount += 1;
             existing.updatedAt = getTimestamp();
+            this.track('recordCorrection', existing);
             this.isDirty = true;
             return existing;
         }
@@ -301,6 +745,7 @@ export class MemoryStore {
         };
 
         this.data.correctionMemories.push(correction);
+        this.track('recordCorrection', correction);
         this.isDirty = true;
         return correction;
     }
@@ -358,6 +803,7 @@ export class MemoryStore {
             existing.confidence = reinforce(existing.confidence);
             existing.reinforcementCount += 1;
             existing.updatedAt = now;
+            this.track('recordResolution', existing);
             this.isDirty = true;
             return existing;
         }
@@ -378,6 +824,7 @@ export class MemoryStore {
         };
 
         this.data.resolutionMemories.push(resolution);
+        this.track('recordResolution', resolution);
 
         // If this resolution contradicts an existing memory, penalize it
         if (params.relatedMemoryId && params.decision.action === 'rejected') {
@@ -397,6 +844,45 @@ export class MemoryStore {
         );
     }
 
+    /**
+     * Find a recorded human decision by its decision ID
+     */
+    findDecision(decisionId: string): { resolution: ResolutionMemory; decision: HumanDecision } | undefined {
+        for (const resolution of this.data.resolutionMemories) {
+            const decision = resolution.decisions.find((d) => d.decisionId === decisionId);
+            if (decision) return { resolution, decision };
+        }
+        return undefined;
+    }
+
+    /**
+     * Update fields of a recorded human decision
+     */
+    updateDecision(decisionId: string, changes: Partial<Omit<HumanDecision, 'decisionId'>>): HumanDecision | undefined {
+        const found = this.findDecision(decisionId);
+        if (!found) return undefined;
+
+        Object.assign(found.decision, changes);
+        found.resolution.updatedAt = getTimestamp();
+        this.track('recordResolution', found.resolution);
+        this.isDirty = true;
+        return found.decision;
+    }
+
+    /**
+     * Append a decision to an existing resolution without reinforcing it
+     */
+    appendDecision(resolutionId: string, decision: HumanDecision): ResolutionMemory | undefined {
+        const resolution = this.data.resolutionMemories.find((r) => r.id === resolutionId);
+        if (!resolution) return undefined;
+
+        resolution.decisions.push(decision);
+        resolution.updatedAt = getTimestamp();
+        this.track('recordResolution', resolution);
+        this.isDirty = true;
+        return resolution;
+    }
+
     // ===========================================================================
     // Duplicate Detection Operations
     // ===========================================================================
@@ -415,8 +901,8 @@ export class MemoryStore {
         const duplicateHash = generateHash({
             vendorId: params.vendorId,
             invoiceNumber: params.invoiceNumber.toLowerCase().trim(),
-            // Include date with some fuzzing (same month)
-            dateKey: params.invoiceDate.substring(0, 7),
+            // Include date with some fuzzing (same month), read in the vendor's date format
+            dateKey: dateMonthKey(params.invoiceDate, this.getVendorMemory(params.vendorId)?.behaviors?.dateFormat),
         });
 
         // Check for existing duplicate
@@ -430,6 +916,7 @@ export class MemoryStore {
                 existing.duplicateInvoiceIds.push(params.invoiceId);
                 existing.updatedAt = getTimestamp();
                 existing.confidence = reinforce(existing.confidence);
+                this.track('recordDuplicate', existing);
                 this.isDirty = true;
 
                 return { isDuplicate: true, record: existing };
@@ -457,6 +944,7 @@ export class MemoryStore {
         };
 
         this.data.duplicates.push(record);
+        this.track('recordDuplicate', record);
         this.isDirty = true;
 
         return { isDuplicate: false, record };
@@ -494,6 +982,17 @@ export class MemoryStore {
         return this.data.duplicates.find((d) => d.duplicateHash === hash);
     }
 
+    /**
+     * Find a vendor's duplicate records by invoice number (ignoring case and punctuation)
+     */
+    findDuplicatesByInvoiceNumber(vendorId: string, invoiceNumber: string): DuplicateRecord[] {
+        const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const wanted = normalize(invoiceNumber);
+        return this.data.duplicates.filter(
+            (d) => d.isActive && d.vendorId === vendorId && normalize(d.invoiceNumber) === wanted
+        );
+    }
+
     // ===========================================================================
     // Confidence Management
     // ===========================================================================
@@ -507,6 +1006,7 @@ export class MemoryStore {
             memory.confidence = reinforce(memory.confidence);
             memory.reinforcementCount += 1;
             memory.updatedAt = getTimestamp();
+            this.track('reinforceMemory', memory);
             this.isDirty = true;
         }
     }
@@ -527,38 +1027,39 @@ export class MemoryStore {
                 logger.info(`Memory ${memoryId} deactivated due to low confidence`);
             }
 
+            this.track('penalizeMemory', memory);
+            this.isDirty = true;
+        }
+    }
+
+    /**
+     * Set a memory's confidence, counters and activation directly (used to revert decisions)
+     */
+    setMemoryState(memoryId: string, state: MemoryStateSnapshot): void {
+        const memory = this.findMemoryById(memoryId);
+        if (memory) {
+            memory.confidence = state.confidence;
+            memory.reinforcementCount = state.reinforcementCount;
+            memory.contradictionCount = state.contradictionCount;
+            memory.isActive = state.isActive;
+            memory.updatedAt = getTimestamp();
+            this.track('revertDecision', memory);
             this.isDirty = true;
         }
     }
 
     /**
      * Apply decay to all memories based on time elapsed
+     *
+     * @param decayRate Optional daily decay rate overriding the configured rate
      */
-    applyDecayToAll(): void {
+    applyDecayToAll(decayRate?: number): void {
         const now = new Date();
 
-        // Apply decay to all memory types
-        const allMemories = [
-            ...Object.values(this.data.vendorMemories),
-            ...this.data.correctionMemories,
-            ...this.data.resolutionMemories,
-            ...this.data.duplicates,
-        ];
-
-        for (const memory of allMemories) {
-            if (!memory.isActive) continue;
-
-            const lastUpdated = new Date(memory.updatedAt);
-            const newConfidence = applyDecay(memory.confidence, lastUpdated, now);
-
-            if (newConfidence !== memory.confidence) {
-                memory.confidence = newConfidence;
+        for (const memory of this.allRecords()) {
+            if (decayRecord(memory, now, decayRate)) {
+                this.track('applyDecay', memory);
                 this.isDirty = true;
-
-                if (shouldDeactivate(newConfidence)) {
-                    memory.isActive = false;
-                    logger.debug(`Memory ${memory.id} deactivated due to decay`);
-                }
             }
         }
     }
@@ -566,7 +1067,7 @@ export class MemoryStore {
     /**
      * Find any memory by ID across all types
      */
-    private findMemoryById(
+    findMemoryById(
         memoryId: string
     ): VendorMemory | CorrectionMemory | ResolutionMemory | DuplicateRecord | undefined {
         // Check vendors
@@ -589,6 +1090,41 @@ export class MemoryStore {
         return undefined;
     }
 
+    // ===========================================================================
+    // Batch Updates
+    // ===========================================================================
+
+    /**
+     * Apply memory updates produced by the learn phase
+     *
+     * @returns Per-update success or failure
+     */
+    applyUpdates(updates: MemoryUpdate[]): MemoryUpdateResult[] {
+        const results = applyMemoryUpdates(
+            {
+                vendors: this.data.vendorMemories,
+                corrections: this.data.correctionMemories,
+                resolutions: this.data.resolutionMemories,
+                duplicates: this.data.duplicates,
+            },
+            updates
+        );
+
+        for (const result of results) {
+            if (!result.success) continue;
+
+            this.isDirty = true;
+            const changed = result.recordId
+                ? [this.findMemoryById(result.recordId)]
+                : this.allRecords().filter((record) => record.type === result.update.memoryType);
+            for (const record of changed) {
+                if (record) this.track('applyUpdate', record);
+            }
+        }
+
+        return results;
+    }
+
     // ===========================================================================
     // Statistics
     // ===========================================================================
@@ -620,6 +1156,9 @@ export class MemoryStore {
                 (stats.averageConfidence * (n - 1) + params.confidence) / n;
         }
 
+        if (this.journal) {
+            this.pendingEvents.push(createStatsEvent(stats));
+        }
         this.isDirty = true;
     }
 
@@ -630,6 +1169,13 @@ export class MemoryStore {
         return { ...this.data.stats };
     }
 
+    /**
+     * Whether there are changes not yet saved
+     */
+    hasUnsavedChanges(): boolean {
+        return this.isDirty;
+    }
+
     /**
      * Save if there are pending changes
      */
@@ -639,3 +1185,26 @@ export class MemoryStore {
         }
     }
 }
+
+/**
+ * Example values kept per field mapping when mappings are combined
+ */
+const MAX_MAPPING_EXAMPLES = 5;
+
+/**
+ * Add a name to a vendor's variations unless it is already known (case-insensitive)
+ */
+function addNameVariation(vendor: VendorMemory, name: string): void {
+    const normalized = name.toLowerCase().trim();
+    if (!vendor.nameVariations.some((v) => v.toLowerCase().trim() === normalized)) {
+        vendor.nameVariations.push(name);
+    }
+}
+
+/**
+ * Re-point a vendor-scoped pattern signature ("currency:EURO:<vendorId>", "po_inference:<vendorId>")
+ */
+function repointSignature(signature: string, fromVendorId: string, toVendorId: string): string {
+    const suffix = `:${fromVendorId}`;
+    return signature.endsWith(suffix) ? signature.slice(0, -suffix.length) + `:${toVendorId}` : signature;
+}
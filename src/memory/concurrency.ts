@@ -0,0 +1,204 @@
+/**
+ * Memory Store Concurrency
+ *
+ * Optimistic revision checks for stores shared by several worker processes.
+ * A store remembers the revision it loaded; if the stored revision has moved
+ * on by the time it saves, another worker saved in between. The save is then
+ * rejected, or the store's own changes are merged into the stored data:
+ * - The changes it made to a record since loading are applied to the stored version
+ *   (counters add up, lists and objects merge per entry, see mergeRecord)
+ * - Its statistics deltas are added to the stored statistics
+ */
+
+import { MemoryStoreData, MemoryRecord } from '../types';
+import { clamp } from '../utils';
+import { recordKeyOf } from './storage/journal';
+
+/**
+ * What to do when the stored data changed since it was loaded
+ */
+export type MemoryConflictPolicy = 'merge' | 'reject';
+
+/**
+ * Raised by the 'reject' policy when another writer saved since the store was loaded
+ */
+export class MemoryConflictError extends Error {
+    constructor(
+        public readonly description: string,
+        public readonly expectedRevision: number,
+        public readonly actualRevision: number
+    ) {
+        super(
+            `Memory store ${description} was saved by another writer ` +
+            `(loaded revision ${expectedRevision}, now ${actualRevision})`
+        );
+        this.name = 'MemoryConflictError';
+    }
+}
+
+/**
+ * Key identifying a record across memory types
+ */
+export function changeKeyOf(record: MemoryRecord): string {
+    return `${record.type}/${recordKeyOf(record)}`;
+}
+
+/**
+ * Detached copies of records, by change key
+ */
+export function snapshotRecords(records: MemoryRecord[]): Map<string, MemoryRecord> {
+    return new Map(
+        records.map((record) => [changeKeyOf(record), JSON.parse(JSON.stringify(record)) as MemoryRecord])
+    );
+}
+
+/**
+ * Merge locally changed records and statistics into freshly loaded data
+ *
+ * @param stored Data as currently stored (modified in place and returned)
+ * @param local Data held by this store
+ * @param changedKeys Change keys of records modified locally since the last load/save
+ * @param baseStats Statistics as of the last load/save
+ * @param baseRecords Records as of the last load/save
+ */
+export function mergeStoreData(
+    stored: MemoryStoreData,
+    local: MemoryStoreData,
+    changedKeys: ReadonlySet<string>,
+    baseStats: MemoryStoreData['stats'],
+    baseRecords: ReadonlyMap<string, MemoryRecord>
+): MemoryStoreData {
+    for (const [key, vendor] of Object.entries(local.vendorMemories)) {
+        const changeKey = changeKeyOf(vendor);
+        if (changedKeys.has(changeKey)) {
+            stored.vendorMemories[key] = mergeRecord(stored.vendorMemories[key], vendor, baseRecords.get(changeKey));
+        }
+    }
+
+    mergeCollection(stored.correctionMemories, local.correctionMemories, changedKeys, baseRecords);
+    mergeCollection(stored.resolutionMemories, local.resolutionMemories, changedKeys, baseRecords);
+    mergeCollection(stored.duplicates, local.duplicates, changedKeys, baseRecords);
+
+    stored.stats = mergeStats(stored.stats, local.stats, baseStats);
+    return stored;
+}
+
+function mergeCollection<T extends MemoryRecord>(
+    stored: T[],
+    local: T[],
+    changedKeys: ReadonlySet<string>,
+    baseRecords: ReadonlyMap<string, MemoryRecord>
+): void {
+    for (const record of local) {
+        const changeKey = changeKeyOf(record);
+        if (!changedKeys.has(changeKey)) continue;
+
+        const index = stored.findIndex((r) => r.id === record.id);
+        if (index >= 0) {
+            stored[index] = mergeRecord(stored[index], record, baseRecords.get(changeKey));
+        } else {
+            stored.push(record);
+        }
+    }
+}
+
+// =============================================================================
+// Record Merge
+// =============================================================================
+
+/** Counters whose local increments are added to the stored value */
+const COUNTER_FIELDS = new Set(['reinforcementCount', 'contradictionCount', 'occurrenceCount']);
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Apply the local changes to a record over the stored version
+ *
+ * Only what changed locally since the base is applied, so changes made by
+ * the other writer survive:
+ * - Confidence and counters: the local deltas are added to the stored values
+ * - String lists (name variations, duplicate invoice IDs): local additions and removals
+ * - Objects (field mappings, behaviors): merged per property
+ * - Anything else: the local value
+ *
+ * A record created locally has no base: its counters add up with the stored
+ * record's, and everything else replaces the stored values.
+ */
+function mergeRecord<T extends MemoryRecord>(stored: T | undefined, local: T, base?: MemoryRecord): T {
+    if (!stored) return local;
+    return mergeFields(stored as unknown as Fields, local as unknown as Fields, (base ?? {}) as unknown as Fields) as unknown as T;
+}
+
+function mergeFields(stored: Fields, local: Fields, base: Fields): Fields {
+    const merged: Fields = { ...stored };
+    for (const key of new Set([...Object.keys(base), ...Object.keys(local)])) {
+        if (!(key in local)) {
+            delete merged[key];
+        } else {
+            merged[key] = mergeValue(key, stored[key], local[key], base[key]);
+        }
+    }
+    return merged;
+}
+
+function mergeValue(key: string, stored: unknown, local: unknown, base: unknown): unknown {
+    if (isSameValue(local, base)) return stored;
+
+    if (typeof local === 'number' && typeof stored === 'number') {
+        if (COUNTER_FIELDS.has(key)) {
+            return stored + (local - (typeof base === 'number' ? base : 0));
+        }
+        if (key === 'confidence' && typeof base === 'number') {
+            return clamp(stored + (local - base), 0, 1);
+        }
+    }
+    if (isStringList(local) && isStringList(stored)) {
+        const baseList = isStringList(base) ? base : [];
+        const removed = baseList.filter((value) => !local.includes(value));
+        const added = local.filter((value) => !baseList.includes(value) && !stored.includes(value));
+        return [...stored.filter((value) => !removed.includes(value)), ...added];
+    }
+    if (isFields(local) && isFields(stored)) {
+        return mergeFields(stored, local, isFields(base) ? base : {});
+    }
+    return local;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isFields(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Add the local statistics deltas to the stored statistics
+ */
+function mergeStats(
+    stored: MemoryStoreData['stats'],
+    local: MemoryStoreData['stats'],
+    base: MemoryStoreData['stats']
+): MemoryStoreData['stats'] {
+    const totalInvoicesProcessed =
+        stored.totalInvoicesProcessed + (local.totalInvoicesProcessed - base.totalInvoicesProcessed);
+
+    // Combine the running averages, weighted by invoice counts
+    const confidenceSum =
+        stored.averageConfidence * stored.totalInvoicesProcessed +
+        local.averageConfidence * local.totalInvoicesProcessed -
+        base.averageConfidence * base.totalInvoicesProcessed;
+
+    return {
+        totalInvoicesProcessed,
+        totalCorrectionsApplied:
+            stored.totalCorrectionsApplied + (local.totalCorrectionsApplied - base.totalCorrectionsApplied),
+        totalHumanReviewsRequested:
+            stored.totalHumanReviewsRequested + (local.totalHumanReviewsRequested - base.totalHumanReviewsRequested),
+        averageConfidence: totalInvoicesProcessed > 0 ? confidenceSum / totalInvoicesProcessed : 0,
+    };
+}
@@ -2,5 +2,9 @@
  * Memory module exports
  */
 export { MemoryManager } from './memory-manager';
-export { MemoryStore } from './MemoryStore';
+export { MemoryStore, MemoryStoreOptions } from './MemoryStore';
 export * from './confidence';
+export * from './updateApplier';
+export * from './migrations';
+export * from './concurrency';
+export * from './storage';
@@ -1,120 +1,81 @@
 /**
  * Memory Manager
  *
- * Handles persistence and retrieval of memory records.
- * Provides methods for loading, saving, and querying the memory store.
+ * Facade over the MemoryStore persistence layer for the DecisionEngine.
+ * Both engines read and write the same store (and the same data/memory.json).
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import {
-    MemoryStore,
+    MemoryStoreData,
     VendorMemory,
     CorrectionMemory,
     ResolutionMemory,
     DuplicateRecord,
     MemoryUpdate,
+    MemoryUpdateResult,
     AuditTrailEntry,
 } from '../types';
-import { getTimestamp, generateId, logger } from '../utils';
+import { getTimestamp, logger, withFileLockSync } from '../utils';
+import { MemoryStore } from './MemoryStore';
 
 /**
  * Default configuration for memory manager
  */
-const DEFAULT_MEMORY_PATH = path.join(process.cwd(), 'data', 'memory.json');
 const DEFAULT_AUDIT_LOG_PATH = path.join(process.cwd(), 'data', 'audit-log.jsonl');
-const SCHEMA_VERSION = '1.0.0';
 
 /**
- * Creates an empty memory store with the correct schema
+ * Fields the store assigns when a record is created
  */
-function createEmptyMemoryStore(): MemoryStore {
-    return {
-        schemaVersion: SCHEMA_VERSION,
-        lastUpdated: getTimestamp(),
-        vendors: {},
-        corrections: [],
-        resolutions: [],
-        duplicates: [],
-        stats: {
-            totalInvoicesProcessed: 0,
-            totalCorrectionsApplied: 0,
-            totalHumanReviewsRequested: 0,
-            averageConfidence: 0,
-        },
-    };
-}
+type NewRecord<T> = Omit<
+    T,
+    'id' | 'type' | 'createdAt' | 'updatedAt' | 'reinforcementCount' | 'contradictionCount' | 'isActive'
+>;
 
 /**
  * Memory Manager class for handling persistent memory operations
  */
 export class MemoryManager {
-    private memoryStore: MemoryStore;
-    private memoryPath: string;
+    private store: MemoryStore;
     private auditLogPath: string;
-    private isDirty: boolean = false;
 
-    constructor(memoryPath?: string, auditLogPath?: string) {
-        this.memoryPath = memoryPath || DEFAULT_MEMORY_PATH;
+    /**
+     * @param memoryPathOrStore Memory file path, or a MemoryStore shared with the pipeline
+     * @param auditLogPath Audit log file path
+     */
+    constructor(memoryPathOrStore?: string | MemoryStore, auditLogPath?: string) {
+        this.store =
+            memoryPathOrStore instanceof MemoryStore ? memoryPathOrStore : new MemoryStore(memoryPathOrStore);
         this.auditLogPath = auditLogPath || DEFAULT_AUDIT_LOG_PATH;
-        this.memoryStore = createEmptyMemoryStore();
     }
 
     /**
-     * Load memory from persistent storage
+     * Load memory from persistent storage (migrating older schemas)
      */
     async load(): Promise<void> {
-        try {
-            // Ensure directory exists
-            const dir = path.dirname(this.memoryPath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            // Load existing memory or create new
-            if (fs.existsSync(this.memoryPath)) {
-                const data = fs.readFileSync(this.memoryPath, 'utf-8');
-                this.memoryStore = JSON.parse(data) as MemoryStore;
-                logger.info(`Memory loaded from ${this.memoryPath}`);
-            } else {
-                this.memoryStore = createEmptyMemoryStore();
-                await this.save();
-                logger.info('Initialized new memory store');
-            }
-
-            // TODO: Implement schema migration if schemaVersion differs
-        } catch (error) {
-            logger.error('Failed to load memory store', error);
-            throw error;
-        }
+        await this.store.loadFromDisk();
     }
 
     /**
      * Save memory to persistent storage
      */
     async save(): Promise<void> {
-        try {
-            const dir = path.dirname(this.memoryPath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            this.memoryStore.lastUpdated = getTimestamp();
-            const data = JSON.stringify(this.memoryStore, null, 2);
-            fs.writeFileSync(this.memoryPath, data, 'utf-8');
-            this.isDirty = false;
-            logger.debug('Memory saved successfully');
-        } catch (error) {
-            logger.error('Failed to save memory store', error);
-            throw error;
-        }
+        await this.store.saveToDisk();
     }
 
     /**
      * Get the current memory store (read-only snapshot)
      */
-    getStore(): Readonly<MemoryStore> {
-        return this.memoryStore;
+    getStore(): Readonly<MemoryStoreData> {
+        return this.store.getData();
+    }
+
+    /**
+     * Get the underlying MemoryStore (e.g. to pass to processInvoice)
+     */
+    getMemoryStore(): MemoryStore {
+        return this.store;
     }
 
     // ===========================================================================
@@ -125,66 +86,44 @@ export class MemoryManager {
      * Get vendor memory by canonical ID
      */
     getVendorMemory(vendorId: string): VendorMemory | undefined {
-        return this.memoryStore.vendors[vendorId];
+        return this.store.getVendorMemory(vendorId);
     }
 
     /**
      * Find vendor memory by name variation
      */
     findVendorByName(vendorName: string): VendorMemory | undefined {
-        const normalizedName = vendorName.toLowerCase().trim();
-
-        for (const vendor of Object.values(this.memoryStore.vendors)) {
-            if (vendor.canonicalName.toLowerCase() === normalizedName) {
-                return vendor;
-            }
-            if (vendor.nameVariations.some((v) => v.toLowerCase() === normalizedName)) {
-                return vendor;
-            }
-        }
-
-        return undefined;
+        return this.store.findVendorByName(vendorName);
     }
 
     /**
      * Add or update vendor memory
      */
     upsertVendorMemory(vendor: Partial<VendorMemory> & { canonicalId: string }): VendorMemory {
-        const existing = this.memoryStore.vendors[vendor.canonicalId];
+        const existing = this.store.getVendorMemory(vendor.canonicalId);
+        const data: Partial<VendorMemory> = { ...vendor };
+        delete data.id;
+        delete data.type;
+        delete data.createdAt;
 
         if (existing) {
-            // Update existing vendor
-            const updated: VendorMemory = {
-                ...existing,
-                ...vendor,
-                updatedAt: getTimestamp(),
-                reinforcementCount: existing.reinforcementCount + 1,
-            };
-            this.memoryStore.vendors[vendor.canonicalId] = updated;
-            this.isDirty = true;
-            return updated;
+            this.applyOrThrow({
+                operation: 'update',
+                memoryType: 'vendor',
+                recordId: existing.id,
+                data: { ...data, reinforcementCount: existing.reinforcementCount + 1 },
+                reason: 'Vendor memory upserted',
+            });
         } else {
-            // Create new vendor memory
-            const newVendor: VendorMemory = {
-                ...vendor,
-                type: 'vendor',
-                id: generateId('vendor'),
-                createdAt: getTimestamp(),
-                updatedAt: getTimestamp(),
-                confidence: 0.5,
-                reinforcementCount: 1,
-                contradictionCount: 0,
-                isActive: true,
-                nameVariations: vendor.nameVariations || [],
-                canonicalName: vendor.canonicalName || '',
-                canonicalId: vendor.canonicalId,
-                fieldMappings: vendor.fieldMappings || {},
-                behaviors: vendor.behaviors || {},
-            };
-            this.memoryStore.vendors[vendor.canonicalId] = newVendor;
-            this.isDirty = true;
-            return newVendor;
+            this.applyOrThrow({
+                operation: 'create',
+                memoryType: 'vendor',
+                data: { confidence: 0.5, ...data },
+                reason: 'Vendor memory upserted',
+            });
         }
+
+        return this.store.getVendorMemory(vendor.canonicalId) as VendorMemory;
     }
 
     // ===========================================================================
@@ -195,14 +134,14 @@ export class MemoryManager {
      * Get all correction memories for a pattern type
      */
     getCorrectionsByPatternType(patternType: CorrectionMemory['pattern']['type']): CorrectionMemory[] {
-        return this.memoryStore.corrections.filter((c) => c.pattern.type === patternType && c.isActive);
+        return this.store.findCorrections(patternType);
     }
 
     /**
      * Find a correction for a specific pattern signature
      */
     findCorrectionBySignature(signature: string): CorrectionMemory | undefined {
-        return this.memoryStore.corrections.find(
+        return this.store.getData().correctionMemories.find(
             (c) => c.pattern.signature === signature && c.isActive
         );
     }
@@ -210,21 +149,8 @@ export class MemoryManager {
     /**
      * Add a new correction memory
      */
-    addCorrection(correction: Omit<CorrectionMemory, 'id' | 'type' | 'createdAt' | 'updatedAt' | 'reinforcementCount' | 'contradictionCount' | 'isActive'>): CorrectionMemory {
-        const newCorrection: CorrectionMemory = {
-            type: 'correction',
-            id: generateId('corr'),
-            createdAt: getTimestamp(),
-            updatedAt: getTimestamp(),
-            reinforcementCount: 1,
-            contradictionCount: 0,
-            isActive: true,
-            ...correction,
-        };
-
-        this.memoryStore.corrections.push(newCorrection);
-        this.isDirty = true;
-        return newCorrection;
+    addCorrection(correction: NewRecord<CorrectionMemory>): CorrectionMemory {
+        return this.createRecord('correction', correction) as CorrectionMemory;
     }
 
     // ===========================================================================
@@ -235,27 +161,14 @@ export class MemoryManager {
      * Find resolution memory by context hash
      */
     findResolution(contextHash: string): ResolutionMemory | undefined {
-        return this.memoryStore.resolutions.find((r) => r.contextHash === contextHash && r.isActive);
+        return this.store.findResolution(contextHash);
     }
 
     /**
      * Add a new resolution memory
      */
-    addResolution(resolution: Omit<ResolutionMemory, 'id' | 'type' | 'createdAt' | 'updatedAt' | 'reinforcementCount' | 'contradictionCount' | 'isActive'>): ResolutionMemory {
-        const newResolution: ResolutionMemory = {
-            type: 'resolution',
-            id: generateId('res'),
-            createdAt: getTimestamp(),
-            updatedAt: getTimestamp(),
-            reinforcementCount: 1,
-            contradictionCount: 0,
-            isActive: true,
-            ...resolution,
-        };
-
-        this.memoryStore.resolutions.push(newResolution);
-        this.isDirty = true;
-        return newResolution;
+    addResolution(resolution: NewRecord<ResolutionMemory>): ResolutionMemory {
+        return this.createRecord('resolution', resolution) as ResolutionMemory;
     }
 
     // ===========================================================================
@@ -266,27 +179,18 @@ export class MemoryManager {
      * Find duplicate record by hash
      */
     findDuplicate(duplicateHash: string): DuplicateRecord | undefined {
-        return this.memoryStore.duplicates.find((d) => d.duplicateHash === duplicateHash);
+        return this.store.findDuplicate(duplicateHash);
     }
 
     /**
-     * Add a new duplicate record
+     * Add a new duplicate record (returns the existing record for a known hash)
      */
-    addDuplicate(duplicate: Omit<DuplicateRecord, 'id' | 'type' | 'createdAt' | 'updatedAt' | 'reinforcementCount' | 'contradictionCount' | 'isActive'>): DuplicateRecord {
-        const newDuplicate: DuplicateRecord = {
-            type: 'duplicate',
-            id: generateId('dup'),
-            createdAt: getTimestamp(),
-            updatedAt: getTimestamp(),
-            reinforcementCount: 1,
-            contradictionCount: 0,
-            isActive: true,
-            ...duplicate,
-        };
-
-        this.memoryStore.duplicates.push(newDuplicate);
-        this.isDirty = true;
-        return newDuplicate;
+    addDuplicate(duplicate: NewRecord<DuplicateRecord>): DuplicateRecord {
+        const existing = this.store.findDuplicate(duplicate.duplicateHash);
+        if (existing) {
+            return existing;
+        }
+        return this.createRecord('duplicate', duplicate) as DuplicateRecord;
     }
 
     // ===========================================================================
@@ -297,35 +201,23 @@ export class MemoryManager {
      * Reinforce a memory record (increase confidence)
      */
     reinforceMemory(recordId: string): void {
-        // TODO: Implement memory reinforcement logic
-        // - Find the memory record by ID across all memory types
-        // - Increase reinforcement count
-        // - Recalculate confidence score
-        logger.debug(`Reinforcing memory: ${recordId}`);
+        this.store.reinforceMemory(recordId);
     }
 
     /**
      * Contradict a memory record (decrease confidence)
      */
     contradictMemory(recordId: string): void {
-        // TODO: Implement memory contradiction logic
-        // - Find the memory record by ID
-        // - Increase contradiction count
-        // - Recalculate confidence score
-        // - Deactivate if contradiction ratio exceeds threshold
-        logger.debug(`Contradicting memory: ${recordId}`);
+        this.store.penalizeMemory(recordId);
     }
 
     /**
      * Apply decay to all memories based on time elapsed
+     *
+     * @param decayRate Daily decay rate applied after the grace period
      */
     applyDecay(decayRate: number): void {
-        // TODO: Implement memory decay logic
-        // - Iterate through all memory records
-        // - Calculate time since last update
-        // - Apply decay factor to confidence
-        // - Deactivate memories that fall below threshold
-        logger.debug(`Applying decay with rate: ${decayRate}`);
+        this.store.applyDecayToAll(decayRate);
     }
 
     // ===========================================================================
@@ -333,17 +225,46 @@ export class MemoryManager {
     // ===========================================================================
 
     /**
-     * Apply a batch of memory updates
+     * Apply a batch of memory updates and persist the result
+     *
+     * @returns Per-update success or failure
      */
-    async applyUpdates(updates: MemoryUpdate[]): Promise<void> {
-        for (const update of updates) {
-            // TODO: Implement batch update logic based on operation type
-            logger.debug(`Applying update: ${update.operation} on ${update.memoryType}`);
-        }
+    async applyUpdates(updates: MemoryUpdate[]): Promise<MemoryUpdateResult[]> {
+        const results = this.store.applyUpdates(updates);
+
+        const failed = results.filter((r) => !r.success).length;
+        logger.debug(`Applied ${results.length - failed}/${results.length} memory update(s)`);
 
-        if (this.isDirty) {
-            await this.save();
+        await this.store.saveIfDirty();
+        return results;
+    }
+
+    /**
+     * Create a record through the update applier
+     */
+    private createRecord(
+        memoryType: MemoryUpdate['memoryType'],
+        data: Partial<VendorMemory | CorrectionMemory | ResolutionMemory | DuplicateRecord>
+    ): VendorMemory | CorrectionMemory | ResolutionMemory | DuplicateRecord {
+        const result = this.applyOrThrow({
+            operation: 'create',
+            memoryType,
+            data,
+            reason: `Add ${memoryType} memory`,
+        });
+        return this.store.findMemoryById(result.recordId as string) as
+            VendorMemory | CorrectionMemory | ResolutionMemory | DuplicateRecord;
+    }
+
+    /**
+     * Apply a single update, throwing if it fails
+     */
+    private applyOrThrow(update: MemoryUpdate): MemoryUpdateResult {
+        const [result] = this.store.applyUpdates([update]);
+        if (!result.success) {
+            throw new Error(result.error);
         }
+        return result;
     }
 
     // ===========================================================================
@@ -354,19 +275,7 @@ export class MemoryManager {
      * Update global statistics after processing an invoice
      */
     updateStats(corrections: number, humanReviewRequired: boolean, confidence: number): void {
-        const stats = this.memoryStore.stats;
-        stats.totalInvoicesProcessed += 1;
-        stats.totalCorrectionsApplied += corrections;
-        if (humanReviewRequired) {
-            stats.totalHumanReviewsRequested += 1;
-        }
-
-        // Running average for confidence
-        const totalProcessed = stats.totalInvoicesProcessed;
-        stats.averageConfidence =
-            (stats.averageConfidence * (totalProcessed - 1) + confidence) / totalProcessed;
-
-        this.isDirty = true;
+        this.store.updateStats({ corrections, humanReviewRequired, confidence });
     }
 
     // ===========================================================================
@@ -389,7 +298,10 @@ export class MemoryManager {
                 entries,
             };
 
-            fs.appendFileSync(this.auditLogPath, JSON.stringify(logEntry) + '\n', 'utf-8');
+            // Other workers may append to the same log
+            withFileLockSync(this.auditLogPath, () => {
+                fs.appendFileSync(this.auditLogPath, JSON.stringify(logEntry) + '\n', 'utf-8');
+            });
         } catch (error) {
             logger.error('Failed to write audit log', error);
         }
@@ -0,0 +1,187 @@
+/**
+ * Memory Schema Migrations
+ *
+ * Converts memory files written by older versions into the current schema:
+ * - 1.x (MemoryManager): vendors / corrections / resolutions / duplicates
+ * - 2.0.0 (MemoryStore): vendorMemories / correctionMemories / resolutionMemories / duplicates
+ */
+
+import {
+    MemoryStoreData,
+    LegacyMemoryStoreData,
+    MemoryRecord,
+} from '../types';
+import { getTimestamp } from '../utils';
+
+/**
+ * Current memory schema version
+ */
+export const CURRENT_SCHEMA_VERSION = '2.0.0';
+
+/**
+ * Raised for memory files written by a newer, unsupported schema version
+ */
+export class UnsupportedSchemaVersionError extends Error {
+    constructor(public readonly schemaVersion: string) {
+        super(`Memory schema ${schemaVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`);
+        this.name = 'UnsupportedSchemaVersionError';
+    }
+}
+
+/**
+ * Result of migrating raw memory data
+ */
+export interface MigrationResult {
+    /** Data in the current schema */
+    data: MemoryStoreData;
+
+    /** Schema version the data was read as */
+    fromVersion: string;
+
+    /** Whether any migration step was applied */
+    migrated: boolean;
+}
+
+/**
+ * Create an empty store in the current schema
+ */
+export function createEmptyStoreData(): MemoryStoreData {
+    return {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        lastUpdated: getTimestamp(),
+        revision: 0,
+        vendorMemories: {},
+        correctionMemories: [],
+        resolutionMemories: [],
+        duplicates: [],
+        stats: {
+            totalInvoicesProcessed: 0,
+            totalCorrectionsApplied: 0,
+            totalHumanReviewsRequested: 0,
+            averageConfidence: 0,
+        },
+    };
+}
+
+// =============================================================================
+// Migration Entry Point
+// =============================================================================
+
+/**
+ * Migrate raw memory data (parsed JSON) into the current schema
+ *
+ * @throws Error if the data is not a memory store or was written by a newer major version
+ */
+export function migrateMemoryData(raw: unknown): MigrationResult {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Memory data must be a JSON object');
+    }
+
+    const record = raw as Record<string, unknown>;
+    const fromVersion = detectSchemaVersion(record);
+    const major = parseMajor(fromVersion);
+    const currentMajor = parseMajor(CURRENT_SCHEMA_VERSION);
+
+    if (major > currentMajor) {
+        throw new UnsupportedSchemaVersionError(fromVersion);
+    }
+
+    let data: MemoryStoreData;
+    if (major < 2) {
+        data = migrateV1ToV2(record as Partial<LegacyMemoryStoreData>);
+    } else {
+        data = fillDefaults(record as Partial<MemoryStoreData>);
+    }
+
+    return {
+        data,
+        fromVersion,
+        migrated: fromVersion !== CURRENT_SCHEMA_VERSION,
+    };
+}
+
+/**
+ * Detect the schema version (files without one are treated by their collection names)
+ */
+function detectSchemaVersion(record: Record<string, unknown>): string {
+    if (typeof record.schemaVersion === 'string' && record.schemaVersion.length > 0) {
+        return record.schemaVersion;
+    }
+    return 'vendors' in record || 'corrections' in record ? '1.0.0' : CURRENT_SCHEMA_VERSION;
+}
+
+function parseMajor(version: string): number {
+    const major = parseInt(version.split('.')[0], 10);
+    return isNaN(major) ? 0 : major;
+}
+
+// =============================================================================
+// Migration Steps
+// =============================================================================
+
+/**
+ * 1.x -> 2.0.0: rename collections
+ */
+function migrateV1ToV2(legacy: Partial<LegacyMemoryStoreData>): MemoryStoreData {
+    return fillDefaults({
+        lastUpdated: legacy.lastUpdated,
+        vendorMemories: legacy.vendors,
+        correctionMemories: legacy.corrections,
+        resolutionMemories: legacy.resolutions,
+        duplicates: legacy.duplicates,
+        stats: legacy.stats,
+    });
+}
+
+/**
+ * Fill missing collections, stats and record fields with defaults
+ */
+function fillDefaults(partial: Partial<MemoryStoreData>): MemoryStoreData {
+    const empty = createEmptyStoreData();
+
+    const vendorMemories: MemoryStoreData['vendorMemories'] = {};
+    for (const [key, vendor] of Object.entries(partial.vendorMemories || {})) {
+        vendorMemories[key] = {
+            ...withRecordDefaults(vendor, 'vendor'),
+            nameVariations: vendor.nameVariations || [],
+            fieldMappings: vendor.fieldMappings || {},
+            behaviors: vendor.behaviors || {},
+            canonicalId: vendor.canonicalId || key,
+            canonicalName: vendor.canonicalName || key,
+        };
+    }
+
+    return {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        lastUpdated: partial.lastUpdated || empty.lastUpdated,
+        revision: partial.revision ?? 0,
+        vendorMemories,
+        correctionMemories: (partial.correctionMemories || []).map((c) => withRecordDefaults(c, 'correction')),
+        resolutionMemories: (partial.resolutionMemories || []).map((r) => ({
+            ...withRecordDefaults(r, 'resolution'),
+            decisions: r.decisions || [],
+        })),
+        duplicates: (partial.duplicates || []).map((d) => ({
+            ...withRecordDefaults(d, 'duplicate'),
+            duplicateInvoiceIds: d.duplicateInvoiceIds || [],
+        })),
+        stats: { ...empty.stats, ...partial.stats },
+    };
+}
+
+/**
+ * Fill base record fields that older files may not have written
+ */
+function withRecordDefaults<T extends MemoryRecord>(record: T, type: T['type']): T {
+    const timestamp = record.updatedAt || record.createdAt || getTimestamp();
+    return {
+        ...record,
+        type,
+        createdAt: record.createdAt || timestamp,
+        updatedAt: timestamp,
+        confidence: typeof record.confidence === 'number' ? record.confidence : 0.5,
+        reinforcementCount: record.reinforcementCount ?? 1,
+        contradictionCount: record.contradictionCount ?? 0,
+        isActive: record.isActive ?? true,
+    };
+}
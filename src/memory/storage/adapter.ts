@@ -0,0 +1,49 @@
+/**
+ * Memory Storage Adapter
+ *
+ * Contract between MemoryStore and the medium its data is persisted to.
+ */
+
+import { MemoryStoreData } from '../../types';
+import { MigrationResult } from '../migrations';
+import { MemoryJournal } from './journal';
+
+/**
+ * Storage backend for the memory store
+ */
+export interface MemoryStorageAdapter {
+    /** Where the data lives (for logs) */
+    readonly description: string;
+
+    /** Event journal recording every mutation (optional) */
+    readonly journal?: MemoryJournal;
+
+    /** File to lock while loading and saving, for adapters backed by a shared file */
+    readonly lockPath?: string;
+
+    /**
+     * Load stored data, migrated to the current schema
+     *
+     * @returns null when nothing has been stored yet
+     */
+    load(): Promise<MigrationResult | null>;
+
+    /**
+     * Persist the full store
+     */
+    save(data: MemoryStoreData): Promise<void>;
+}
+
+/**
+ * Raised in strict mode when stored memory is corrupt and cannot be recovered
+ */
+export class MemoryStoreCorruptError extends Error {
+    constructor(
+        message: string,
+        public readonly filePath: string,
+        public readonly quarantinePath: string
+    ) {
+        super(message);
+        this.name = 'MemoryStoreCorruptError';
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * In-Memory Storage Adapter
+ *
+ * Keeps the store in process memory only. Useful for tests, previews and
+ * isolated runs that must not touch disk.
+ */
+
+import { MemoryStoreData } from '../../types';
+import { MigrationResult, migrateMemoryData } from '../migrations';
+import { MemoryStorageAdapter } from './adapter';
+import { MemoryJournal, InMemoryJournal } from './journal';
+
+/**
+ * Options for the in-memory adapter
+ */
+export interface InMemoryStorageOptions {
+    /** Keep an in-memory event journal (default: true) */
+    journal?: boolean;
+}
+
+export class InMemoryStorageAdapter implements MemoryStorageAdapter {
+    readonly description = 'in-memory storage';
+    readonly journal?: MemoryJournal;
+    private snapshot: string | null;
+
+    /**
+     * @param initialData Optional data to start from (any supported schema version)
+     */
+    constructor(initialData?: unknown, options: InMemoryStorageOptions = {}) {
+        this.snapshot = initialData === undefined ? null : JSON.stringify(initialData);
+        if (options.journal ?? true) {
+            this.journal = new InMemoryJournal();
+        }
+    }
+
+    load(): Promise<MigrationResult | null> {
+        try {
+            return Promise.resolve(this.snapshot === null ? null : migrateMemoryData(JSON.parse(this.snapshot)));
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    save(data: MemoryStoreData): Promise<void> {
+        // Store a serialized copy so later in-place mutations are not persisted implicitly
+        this.snapshot = JSON.stringify(data);
+        return Promise.resolve();
+    }
+}
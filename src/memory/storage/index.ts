@@ -0,0 +1,49 @@
+/**
+ * Memory storage module exports
+ */
+import * as path from 'path';
+import { PERSISTENCE } from '../../config';
+import { MemoryStorageAdapter } from './adapter';
+import { InMemoryStorageAdapter } from './inMemoryAdapter';
+import { JsonFileStorageAdapter, JsonFileStorageOptions } from './jsonFileAdapter';
+import { JsonlStorageAdapter } from './jsonlAdapter';
+
+export * from './adapter';
+export * from './inMemoryAdapter';
+export * from './jsonFileAdapter';
+export * from './jsonlAdapter';
+export * from './journal';
+
+/**
+ * Built-in storage adapter kinds
+ */
+export type StorageAdapterKind = 'json' | 'jsonl' | 'memory';
+
+/**
+ * Default file per adapter kind
+ */
+const DEFAULT_PATHS: Record<Exclude<StorageAdapterKind, 'memory'>, string> = {
+    json: path.join(process.cwd(), 'data', 'memory.json'),
+    jsonl: path.join(process.cwd(), 'data', 'memory.jsonl'),
+};
+
+/**
+ * Create a built-in storage adapter
+ *
+ * @param kind Adapter kind (defaults to PERSISTENCE.ADAPTER)
+ * @param filePath File for the json/jsonl adapters (defaults to data/memory.json or data/memory.jsonl)
+ */
+export function createStorageAdapter(
+    kind: StorageAdapterKind = PERSISTENCE.ADAPTER,
+    filePath?: string,
+    options: JsonFileStorageOptions = {}
+): MemoryStorageAdapter {
+    switch (kind) {
+        case 'memory':
+            return new InMemoryStorageAdapter(undefined, options);
+        case 'jsonl':
+            return new JsonlStorageAdapter(filePath || DEFAULT_PATHS.jsonl, options);
+        case 'json':
+            return new JsonFileStorageAdapter(filePath || DEFAULT_PATHS.json, options);
+    }
+}
@@ -0,0 +1,218 @@
+/**
+ * Memory Journal
+ *
+ * Append-only log of every memory mutation. Each event carries the record's
+ * state after the mutation, so replaying events in order rebuilds the store
+ * and replaying them up to a timestamp shows what the system believed then.
+ */
+
+import * as fs from 'fs';
+import { MemoryEvent, MemoryEventType, MemoryRecord, MemoryStoreData } from '../../types';
+import { getTimestamp, logger, fileExists, ensureDirectory } from '../../utils';
+import { createEmptyStoreData } from '../migrations';
+
+/**
+ * Event log backing a memory store
+ */
+export interface MemoryJournal {
+    /** Append events in order */
+    append(events: MemoryEvent[]): Promise<void>;
+
+    /** Read all events in order */
+    read(): Promise<MemoryEvent[]>;
+
+    /** Whether no event has been recorded yet */
+    isEmpty(): Promise<boolean>;
+}
+
+// =============================================================================
+// Journal Implementations
+// =============================================================================
+
+/**
+ * Journal stored as JSON lines next to the memory file
+ */
+export class FileMemoryJournal implements MemoryJournal {
+    constructor(private readonly filePath: string) {}
+
+    async append(events: MemoryEvent[]): Promise<void> {
+        if (events.length === 0) return;
+
+        await ensureDirectory(this.filePath);
+        // Start on a fresh line if a previous append was interrupted
+        const prefix = (await this.endsMidLine()) ? '\n' : '';
+        await fs.promises.appendFile(
+            this.filePath,
+            prefix + events.map((event) => JSON.stringify(event)).join('\n') + '\n',
+            'utf-8'
+        );
+    }
+
+    async read(): Promise<MemoryEvent[]> {
+        const events: MemoryEvent[] = [];
+        const lines = (await this.readRaw()).split('\n');
+
+        lines.forEach((line, index) => {
+            if (line.trim().length === 0) return;
+            try {
+                events.push(JSON.parse(line) as MemoryEvent);
+            } catch {
+                logger.warn(`Skipping unreadable journal line ${index + 1} in ${this.filePath}`);
+            }
+        });
+
+        return events;
+    }
+
+    async isEmpty(): Promise<boolean> {
+        return (await this.readRaw()).trim().length === 0;
+    }
+
+    private async endsMidLine(): Promise<boolean> {
+        if (!(await fileExists(this.filePath))) return false;
+
+        const handle = await fs.promises.open(this.filePath, 'r');
+        try {
+            const { size } = await handle.stat();
+            if (size === 0) return false;
+
+            const buffer = Buffer.alloc(1);
+            await handle.read(buffer, 0, 1, size - 1);
+            return buffer.toString('utf-8') !== '\n';
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private async readRaw(): Promise<string> {
+        if (!(await fileExists(this.filePath))) {
+            return '';
+        }
+        return fs.promises.readFile(this.filePath, 'utf-8');
+    }
+}
+
+/**
+ * Journal kept in process memory
+ */
+export class InMemoryJournal implements MemoryJournal {
+    private events: MemoryEvent[] = [];
+
+    append(events: MemoryEvent[]): Promise<void> {
+        this.events.push(...events.map(cloneEvent));
+        return Promise.resolve();
+    }
+
+    read(): Promise<MemoryEvent[]> {
+        return Promise.resolve(this.events.map(cloneEvent));
+    }
+
+    isEmpty(): Promise<boolean> {
+        return Promise.resolve(this.events.length === 0);
+    }
+}
+
+/**
+ * Journal file that belongs to a memory file (data/memory.json -> data/memory.journal.jsonl)
+ */
+export function journalPathFor(memoryFilePath: string): string {
+    return memoryFilePath.replace(/\.jsonl?$/, '') + '.journal.jsonl';
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+/**
+ * Key a record is stored under (vendors by canonical ID, everything else by ID)
+ */
+export function recordKeyOf(record: MemoryRecord): string {
+    return record.type === 'vendor' ? record.canonicalId : record.id;
+}
+
+/**
+ * Create an event capturing a record's state after a mutation
+ */
+export function createRecordEvent(type: MemoryEventType, record: MemoryRecord): MemoryEvent {
+    return {
+        timestamp: getTimestamp(),
+        type,
+        memoryType: record.type,
+        recordKey: recordKeyOf(record),
+        after: JSON.parse(JSON.stringify(record)) as MemoryRecord,
+    };
+}
+
+/**
+ * Create an event capturing the store statistics
+ */
+export function createStatsEvent(stats: MemoryStoreData['stats'], type: MemoryEventType = 'updateStats'): MemoryEvent {
+    return { timestamp: getTimestamp(), type, stats: { ...stats } };
+}
+
+function cloneEvent(event: MemoryEvent): MemoryEvent {
+    return JSON.parse(JSON.stringify(event)) as MemoryEvent;
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Rebuild store data by replaying events
+ *
+ * @param events Events in journal order
+ * @param until Only replay events at or before this time
+ */
+export function replayEvents(events: MemoryEvent[], until?: Date): MemoryStoreData {
+    const data = createEmptyStoreData();
+    const cutoff = until?.getTime();
+
+    for (const event of events) {
+        if (cutoff !== undefined && new Date(event.timestamp).getTime() > cutoff) continue;
+
+        if (event.stats) {
+            data.stats = { ...event.stats };
+        }
+        if (event.memoryType && event.recordKey) {
+            applyRecordEvent(data, event.memoryType, event.recordKey, event.after ?? null);
+        }
+        data.lastUpdated = event.timestamp;
+    }
+
+    return data;
+}
+
+function applyRecordEvent(
+    data: MemoryStoreData,
+    memoryType: MemoryRecord['type'],
+    key: string,
+    after: MemoryRecord | null
+): void {
+    if (memoryType === 'vendor') {
+        if (after && after.type === 'vendor') {
+            data.vendorMemories[key] = after;
+        } else {
+            delete data.vendorMemories[key];
+        }
+        return;
+    }
+
+    const collection: MemoryRecord[] =
+        memoryType === 'correction'
+            ? data.correctionMemories
+            : memoryType === 'resolution'
+                ? data.resolutionMemories
+                : data.duplicates;
+
+    const index = collection.findIndex((record) => record.id === key);
+    if (after) {
+        if (index >= 0) {
+            collection[index] = after;
+        } else {
+            collection.push(after);
+        }
+    } else if (index >= 0) {
+        collection.splice(index, 1);
+    }
+}
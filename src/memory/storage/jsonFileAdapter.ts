@@ -0,0 +1,130 @@
+/**
+ * JSON File Storage Adapter
+ *
+ * Stores the whole memory store as one JSON document (data/memory.json):
+ * - Atomic writes (temp file + rename)
+ * - Rotating backups of the previous version
+ * - Corrupt files are quarantined and the newest readable backup is restored
+ */
+
+import * as fs from 'fs';
+import { MemoryStoreData } from '../../types';
+import {
+    logger,
+    fileExists,
+    writeFileAtomic,
+    rotateBackups,
+    listBackups,
+    quarantineFile,
+} from '../../utils';
+import { PERSISTENCE } from '../../config';
+import { MigrationResult, UnsupportedSchemaVersionError, migrateMemoryData } from '../migrations';
+import { MemoryStorageAdapter, MemoryStoreCorruptError } from './adapter';
+import { MemoryJournal, FileMemoryJournal, journalPathFor } from './journal';
+
+/**
+ * Options for the JSON file adapter
+ */
+export interface JsonFileStorageOptions {
+    /** Throw instead of starting empty when the file is corrupt and no backup loads */
+    strict?: boolean;
+
+    /** Number of rotating backups to keep */
+    backupCount?: number;
+
+    /** Record mutations in an event journal next to the file (defaults to PERSISTENCE.JOURNAL) */
+    journal?: boolean;
+}
+
+export class JsonFileStorageAdapter implements MemoryStorageAdapter {
+    readonly description: string;
+    readonly journal?: MemoryJournal;
+    readonly lockPath: string;
+    private strict: boolean;
+    private backupCount: number;
+
+    /** The file on disk is corrupt and already quarantined (kept out of the backups) */
+    private corrupt = false;
+
+    constructor(private readonly filePath: string, options: JsonFileStorageOptions = {}) {
+        this.description = filePath;
+        this.lockPath = filePath;
+        this.strict = options.strict ?? PERSISTENCE.STRICT_LOAD;
+        this.backupCount = options.backupCount ?? PERSISTENCE.BACKUP_COUNT;
+        if (options.journal ?? PERSISTENCE.JOURNAL) {
+            this.journal = new FileMemoryJournal(journalPathFor(filePath));
+        }
+    }
+
+    async load(): Promise<MigrationResult | null> {
+        if (!(await fileExists(this.filePath))) {
+            return null;
+        }
+
+        try {
+            const result = await readStoreFile(this.filePath);
+            if (result.migrated) {
+                // Keep the original file before the migrated store replaces it
+                const migrationBackup = `${this.filePath}.v${result.fromVersion}.bak`;
+                await fs.promises.copyFile(this.filePath, migrationBackup);
+                logger.info(`Kept pre-migration memory file at ${migrationBackup}`);
+            }
+            return result;
+        } catch (error) {
+            if (error instanceof UnsupportedSchemaVersionError) {
+                throw error;
+            }
+            logger.error(`Failed to load memory store from ${this.filePath}`, error);
+            return this.recoverFromCorruptFile();
+        }
+    }
+
+    async save(data: MemoryStoreData): Promise<void> {
+        if (!this.corrupt) {
+            await rotateBackups(this.filePath, this.backupCount);
+        }
+        await writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+        this.corrupt = false;
+    }
+
+    /**
+     * Quarantine a corrupt memory file and restore from the newest readable backup
+     */
+    private async recoverFromCorruptFile(): Promise<MigrationResult | null> {
+        const quarantinePath = await quarantineFile(this.filePath);
+        logger.warn(`Corrupt memory file quarantined at ${quarantinePath}`);
+
+        for (const backup of await listBackups(this.filePath, this.backupCount)) {
+            try {
+                const result = await readStoreFile(backup);
+                logger.warn(`Memory store restored from backup ${backup}`);
+                // Write the restored data without rotating the corrupt file into the backups
+                await writeFileAtomic(this.filePath, JSON.stringify(result.data, null, 2));
+                return result;
+            } catch (error) {
+                logger.warn(`Backup ${backup} is not readable either`, error);
+            }
+        }
+
+        if (this.strict) {
+            throw new MemoryStoreCorruptError(
+                `Memory file ${this.filePath} is corrupt and no backup could be restored ` +
+                `(quarantined at ${quarantinePath})`,
+                this.filePath,
+                quarantinePath
+            );
+        }
+
+        logger.warn(`Starting with an empty store (corrupt file kept at ${quarantinePath})`);
+        this.corrupt = true;
+        return null;
+    }
+}
+
+/**
+ * Read, parse and migrate a memory file
+ */
+async function readStoreFile(filePath: string): Promise<MigrationResult> {
+    const raw = await fs.promises.readFile(filePath, 'utf-8');
+    return migrateMemoryData(JSON.parse(raw));
+}
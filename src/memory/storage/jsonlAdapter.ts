@@ -0,0 +1,229 @@
+/**
+ * JSONL Storage Adapter
+ *
+ * Append-only storage: each save appends one line per record that changed
+ * since the last save (plus deletions and a metadata line). Loading replays
+ * the file; the last line per record wins. A truncated final line from an
+ * interrupted write is skipped. The file is compacted once it grows well
+ * beyond the number of live records.
+ */
+
+import * as fs from 'fs';
+import { MemoryStoreData, MemoryRecord } from '../../types';
+import { logger, fileExists, ensureDirectory, writeFileAtomic } from '../../utils';
+import { PERSISTENCE } from '../../config';
+import { MigrationResult, migrateMemoryData } from '../migrations';
+import { MemoryStorageAdapter } from './adapter';
+import { MemoryJournal, FileMemoryJournal, journalPathFor } from './journal';
+
+type Collection = 'vendorMemories' | 'correctionMemories' | 'resolutionMemories' | 'duplicates';
+
+const COLLECTIONS: Collection[] = ['vendorMemories', 'correctionMemories', 'resolutionMemories', 'duplicates'];
+
+/**
+ * One line of the JSONL file
+ */
+type JournalLine =
+    | { op: 'meta'; schemaVersion: string; lastUpdated: string; revision: number; stats: MemoryStoreData['stats'] }
+    | { op: 'put'; collection: Collection; key: string; record: MemoryRecord }
+    | { op: 'delete'; collection: Collection; key: string };
+
+/**
+ * Compact when the file holds this many lines per live record (and at least MIN_COMPACT_LINES)
+ */
+const COMPACT_RATIO = 3;
+const MIN_COMPACT_LINES = 1000;
+
+/**
+ * Options for the JSONL adapter
+ */
+export interface JsonlStorageOptions {
+    /** Record mutations in an event journal next to the file (defaults to PERSISTENCE.JOURNAL) */
+    journal?: boolean;
+}
+
+export class JsonlStorageAdapter implements MemoryStorageAdapter {
+    readonly description: string;
+    readonly journal?: MemoryJournal;
+    readonly lockPath: string;
+
+    /** Serialized records as of the last load/save, per collection and key */
+    private persisted = new Map<string, string>();
+    private persistedMeta = '';
+    private lineCount = 0;
+
+    /** The file ends mid-line (interrupted write); the next append starts a fresh line */
+    private needsNewline = false;
+
+    constructor(private readonly filePath: string, options: JsonlStorageOptions = {}) {
+        this.description = filePath;
+        this.lockPath = filePath;
+        if (options.journal ?? PERSISTENCE.JOURNAL) {
+            this.journal = new FileMemoryJournal(journalPathFor(filePath));
+        }
+    }
+
+    async load(): Promise<MigrationResult | null> {
+        if (!(await fileExists(this.filePath))) {
+            return null;
+        }
+
+        const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+        const lines = raw.split('\n').filter((line) => line.trim().length > 0);
+        this.needsNewline = raw.length > 0 && !raw.endsWith('\n');
+
+        const records = new Map<string, { collection: Collection; key: string; record: MemoryRecord }>();
+        let meta: Extract<JournalLine, { op: 'meta' }> | undefined;
+
+        lines.forEach((line, index) => {
+            let entry: JournalLine;
+            try {
+                entry = JSON.parse(line) as JournalLine;
+            } catch {
+                logger.warn(`Skipping unreadable line ${index + 1} in ${this.filePath}`);
+                return;
+            }
+
+            if (entry.op === 'meta') {
+                meta = entry;
+            } else if (entry.op === 'put') {
+                records.set(recordKey(entry.collection, entry.key), entry);
+            } else if (entry.op === 'delete') {
+                records.delete(recordKey(entry.collection, entry.key));
+            }
+        });
+
+        const rebuilt: Partial<MemoryStoreData> = {
+            schemaVersion: meta?.schemaVersion,
+            lastUpdated: meta?.lastUpdated,
+            revision: meta?.revision,
+            stats: meta?.stats,
+            vendorMemories: {},
+            correctionMemories: [],
+            resolutionMemories: [],
+            duplicates: [],
+        };
+        for (const { collection, key, record } of records.values()) {
+            if (collection === 'vendorMemories') {
+                (rebuilt.vendorMemories as Record<string, MemoryRecord>)[key] = record;
+            } else {
+                (rebuilt[collection] as MemoryRecord[]).push(record);
+            }
+        }
+
+        const result = migrateMemoryData(rebuilt);
+        this.lineCount = lines.length;
+        this.remember(result.data);
+        return result;
+    }
+
+    async save(data: MemoryStoreData): Promise<void> {
+        const lines: JournalLine[] = [];
+        const current = snapshot(data);
+
+        for (const [id, serialized] of current) {
+            if (this.persisted.get(id) !== serialized) {
+                const { collection, key } = parseRecordKey(id);
+                lines.push({ op: 'put', collection, key, record: JSON.parse(serialized) as MemoryRecord });
+            }
+        }
+        for (const id of this.persisted.keys()) {
+            if (!current.has(id)) {
+                lines.push({ op: 'delete', ...parseRecordKey(id) });
+            }
+        }
+
+        // lastUpdated alone does not justify a line; it rides along with real changes
+        const meta = metaLine(data);
+        if (lines.length > 0 || metaKey(meta) !== this.persistedMeta) {
+            lines.push(meta);
+        }
+
+        if (lines.length > 0) {
+            await ensureDirectory(this.filePath);
+            await fs.promises.appendFile(
+                this.filePath,
+                (this.needsNewline ? '\n' : '') + lines.map((line) => JSON.stringify(line)).join('\n') + '\n',
+                'utf-8'
+            );
+            this.lineCount += lines.length;
+            this.needsNewline = false;
+        }
+
+        this.persisted = current;
+        this.persistedMeta = metaKey(meta);
+
+        if (this.lineCount > Math.max(MIN_COMPACT_LINES, current.size * COMPACT_RATIO)) {
+            await this.compact(data);
+        }
+    }
+
+    /**
+     * Rewrite the file with one line per live record
+     */
+    async compact(data: MemoryStoreData): Promise<void> {
+        const current = snapshot(data);
+        const lines: string[] = [JSON.stringify(metaLine(data))];
+        for (const [id, serialized] of current) {
+            const { collection, key } = parseRecordKey(id);
+            lines.push(`{"op":"put","collection":"${collection}","key":${JSON.stringify(key)},"record":${serialized}}`);
+        }
+
+        await writeFileAtomic(this.filePath, lines.join('\n') + '\n');
+        this.lineCount = lines.length;
+        this.needsNewline = false;
+        this.remember(data);
+        logger.debug(`Compacted ${this.filePath} to ${lines.length} line(s)`);
+    }
+
+    private remember(data: MemoryStoreData): void {
+        this.persisted = snapshot(data);
+        this.persistedMeta = metaKey(metaLine(data));
+    }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function recordKey(collection: Collection, key: string): string {
+    return `${collection}/${key}`;
+}
+
+function parseRecordKey(id: string): { collection: Collection; key: string } {
+    const separator = id.indexOf('/');
+    return { collection: id.slice(0, separator) as Collection, key: id.slice(separator + 1) };
+}
+
+/**
+ * Serialize every record, keyed by collection and record key
+ */
+function snapshot(data: MemoryStoreData): Map<string, string> {
+    const result = new Map<string, string>();
+    for (const collection of COLLECTIONS) {
+        if (collection === 'vendorMemories') {
+            for (const [key, vendor] of Object.entries(data.vendorMemories)) {
+                result.set(recordKey(collection, key), JSON.stringify(vendor));
+            }
+        } else {
+            for (const record of data[collection]) {
+                result.set(recordKey(collection, record.id), JSON.stringify(record));
+            }
+        }
+    }
+    return result;
+}
+
+function metaKey(meta: Extract<JournalLine, { op: 'meta' }>): string {
+    return JSON.stringify({ schemaVersion: meta.schemaVersion, revision: meta.revision, stats: meta.stats });
+}
+
+function metaLine(data: MemoryStoreData): Extract<JournalLine, { op: 'meta' }> {
+    return {
+        op: 'meta',
+        schemaVersion: data.schemaVersion,
+        lastUpdated: data.lastUpdated,
+        revision: data.revision,
+        stats: data.stats,
+    };
+}
@@ -0,0 +1,421 @@
+/**
+ * Memory Update Applier
+ *
+ * Executes MemoryUpdate operations (create / update / reinforce / contradict / decay)
+ * against memory collections and reports per-update success or failure.
+ */
+
+import {
+    MemoryUpdate,
+    MemoryUpdateResult,
+    MemoryRecord,
+    VendorMemory,
+    CorrectionMemory,
+    ResolutionMemory,
+    DuplicateRecord,
+} from '../types';
+import { getTimestamp, generateId, logger } from '../utils';
+import {
+    CONFIDENCE_CONFIG,
+    initialConfidence,
+    reinforce,
+    penalize,
+    applyDecay,
+    shouldDeactivate,
+} from './confidence';
+
+/**
+ * Memory collections an update can be applied to
+ */
+export interface MemoryCollections {
+    vendors: Record<string, VendorMemory>;
+    corrections: CorrectionMemory[];
+    resolutions: ResolutionMemory[];
+    duplicates: DuplicateRecord[];
+}
+
+const OPERATIONS: MemoryUpdate['operation'][] = ['create', 'update', 'reinforce', 'contradict', 'decay'];
+const MEMORY_TYPES: MemoryUpdate['memoryType'][] = ['vendor', 'correction', 'resolution', 'duplicate'];
+
+/**
+ * Fields an update operation may never overwrite
+ */
+const PROTECTED_FIELDS = ['id', 'type', 'createdAt'];
+
+/**
+ * ID prefixes per memory type (matches the stores)
+ */
+const ID_PREFIXES: Record<MemoryUpdate['memoryType'], string> = {
+    vendor: 'vendor',
+    correction: 'corr',
+    resolution: 'res',
+    duplicate: 'dup',
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a memory update before applying it
+ *
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateMemoryUpdate(update: MemoryUpdate): string[] {
+    const errors: string[] = [];
+
+    if (!OPERATIONS.includes(update.operation)) {
+        errors.push(`Unknown operation "${String(update.operation)}"`);
+    }
+    if (!MEMORY_TYPES.includes(update.memoryType)) {
+        errors.push(`Unknown memory type "${String(update.memoryType)}"`);
+    }
+    if (!update.data || typeof update.data !== 'object' || Array.isArray(update.data)) {
+        errors.push('Update data must be an object');
+        return errors;
+    }
+
+    const data = update.data as Record<string, unknown>;
+
+    if (data.type !== undefined && data.type !== update.memoryType) {
+        errors.push(`Data type "${String(data.type)}" does not match memory type "${update.memoryType}"`);
+    }
+    if (data.confidence !== undefined && !isConfidence(data.confidence)) {
+        errors.push('Confidence must be a number between 0 and 1');
+    }
+    if (['update', 'reinforce', 'contradict'].includes(update.operation) && !update.recordId) {
+        errors.push(`Operation "${update.operation}" requires a recordId`);
+    }
+
+    if (update.operation === 'create') {
+        errors.push(...validateCreateData(update.memoryType, data));
+    }
+
+    if (update.operation === 'update') {
+        for (const field of PROTECTED_FIELDS) {
+            if (field !== 'type' && data[field] !== undefined) {
+                errors.push(`Field "${field}" cannot be updated`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Validate the required fields of a create payload
+ */
+function validateCreateData(memoryType: MemoryUpdate['memoryType'], data: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    const requireString = (field: string): void => {
+        const value = data[field];
+        if (typeof value !== 'string' || value.length === 0) {
+            errors.push(`Field "${field}" is required for ${memoryType} memories`);
+        }
+    };
+
+    switch (memoryType) {
+        case 'vendor':
+            requireString('canonicalId');
+            break;
+
+        case 'correction': {
+            requireString('suggestedAction');
+            const pattern = data.pattern as Record<string, unknown> | undefined;
+            if (!pattern || typeof pattern.type !== 'string' || typeof pattern.signature !== 'string') {
+                errors.push('Field "pattern" with type and signature is required for correction memories');
+            }
+            break;
+        }
+
+        case 'resolution':
+            requireString('contextHash');
+            if (data.decisions !== undefined && !Array.isArray(data.decisions)) {
+                errors.push('Field "decisions" must be an array');
+            }
+            break;
+
+        case 'duplicate':
+            requireString('duplicateHash');
+            requireString('originalInvoiceId');
+            requireString('vendorId');
+            requireString('invoiceNumber');
+            if (typeof data.amount !== 'number') {
+                errors.push('Field "amount" is required for duplicate records');
+            }
+            break;
+    }
+
+    return errors;
+}
+
+function isConfidence(value: unknown): boolean {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+// =============================================================================
+// Applying Updates
+// =============================================================================
+
+/**
+ * Apply a batch of memory updates
+ *
+ * Updates are applied in order; a failed update does not stop the batch.
+ */
+export function applyMemoryUpdates(
+    collections: MemoryCollections,
+    updates: MemoryUpdate[]
+): MemoryUpdateResult[] {
+    return updates.map((update) => applyMemoryUpdate(collections, update));
+}
+
+/**
+ * Apply a single memory update
+ */
+export function applyMemoryUpdate(
+    collections: MemoryCollections,
+    update: MemoryUpdate
+): MemoryUpdateResult {
+    const errors = validateMemoryUpdate(update);
+    if (errors.length > 0) {
+        return fail(update, errors.join('; '));
+    }
+
+    try {
+        switch (update.operation) {
+            case 'create':
+                return createRecord(collections, update);
+
+            case 'update':
+            case 'reinforce':
+            case 'contradict': {
+                const record = findRecord(collections, update.memoryType, update.recordId as string);
+                if (!record) {
+                    return fail(update, `No ${update.memoryType} memory with ID "${update.recordId}"`);
+                }
+
+                if (update.operation === 'update') {
+                    updateRecord(record, update.data);
+                } else if (update.operation === 'reinforce') {
+                    reinforceRecord(record);
+                } else {
+                    contradictRecord(record);
+                }
+                return { update, success: true, recordId: record.id };
+            }
+
+            case 'decay': {
+                const now = new Date();
+                if (update.recordId) {
+                    const record = findRecord(collections, update.memoryType, update.recordId);
+                    if (!record) {
+                        return fail(update, `No ${update.memoryType} memory with ID "${update.recordId}"`);
+                    }
+                    decayRecord(record, now);
+                    return { update, success: true, recordId: record.id };
+                }
+
+                for (const record of listRecords(collections, update.memoryType)) {
+                    decayRecord(record, now);
+                }
+                return { update, success: true };
+            }
+        }
+    } catch (error) {
+        return fail(update, error instanceof Error ? error.message : String(error));
+    }
+}
+
+function fail(update: MemoryUpdate, error: string): MemoryUpdateResult {
+    logger.warn(`Memory update failed (${update.operation} ${update.memoryType}): ${error}`);
+    return { update, success: false, error };
+}
+
+/**
+ * Create a new memory record from an update payload
+ */
+function createRecord(collections: MemoryCollections, update: MemoryUpdate): MemoryUpdateResult {
+    const now = getTimestamp();
+    const base = {
+        id: generateId(ID_PREFIXES[update.memoryType]),
+        createdAt: now,
+        updatedAt: now,
+        confidence: update.data.confidence ?? initialConfidence(),
+        reinforcementCount: 1,
+        contradictionCount: 0,
+        isActive: true,
+    };
+
+    switch (update.memoryType) {
+        case 'vendor': {
+            const data = update.data as Partial<VendorMemory>;
+            const canonicalId = data.canonicalId as string;
+            if (collections.vendors[canonicalId]) {
+                return fail(update, `Vendor memory "${canonicalId}" already exists`);
+            }
+
+            const vendor: VendorMemory = {
+                ...base,
+                nameVariations: [],
+                fieldMappings: {},
+                behaviors: {},
+                ...data,
+                canonicalName: data.canonicalName || canonicalId,
+                canonicalId,
+                type: 'vendor',
+            };
+            collections.vendors[canonicalId] = vendor;
+            return { update, success: true, recordId: vendor.id };
+        }
+
+        case 'correction': {
+            const data = update.data as Partial<CorrectionMemory>;
+            const correction: CorrectionMemory = {
+                ...base,
+                humanApproved: false,
+                ...(data as Pick<CorrectionMemory, 'pattern' | 'suggestedAction'>),
+                type: 'correction',
+            };
+            collections.corrections.push(correction);
+            return { update, success: true, recordId: correction.id };
+        }
+
+        case 'resolution': {
+            const data = update.data as Partial<ResolutionMemory>;
+            const resolution: ResolutionMemory = {
+                ...base,
+                decisions: [],
+                ...(data as Pick<ResolutionMemory, 'contextHash'>),
+                type: 'resolution',
+            };
+            collections.resolutions.push(resolution);
+            return { update, success: true, recordId: resolution.id };
+        }
+
+        case 'duplicate': {
+            const data = update.data as Partial<DuplicateRecord>;
+            if (collections.duplicates.some((d) => d.duplicateHash === data.duplicateHash)) {
+                return fail(update, `Duplicate hash "${data.duplicateHash}" already recorded`);
+            }
+
+            const duplicate: DuplicateRecord = {
+                ...base,
+                duplicateInvoiceIds: [],
+                confirmedDuplicate: false,
+                resolution: 'pending',
+                ...(data as Pick<
+                    DuplicateRecord,
+                    'duplicateHash' | 'originalInvoiceId' | 'vendorId' | 'invoiceNumber' | 'amount'
+                >),
+                type: 'duplicate',
+            };
+            collections.duplicates.push(duplicate);
+            return { update, success: true, recordId: duplicate.id };
+        }
+    }
+}
+
+// =============================================================================
+// Record Operations
+// =============================================================================
+
+/**
+ * Merge update data into a record (protected fields are kept)
+ */
+export function updateRecord(record: MemoryRecord, data: Partial<MemoryRecord>): void {
+    const changes: Record<string, unknown> = { ...data };
+    for (const field of PROTECTED_FIELDS) {
+        delete changes[field];
+    }
+
+    Object.assign(record, changes);
+    record.updatedAt = getTimestamp();
+}
+
+/**
+ * Reinforce a record (increases confidence)
+ */
+export function reinforceRecord(record: MemoryRecord): void {
+    record.confidence = reinforce(record.confidence);
+    record.reinforcementCount += 1;
+    record.updatedAt = getTimestamp();
+}
+
+/**
+ * Contradict a record (decreases confidence, deactivates below threshold)
+ */
+export function contradictRecord(record: MemoryRecord): void {
+    record.confidence = penalize(record.confidence);
+    record.contradictionCount += 1;
+    record.updatedAt = getTimestamp();
+
+    if (shouldDeactivate(record.confidence)) {
+        record.isActive = false;
+        logger.info(`Memory ${record.id} deactivated due to low confidence`);
+    }
+}
+
+/**
+ * Apply time-based decay to a record
+ *
+ * @param decayRate Optional daily decay rate overriding the configured rate
+ * @returns True if the confidence changed
+ */
+export function decayRecord(record: MemoryRecord, now: Date, decayRate?: number): boolean {
+    if (!record.isActive) return false;
+
+    const lastUpdated = new Date(record.updatedAt);
+    let newConfidence: number;
+
+    if (decayRate === undefined) {
+        newConfidence = applyDecay(record.confidence, lastUpdated, now);
+    } else {
+        const msPerDay = 24 * 60 * 60 * 1000;
+        const decayDays =
+            (now.getTime() - lastUpdated.getTime()) / msPerDay - CONFIDENCE_CONFIG.DECAY_GRACE_PERIOD_DAYS;
+        newConfidence =
+            decayDays > 0 ? record.confidence * Math.pow(1 - decayRate, decayDays) : record.confidence;
+    }
+
+    if (newConfidence === record.confidence) return false;
+
+    record.confidence = newConfidence;
+    if (shouldDeactivate(newConfidence)) {
+        record.isActive = false;
+        logger.debug(`Memory ${record.id} deactivated due to decay`);
+    }
+    return true;
+}
+
+/**
+ * Find a record of a memory type by ID (vendors also by canonical ID)
+ */
+export function findRecord(
+    collections: MemoryCollections,
+    memoryType: MemoryUpdate['memoryType'],
+    recordId: string
+): MemoryRecord | undefined {
+    if (memoryType === 'vendor' && collections.vendors[recordId]) {
+        return collections.vendors[recordId];
+    }
+    return listRecords(collections, memoryType).find((record) => record.id === recordId);
+}
+
+/**
+ * List all records of a memory type
+ */
+export function listRecords(
+    collections: MemoryCollections,
+    memoryType: MemoryUpdate['memoryType']
+): MemoryRecord[] {
+    switch (memoryType) {
+        case 'vendor':
+            return Object.values(collections.vendors);
+        case 'correction':
+            return collections.corrections;
+        case 'resolution':
+            return collections.resolutions;
+        case 'duplicate':
+            return collections.duplicates;
+    }
+}
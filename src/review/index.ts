@@ -0,0 +1,5 @@
+/**
+ * Review module exports
+ */
+export * from './reviewQueue';
+export * from './session';
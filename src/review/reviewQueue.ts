@@ -0,0 +1,524 @@
+/**
+ * Human Review Queue
+ *
+ * Holds invoices escalated to human review until a reviewer has dealt with them:
+ * - Reviewers claim items (or are assigned them) and release them again
+ * - Each proposed correction is approved, rejected or modified on its own
+ * - Completing an item feeds the decisions into memory (see applyHumanReview)
+ *
+ * The queue is persisted as one JSON file and every change re-reads it under
+ * its lock, so several reviewers (processes) can work the same queue.
+ * Without a path the queue lives in memory only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    InvoiceInput,
+    InvoiceDecisionOutput,
+    ProposedCorrection,
+    HumanFieldCorrection,
+} from '../types';
+import { REVIEW_QUEUE } from '../config';
+import { MemoryStore } from '../memory';
+import { applyHumanReview, CorrectionReview, HumanReviewOutcome } from '../core';
+import { generateId, getTimestamp, logger, writeFileAtomic, withFileLock } from '../utils';
+
+/**
+ * Default path for the review queue
+ */
+export const DEFAULT_REVIEW_QUEUE_PATH = path.join(process.cwd(), 'data', 'review-queue.json');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where an item stands (a claimed item whose claim lapsed counts as pending)
+ */
+export type ReviewItemStatus = 'pending' | 'claimed' | 'completed';
+
+/**
+ * A reviewer's decision on one queued correction
+ */
+export interface QueuedCorrectionDecision {
+    action: 'approved' | 'rejected' | 'modified';
+
+    /** Value chosen by the reviewer (modified only) */
+    value?: unknown;
+
+    reason?: string;
+    userId: string;
+    decidedAt: string;
+}
+
+/**
+ * A proposed correction waiting for a reviewer's decision
+ */
+export interface QueuedCorrection {
+    /** Position in the output's proposedCorrections */
+    index: number;
+
+    correction: ProposedCorrection;
+
+    /** Set once a reviewer decided on the correction */
+    decision?: QueuedCorrectionDecision;
+}
+
+/**
+ * An escalated invoice in the queue
+ */
+export interface ReviewItem {
+    id: string;
+    invoiceId: string;
+    vendorName: string;
+
+    /** Invoice as it was processed */
+    invoice: InvoiceInput;
+
+    /** Pipeline output that escalated the invoice */
+    output: InvoiceDecisionOutput;
+
+    status: ReviewItemStatus;
+    enqueuedAt: string;
+
+    /** Reviewer holding the item */
+    assignee?: string;
+    claimedAt?: string;
+
+    corrections: QueuedCorrection[];
+
+    completedAt?: string;
+    completedBy?: string;
+    finalDecision?: 'approved' | 'rejected';
+
+    /** Decisions recorded on correction memories (revertible by ID) */
+    decisionIds?: string[];
+}
+
+/**
+ * Filters for listing queue items
+ */
+export interface ReviewQueueFilter {
+    status?: ReviewItemStatus;
+    assignee?: string;
+
+    /** Vendor name (case-insensitive substring) */
+    vendor?: string;
+}
+
+/**
+ * Backlog figures
+ */
+export interface ReviewQueueStats {
+    /** Items waiting for a reviewer, including items whose claim lapsed */
+    pending: number;
+
+    /** Items held by a reviewer */
+    claimed: number;
+
+    completed: number;
+
+    /** Items not completed yet (pending + claimed) */
+    backlog: number;
+
+    /** Undecided corrections on backlog items */
+    openCorrections: number;
+
+    /** Time the oldest backlog item has been waiting (0 when the backlog is empty) */
+    oldestAgeMs: number;
+
+    /** Average time backlog items have been waiting */
+    averageAgeMs: number;
+
+    /** Claimed items per reviewer */
+    byAssignee: Record<string, number>;
+
+    /** Backlog items per vendor */
+    byVendor: Record<string, number>;
+}
+
+/**
+ * Queue configuration
+ */
+export interface ReviewQueueOptions {
+    /** Claims older than this lapse (defaults to REVIEW_QUEUE.CLAIM_TIMEOUT_MS) */
+    claimTimeoutMs?: number;
+
+    /** Lock the queue file while changing it (defaults to CONCURRENCY.LOCKING) */
+    locking?: boolean;
+}
+
+/**
+ * Raised when an item is held by another reviewer
+ */
+export class ReviewClaimError extends Error {
+    constructor(
+        public readonly itemId: string,
+        public readonly holder: string | undefined
+    ) {
+        super(
+            holder
+                ? `Review item ${itemId} is claimed by ${holder}`
+                : `Review item ${itemId} must be claimed first`
+        );
+        this.name = 'ReviewClaimError';
+    }
+}
+
+interface ReviewQueueFile {
+    version: 1;
+    items: ReviewItem[];
+}
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+/**
+ * Persistent queue of invoices awaiting human review
+ */
+export class ReviewQueue {
+    private readonly filePath: string | undefined;
+    private readonly claimTimeoutMs: number;
+    private readonly locking: boolean | undefined;
+    private items: ReviewItem[] = [];
+
+    constructor(filePath?: string, options: ReviewQueueOptions = {}) {
+        this.filePath = filePath;
+        this.claimTimeoutMs = options.claimTimeoutMs ?? REVIEW_QUEUE.CLAIM_TIMEOUT_MS;
+        this.locking = options.locking;
+    }
+
+    /**
+     * Load the queue (no-op for an in-memory queue)
+     */
+    async load(): Promise<void> {
+        this.items = await this.readFile();
+    }
+
+    /**
+     * Items matching a filter, oldest first
+     */
+    list(filter: ReviewQueueFilter = {}, now: number = Date.now()): ReviewItem[] {
+        return this.items
+            .map((item) => this.withEffectiveStatus(item, now))
+            .filter((item) => {
+                if (filter.status && item.status !== filter.status) return false;
+                if (filter.assignee && item.assignee !== filter.assignee) return false;
+                if (filter.vendor && !item.vendorName.toLowerCase().includes(filter.vendor.toLowerCase())) {
+                    return false;
+                }
+                return true;
+            })
+            .sort((a, b) => a.enqueuedAt.localeCompare(b.enqueuedAt));
+    }
+
+    get(itemId: string): ReviewItem | undefined {
+        const item = this.items.find((i) => i.id === itemId);
+        return item && this.withEffectiveStatus(item, Date.now());
+    }
+
+    /**
+     * The not yet completed item for an invoice
+     */
+    findOpen(invoiceId: string): ReviewItem | undefined {
+        return this.items.find((i) => i.invoiceId === invoiceId && i.status !== 'completed');
+    }
+
+    /**
+     * Queue an invoice if the pipeline escalated it
+     *
+     * @returns The queued item (the existing one if the invoice is already
+     *          waiting), or undefined when the invoice needs no review
+     */
+    async enqueue(invoice: InvoiceInput, output: InvoiceDecisionOutput): Promise<ReviewItem | undefined> {
+        if (!output.requiresHumanReview) return undefined;
+
+        return this.mutate((items) => {
+            const existing = items.find((i) => i.invoiceId === invoice.invoiceId && i.status !== 'completed');
+            if (existing) return existing;
+
+            const item: ReviewItem = {
+                id: generateId('rev'),
+                invoiceId: invoice.invoiceId,
+                vendorName: invoice.vendor?.name || 'UNKNOWN',
+                invoice,
+                output,
+                status: 'pending',
+                enqueuedAt: getTimestamp(),
+                corrections: output.proposedCorrections.map((correction, index) => ({ index, correction })),
+            };
+            items.push(item);
+            logger.info(`Queued invoice ${invoice.invoiceId} for review (${item.id})`);
+            return item;
+        });
+    }
+
+    /**
+     * Take an item for review
+     *
+     * @throws ReviewClaimError if another reviewer holds the item
+     */
+    async claim(itemId: string, userId: string): Promise<ReviewItem> {
+        return this.mutate((items) => {
+            const item = this.requireOpen(items, itemId);
+            const holder = this.activeHolder(item, Date.now());
+            if (holder && holder !== userId) {
+                throw new ReviewClaimError(itemId, holder);
+            }
+            return this.setHolder(item, userId);
+        });
+    }
+
+    /**
+     * Claim the oldest unclaimed item
+     */
+    async claimNext(userId: string, filter: Omit<ReviewQueueFilter, 'status'> = {}): Promise<ReviewItem | undefined> {
+        return this.mutate((items) => {
+            const next = this.list({ ...filter, status: 'pending' })[0];
+            if (!next) return undefined;
+            return this.setHolder(this.requireOpen(items, next.id), userId);
+        });
+    }
+
+    /**
+     * Hand an item to a reviewer, taking it from whoever held it
+     */
+    async assign(itemId: string, userId: string): Promise<ReviewItem> {
+        return this.mutate((items) => this.setHolder(this.requireOpen(items, itemId), userId));
+    }
+
+    /**
+     * Give an item back to the queue (decisions made so far are kept)
+     *
+     * @param userId Reviewer releasing the item; omit to release regardless of holder
+     */
+    async release(itemId: string, userId?: string): Promise<ReviewItem> {
+        return this.mutate((items) => {
+            const item = this.requireOpen(items, itemId);
+            const holder = this.activeHolder(item, Date.now());
+            if (userId && holder && holder !== userId) {
+                throw new ReviewClaimError(itemId, holder);
+            }
+            item.status = 'pending';
+            delete item.assignee;
+            delete item.claimedAt;
+            return item;
+        });
+    }
+
+    /**
+     * Decide on one queued correction
+     *
+     * @param index Position of the correction in the item's proposedCorrections
+     */
+    async decide(
+        itemId: string,
+        index: number,
+        decision: Omit<QueuedCorrectionDecision, 'userId' | 'decidedAt'>,
+        userId: string
+    ): Promise<ReviewItem> {
+        return this.mutate((items) => {
+            const item = this.requireClaimedBy(items, itemId, userId);
+            const queued = item.corrections.find((c) => c.index === index);
+            if (!queued) {
+                throw new Error(`Review item ${itemId} has no correction #${index}`);
+            }
+            if (decision.action === 'modified' && decision.value === undefined) {
+                throw new Error('A modified decision needs a value');
+            }
+
+            queued.decision = { ...decision, userId, decidedAt: getTimestamp() };
+            item.claimedAt = getTimestamp();
+            return item;
+        });
+    }
+
+    /**
+     * Finish the review of an item and learn from it
+     *
+     * Decided corrections are fed into memory: decisions on learned corrections
+     * reinforce or penalize them, approved and modified suggestions become
+     * correction memories. Undecided corrections are left alone.
+     *
+     * @param corrections Further field corrections made by the reviewer
+     */
+    async complete(
+        itemId: string,
+        finalDecision: 'approved' | 'rejected',
+        userId: string,
+        memoryStore: MemoryStore,
+        corrections: HumanFieldCorrection[] = []
+    ): Promise<{ item: ReviewItem; outcome: HumanReviewOutcome }> {
+        // Check the claim against the stored queue before touching memory
+        await this.load();
+        const claimed = this.requireClaimedBy(this.items, itemId, userId);
+
+        const decisions: CorrectionReview[] = claimed.corrections.flatMap(({ correction, index, decision }) =>
+            decision
+                ? [{ field: correction.field, index, action: decision.action, value: decision.value, reason: decision.reason }]
+                : []
+        );
+
+        const outcome = await applyHumanReview(memoryStore, claimed.invoice, claimed.output, {
+            finalDecision,
+            decisions,
+            corrections,
+            userId,
+        });
+
+        const item = await this.mutate((items) =>
+            this.markCompleted(
+                this.requireOpen(items, itemId),
+                finalDecision,
+                userId,
+                outcome.decisions.map((d) => d.decisionId as string)
+            )
+        );
+        logger.info(`Review of invoice ${item.invoiceId} completed by ${userId} (${finalDecision})`);
+        return { item, outcome };
+    }
+
+    /**
+     * Close the open item of an invoice that was reviewed outside the queue
+     */
+    async close(
+        invoiceId: string,
+        finalDecision: 'approved' | 'rejected',
+        userId?: string,
+        decisionIds: string[] = []
+    ): Promise<ReviewItem | undefined> {
+        return this.mutate((items) => {
+            const item = items.find((i) => i.invoiceId === invoiceId && i.status !== 'completed');
+            return item && this.markCompleted(item, finalDecision, userId, decisionIds);
+        });
+    }
+
+    /**
+     * Backlog counts and ages
+     */
+    getStats(now: number = Date.now()): ReviewQueueStats {
+        const stats: ReviewQueueStats = {
+            pending: 0,
+            claimed: 0,
+            completed: 0,
+            backlog: 0,
+            openCorrections: 0,
+            oldestAgeMs: 0,
+            averageAgeMs: 0,
+            byAssignee: {},
+            byVendor: {},
+        };
+
+        let totalAgeMs = 0;
+        for (const item of this.list({}, now)) {
+            stats[item.status]++;
+            if (item.status === 'completed') continue;
+
+            const ageMs = Math.max(0, now - new Date(item.enqueuedAt).getTime());
+            totalAgeMs += ageMs;
+            stats.oldestAgeMs = Math.max(stats.oldestAgeMs, ageMs);
+            stats.openCorrections += item.corrections.filter((c) => !c.decision).length;
+            stats.byVendor[item.vendorName] = (stats.byVendor[item.vendorName] || 0) + 1;
+            if (item.status === 'claimed' && item.assignee) {
+                stats.byAssignee[item.assignee] = (stats.byAssignee[item.assignee] || 0) + 1;
+            }
+        }
+
+        stats.backlog = stats.pending + stats.claimed;
+        stats.averageAgeMs = stats.backlog > 0 ? Math.round(totalAgeMs / stats.backlog) : 0;
+        return stats;
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    private requireOpen(items: ReviewItem[], itemId: string): ReviewItem {
+        const item = items.find((i) => i.id === itemId);
+        if (!item) {
+            throw new Error(`Review item ${itemId} not found`);
+        }
+        if (item.status === 'completed') {
+            throw new Error(`Review item ${itemId} is already completed`);
+        }
+        return item;
+    }
+
+    private requireClaimedBy(items: ReviewItem[], itemId: string, userId: string): ReviewItem {
+        const item = this.requireOpen(items, itemId);
+        const holder = this.activeHolder(item, Date.now());
+        if (holder !== userId) {
+            throw new ReviewClaimError(itemId, holder);
+        }
+        return item;
+    }
+
+    /**
+     * Reviewer currently holding an item (undefined when unclaimed or the claim lapsed)
+     */
+    private activeHolder(item: ReviewItem, now: number): string | undefined {
+        if (item.status !== 'claimed' || !item.assignee || !item.claimedAt) return undefined;
+        return now - new Date(item.claimedAt).getTime() < this.claimTimeoutMs ? item.assignee : undefined;
+    }
+
+    private withEffectiveStatus(item: ReviewItem, now: number): ReviewItem {
+        if (item.status === 'claimed' && !this.activeHolder(item, now)) {
+            return { ...item, status: 'pending' };
+        }
+        return item;
+    }
+
+    private setHolder(item: ReviewItem, userId: string): ReviewItem {
+        item.status = 'claimed';
+        item.assignee = userId;
+        item.claimedAt = getTimestamp();
+        return item;
+    }
+
+    private markCompleted(
+        item: ReviewItem,
+        finalDecision: 'approved' | 'rejected',
+        userId: string | undefined,
+        decisionIds: string[]
+    ): ReviewItem {
+        item.status = 'completed';
+        item.finalDecision = finalDecision;
+        item.completedAt = getTimestamp();
+        item.completedBy = userId;
+        item.decisionIds = decisionIds;
+        return item;
+    }
+
+    /**
+     * Apply a change to the stored queue: re-read it under its lock,
+     * change it and write it back
+     */
+    private async mutate<T>(fn: (items: ReviewItem[]) => T): Promise<T> {
+        const filePath = this.filePath;
+        if (!filePath) {
+            return fn(this.items);
+        }
+
+        return withFileLock(
+            filePath,
+            async () => {
+                this.items = await this.readFile();
+                const result = fn(this.items);
+                const file: ReviewQueueFile = { version: 1, items: this.items };
+                await writeFileAtomic(filePath, JSON.stringify(file, null, 2));
+                return result;
+            },
+            { enabled: this.locking }
+        );
+    }
+
+    private async readFile(): Promise<ReviewItem[]> {
+        if (!this.filePath || !fs.existsSync(this.filePath)) {
+            return this.items;
+        }
+        const file = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8')) as ReviewQueueFile;
+        return Array.isArray(file.items) ? file.items : [];
+    }
+}
@@ -0,0 +1,320 @@
+/**
+ * Interactive Review Session
+ *
+ * Terminal (readline) front end for the review queue, for reviewers without
+ * a web UI. Walks through queued invoices one at a time: each proposed
+ * correction is shown with its original and proposed value, reasoning and
+ * confidence, and is accepted, rejected or given a new value. Decisions are
+ * written through the queue, so they reach memory the same way as any other
+ * review, with the reviewer's ID recorded.
+ */
+
+import * as readline from 'readline';
+import { MemoryStore } from '../memory';
+import { ReviewQueue, ReviewItem, QueuedCorrection, ReviewClaimError } from './reviewQueue';
+
+/**
+ * Session configuration
+ */
+export interface ReviewSessionOptions {
+    /** Reviewer ID recorded with every decision */
+    userId: string;
+
+    /** Only review invoices of this vendor (case-insensitive substring) */
+    vendor?: string;
+
+    /** Defaults to process.stdin */
+    input?: NodeJS.ReadableStream;
+
+    /** Defaults to process.stdout */
+    output?: NodeJS.WritableStream;
+}
+
+/**
+ * What a session got done
+ */
+export interface ReviewSessionSummary {
+    /** Invoices completed (approved or rejected) */
+    completed: number;
+    approved: number;
+    rejected: number;
+
+    /** Decisions on individual corrections */
+    decisions: number;
+
+    /** Invoices left for later */
+    skipped: number;
+}
+
+type ItemOutcome = 'completed' | 'skipped' | 'quit';
+
+/**
+ * Run an interactive review session until the queue is empty or the reviewer quits
+ */
+export async function runReviewSession(
+    queue: ReviewQueue,
+    memoryStore: MemoryStore,
+    options: ReviewSessionOptions
+): Promise<ReviewSessionSummary> {
+    const input = options.input ?? process.stdin;
+    const output = options.output ?? process.stdout;
+    const rl = readline.createInterface({
+        input,
+        output,
+        // Line editing and Ctrl+C handling on a terminal; plain lines when piped
+        terminal: (input as NodeJS.ReadStream).isTTY === true,
+    });
+    const session = new Session(queue, memoryStore, options.userId, new Prompter(rl, output), output);
+
+    try {
+        await session.run(options.vendor);
+    } finally {
+        rl.close();
+    }
+    return session.summary;
+}
+
+// =============================================================================
+// Session
+// =============================================================================
+
+class Session {
+    readonly summary: ReviewSessionSummary = { completed: 0, approved: 0, rejected: 0, decisions: 0, skipped: 0 };
+    private readonly skipped = new Set<string>();
+
+    constructor(
+        private readonly queue: ReviewQueue,
+        private readonly memoryStore: MemoryStore,
+        private readonly userId: string,
+        private readonly prompter: Prompter,
+        private readonly output: NodeJS.WritableStream
+    ) {}
+
+    async run(vendor?: string): Promise<void> {
+        for (;;) {
+            const item = await this.nextItem(vendor);
+            if (!item) {
+                this.print('\nNo more invoices waiting for review.');
+                break;
+            }
+
+            let outcome: ItemOutcome;
+            try {
+                outcome = await this.reviewItem(item);
+            } catch (error) {
+                this.print(`\n! ${error instanceof Error ? error.message : String(error)}`);
+                this.skipped.add(item.id);
+                continue;
+            }
+
+            if (outcome === 'quit') break;
+        }
+
+        const { completed, approved, rejected, decisions, skipped } = this.summary;
+        this.print(
+            `\nSession finished: ${completed} invoice(s) reviewed (${approved} approved, ${rejected} rejected), ` +
+            `${decisions} correction decision(s), ${skipped} left for later.`
+        );
+    }
+
+    /**
+     * Resume an item this reviewer already holds, else claim the oldest pending one
+     */
+    private async nextItem(vendor?: string): Promise<ReviewItem | undefined> {
+        await this.queue.load();
+        const held = this.queue
+            .list({ status: 'claimed', assignee: this.userId, vendor })
+            .find((item) => !this.skipped.has(item.id));
+        if (held) return held;
+
+        for (const candidate of this.queue.list({ status: 'pending', vendor })) {
+            if (this.skipped.has(candidate.id)) continue;
+            try {
+                return await this.queue.claim(candidate.id, this.userId);
+            } catch (error) {
+                // Taken by another reviewer in the meantime
+                if (!(error instanceof ReviewClaimError)) throw error;
+            }
+        }
+        return undefined;
+    }
+
+    private async reviewItem(item: ReviewItem): Promise<ItemOutcome> {
+        this.printHeader(item);
+
+        for (const queued of item.corrections) {
+            this.printCorrection(queued, item.corrections.length);
+            if (queued.decision) {
+                this.print(`    Already decided: ${queued.decision.action} by ${queued.decision.userId}`);
+                continue;
+            }
+
+            const choice = await this.choose('    [a]ccept, [r]eject, [e]dit value, [s]kip, [q]uit? ', 'aresq');
+            if (choice === 'q') return this.leave(item, 'quit');
+            if (choice === 's') continue;
+
+            if (choice === 'e') {
+                const raw = await this.prompter.ask('    New value: ');
+                if (raw === undefined) return this.leave(item, 'quit');
+                const reason = await this.prompter.ask('    Reason (optional): ');
+                await this.queue.decide(
+                    item.id,
+                    queued.index,
+                    { action: 'modified', value: parseValue(raw), reason: reason || undefined },
+                    this.userId
+                );
+            } else {
+                const reason = choice === 'r' ? await this.prompter.ask('    Reason (optional): ') : undefined;
+                await this.queue.decide(
+                    item.id,
+                    queued.index,
+                    { action: choice === 'a' ? 'approved' : 'rejected', reason: reason || undefined },
+                    this.userId
+                );
+            }
+            this.summary.decisions++;
+        }
+
+        const final = await this.choose('\n  [a]pprove invoice, [r]eject invoice, [l]eave for later, [q]uit? ', 'arlq');
+        if (final === 'q') return this.leave(item, 'quit');
+        if (final === 'l') return this.leave(item, 'skipped');
+
+        const finalDecision = final === 'a' ? 'approved' : 'rejected';
+        const { outcome } = await this.queue.complete(item.id, finalDecision, this.userId, this.memoryStore);
+        this.summary.completed++;
+        this.summary[finalDecision]++;
+
+        this.print(`  Invoice ${item.invoiceId} ${finalDecision}.`);
+        for (const note of outcome.notes) {
+            this.print(`    - ${note}`);
+        }
+        return 'completed';
+    }
+
+    /**
+     * Give an unfinished item back to the queue (decisions made so far are kept)
+     */
+    private async leave(item: ReviewItem, outcome: 'skipped' | 'quit'): Promise<ItemOutcome> {
+        await this.queue.release(item.id, this.userId);
+        this.skipped.add(item.id);
+        this.summary.skipped++;
+        return outcome;
+    }
+
+    /**
+     * Ask until the answer is one of the allowed letters (end of input means quit)
+     */
+    private async choose(question: string, allowed: string): Promise<string> {
+        for (;;) {
+            const answer = await this.prompter.ask(question);
+            if (answer === undefined) return 'q';
+
+            const letter = answer.trim().toLowerCase().charAt(0);
+            if (letter && allowed.includes(letter)) return letter;
+            this.print(`    Please answer one of: ${allowed.split('').join(', ')}`);
+        }
+    }
+
+    private printHeader(item: ReviewItem): void {
+        const { invoice, output } = item;
+        this.print('');
+        this.print('='.repeat(72));
+        this.print(`Invoice ${invoice.invoiceId} - ${item.vendorName}`);
+        this.print(
+            `Number ${invoice.invoiceNumber}, dated ${invoice.invoiceDate}, ` +
+            `total ${invoice.totalAmount} ${invoice.currency ?? '(no currency)'}`
+        );
+        this.print(`Confidence ${formatPercent(output.confidenceScore)}: ${output.reasoning}`);
+        if (item.corrections.length === 0) {
+            this.print('No corrections proposed.');
+        }
+    }
+
+    private printCorrection(queued: QueuedCorrection, total: number): void {
+        const { correction } = queued;
+        this.print('');
+        this.print(
+            `  [${queued.index + 1}/${total}] ${correction.field} ` +
+            `(confidence ${formatPercent(correction.confidence)}` +
+            `${correction.autoApplied ? ', auto-applied' : ''}` +
+            `${correction.source ? `, from ${correction.source}` : ''})`
+        );
+        this.print(`    Original: ${formatValue(correction.originalValue)}`);
+        this.print(`    Proposed: ${formatValue(correction.proposedValue)}`);
+        this.print(`    Reasoning: ${correction.reasoning}`);
+    }
+
+    private print(line: string): void {
+        this.output.write(line + '\n');
+    }
+}
+
+// =============================================================================
+// Input
+// =============================================================================
+
+/**
+ * Line-at-a-time prompts. Lines that arrive while no question is pending are
+ * kept for the next question, so piped input is not lost.
+ */
+class Prompter {
+    private readonly lines: string[] = [];
+    private waiting: ((line: string | undefined) => void) | undefined;
+    private closed = false;
+
+    constructor(
+        rl: readline.Interface,
+        private readonly output: NodeJS.WritableStream
+    ) {
+        rl.on('line', (line) => {
+            const waiting = this.waiting;
+            this.waiting = undefined;
+            if (waiting) waiting(line);
+            else this.lines.push(line);
+        });
+        rl.on('close', () => {
+            this.closed = true;
+            this.waiting?.(undefined);
+            this.waiting = undefined;
+        });
+        rl.on('SIGINT', () => rl.close());
+    }
+
+    /**
+     * Ask a question
+     *
+     * @returns The answer, or undefined once input has ended
+     */
+    ask(question: string): Promise<string | undefined> {
+        this.output.write(question);
+        if (this.lines.length > 0) return Promise.resolve(this.lines.shift());
+        if (this.closed) return Promise.resolve(undefined);
+        return new Promise((resolve) => {
+            this.waiting = resolve;
+        });
+    }
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatPercent(value: number): string {
+    return `${(value * 100).toFixed(0)}%`;
+}
+
+/**
+ * Typed values are entered as JSON (2500, true, null); anything else is kept as text
+ */
+function parseValue(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw.trim();
+    }
+}
@@ -76,6 +76,9 @@ export interface LineItem {
     amount: number;
     category?: string;
     productCode?: string;
+
+    /** VAT rate of this line in percent (e.g., 19, 7, 0), if extracted per line */
+    taxRate?: number;
 }
 
 /**
@@ -108,6 +111,9 @@ export interface NormalizedInvoice {
     currency: string;
     lineItems: NormalizedLineItem[];
 
+    /** Net, tax and gross per VAT rate (when the rates are known) */
+    taxSummary?: TaxSummaryEntry[];
+
     /** References */
     poNumber: string | null;
 
@@ -133,6 +139,260 @@ export interface NormalizedLineItem {
     amount: number;
     category: string | null;
     productCode: string | null;
+
+    /** VAT rate in percent (null when unknown) */
+    taxRate: number | null;
+}
+
+/**
+ * Amounts taxed at one VAT rate
+ */
+export interface TaxSummaryEntry {
+    /** VAT rate in percent */
+    rate: number;
+
+    netAmount: number;
+    taxAmount: number;
+    grossAmount: number;
+
+    /** Indexes of the line items taxed at this rate (empty when computed from the invoice total) */
+    lineIndexes: number[];
+}
+
+// =============================================================================
+// Reference Data Types
+// =============================================================================
+
+/**
+ * Line item on a purchase order
+ */
+export interface PurchaseOrderLineItem {
+    sku: string;
+    qty: number;
+    unitPrice: number;
+}
+
+/**
+ * Purchase order (shape of invoices/purchase_orders.json)
+ */
+export interface PurchaseOrder {
+    /** PO number (e.g., "PO-A-050") */
+    poNumber: string;
+
+    /** Vendor name */
+    vendor: string;
+
+    /** Order date in ISO 8601 format */
+    date: string;
+
+    /** Ordered line items */
+    lineItems: PurchaseOrderLineItem[];
+
+    /** Order status (orders without a status are treated as open) */
+    status?: 'open' | 'closed';
+}
+
+/**
+ * Line item on a delivery note
+ */
+export interface DeliveryNoteLineItem {
+    sku: string;
+    qtyDelivered: number;
+}
+
+/**
+ * Delivery note (shape of invoices/delivery_notes.json)
+ */
+export interface DeliveryNote {
+    /** Delivery note number (e.g., "DN-A-123") */
+    dnNumber: string;
+
+    /** Vendor name */
+    vendor: string;
+
+    /** Purchase order this delivery belongs to */
+    poNumber: string;
+
+    /** Delivery date in ISO 8601 format */
+    date: string;
+
+    /** Delivered line items */
+    lineItems: DeliveryNoteLineItem[];
+}
+
+// =============================================================================
+// Vendor Rule Types
+// =============================================================================
+
+/**
+ * Regular expression in a vendor rule file
+ */
+export interface RulePattern {
+    /** RegExp source (e.g., "mwst\\.?\\s*inkl") */
+    pattern: string;
+
+    /** RegExp flags (default "i") */
+    flags?: string;
+}
+
+/**
+ * Confidence of a rule's corrections, raised when vendor memory exists
+ */
+export interface RuleConfidence {
+    /** Confidence without vendor memory */
+    base: number;
+
+    /** Added to the vendor memory's confidence */
+    memoryBoost: number;
+
+    /** Upper bound for the boosted confidence */
+    max: number;
+}
+
+/**
+ * Fill a missing invoice field from metadata or rawText
+ */
+export interface FieldExtractionRule {
+    type: 'fieldExtraction';
+
+    /** Invoice field to fill (only proposed while the invoice has no value) */
+    targetField: string;
+
+    /** How the source field is called in notes (e.g., "Leistungsdatum") */
+    label: string;
+
+    /** Metadata keys holding the value, checked in order */
+    metadataKeys?: string[];
+
+    /** rawText patterns whose first capture group is the value, tried after the metadata keys */
+    rawTextPatterns?: RulePattern[];
+
+    /** Reasoning for the proposed correction */
+    reasoning: string;
+
+    confidence: RuleConfidence;
+}
+
+/**
+ * Recompute net and VAT when prices are marked as VAT-inclusive
+ */
+export interface VatInclusionRule {
+    type: 'vatIncluded';
+
+    /**
+     * Markers searched in rawText and the metadata field, first match wins.
+     * A marker's rate (percent) applies when neither the invoice nor the vendor memory has one.
+     */
+    markers: Array<RulePattern & { marker: string; rate: number }>;
+
+    /** Metadata field searched besides rawText (e.g., "vatInfo") */
+    metadataField?: string;
+
+    confidence: RuleConfidence;
+}
+
+/**
+ * Take a missing currency from rawText
+ */
+export interface CurrencyExtractionRule {
+    type: 'currencyFromRawText';
+
+    /** Patterns tried in order, first match wins */
+    patterns: Array<RulePattern & { currency: string }>;
+
+    confidence: number;
+
+    /** Confidence when the vendor's learned default currency agrees */
+    confirmedConfidence: number;
+}
+
+/**
+ * Detect Skonto (early payment discount) terms
+ */
+export interface SkontoRule {
+    type: 'skonto';
+
+    /** Patterns searched in rawText and metadata: 1st group discount percent, 2nd group days */
+    patterns: RulePattern[];
+
+    /** Pattern whose first group is the net payment days */
+    netDaysPattern?: RulePattern;
+
+    confidence: number;
+
+    /** Apply the terms regardless of the auto-apply threshold */
+    alwaysApply?: boolean;
+}
+
+/**
+ * Propose a SKU for line items without a product code, by description
+ */
+export interface SkuMappingRule {
+    type: 'skuMapping';
+
+    sku: string;
+
+    /** What the matched items are, for reasoning (e.g., "shipping") */
+    label: string;
+
+    descriptionPatterns: RulePattern[];
+
+    confidence: RuleConfidence;
+}
+
+/**
+ * Note a PO reference the vendor memory makes plausible
+ */
+export interface PoReferenceRule {
+    type: 'poReference';
+
+    /** Factor applied to the vendor memory's confidence */
+    confidenceFactor: number;
+
+    /** Minimum resulting confidence for the note */
+    minConfidence: number;
+}
+
+/**
+ * Note line items whose product codes can be matched against a PO
+ */
+export interface LineItemPoHintRule {
+    type: 'lineItemPoHints';
+}
+
+/**
+ * One rule of a vendor rule set
+ */
+export type VendorRule =
+    | FieldExtractionRule
+    | VatInclusionRule
+    | CurrencyExtractionRule
+    | SkontoRule
+    | SkuMappingRule
+    | PoReferenceRule
+    | LineItemPoHintRule;
+
+/**
+ * Declarative rules for one vendor (shape of the files in vendor-rules/)
+ */
+export interface VendorRuleSet {
+    /** Stable identifier (e.g., "parts-ag") */
+    id: string;
+
+    /** Display name, prefixed to the reasoning of the rules' corrections */
+    name: string;
+
+    /** Rule sets are matched in ascending order (default 100); the first match applies */
+    order?: number;
+
+    /** Which invoices the rules apply to */
+    match: {
+        /** Lowercase fragments of the vendor name */
+        nameContains: string[];
+    };
+
+    /** Rules, applied in order */
+    rules: VendorRule[];
 }
 
 // =============================================================================
@@ -170,9 +430,12 @@ export interface BaseMemoryRecord {
  * e.g., "Leistungsdatum" -> "serviceDate"
  */
 export interface FieldMapping {
-    /** Original field name as seen in vendor invoices */
+    /** Original field name as seen in vendor invoices (a metadata key, or a rawText label) */
     sourceField: string;
 
+    /** Where the source field is read from (default: metadata) */
+    source?: 'metadata' | 'rawText';
+
     /** Normalized/target field name in our system */
     targetField: string;
 
@@ -186,6 +449,19 @@ export interface FieldMapping {
     exampleValues?: string[];
 }
 
+/**
+ * Order and separator of an invoice date (two-digit years read as 20xx)
+ */
+export type DateFormat =
+    | 'YYYY-MM-DD'
+    | 'DD.MM.YYYY'
+    | 'DD/MM/YYYY'
+    | 'MM/DD/YYYY'
+    | 'DD-MM-YYYY'
+    | 'MM-DD-YYYY'
+    | 'D MMMM YYYY'
+    | 'MMMM D, YYYY';
+
 /**
  * Vendor-specific behaviors and defaults
  */
@@ -213,6 +489,9 @@ export interface VendorBehavior {
 
     /** Tax recomputation rule */
     taxRecomputationRule?: 'useVendorTax' | 'recompute' | 'askHuman';
+
+    /** Date format of the vendor's invoices, used to read ambiguous dates like 05-02-2024 */
+    dateFormat?: DateFormat;
 }
 
 /**
@@ -238,6 +517,78 @@ export interface VendorMemory extends BaseMemoryRecord {
 
     /** Tax ID if known */
     taxId?: string;
+
+    /** Address if known (used to tell apart vendors with similar names) */
+    address?: string;
+
+    /** Canonical ID of the vendor this memory was merged into (the memory is then inactive) */
+    mergedInto?: string;
+}
+
+/**
+ * Outcome of merging one vendor memory into another
+ */
+export interface VendorMergeResult {
+    /** The combined vendor memory */
+    target: VendorMemory;
+
+    /** The merged vendor memory (now inactive) */
+    source: VendorMemory;
+
+    /** Correction memories re-pointed to the target */
+    correctionIds: string[];
+
+    /** Correction memories folded into an equivalent one of the target (now inactive) */
+    combinedCorrectionIds: string[];
+
+    /** Duplicate records re-pointed to the target */
+    duplicateIds: string[];
+
+    /** Conflicts and how they were resolved */
+    notes: string[];
+}
+
+/**
+ * What to move out of a vendor memory into a new one
+ */
+export interface VendorSplitSpec {
+    /** Canonical name of the new vendor */
+    canonicalName: string;
+
+    /** Canonical ID of the new vendor (default: derived from the name) */
+    canonicalId?: string;
+
+    /** Name variations that belong to the new vendor */
+    nameVariations: string[];
+
+    /** Source fields of the field mappings to move */
+    fieldMappings?: string[];
+
+    /** Correction memories to move */
+    correctionIds?: string[];
+
+    /** Duplicate records to move */
+    duplicateIds?: string[];
+
+    taxId?: string;
+    address?: string;
+}
+
+/**
+ * Outcome of splitting a vendor memory
+ */
+export interface VendorSplitResult {
+    /** The vendor memory that was split */
+    source: VendorMemory;
+
+    /** The new vendor memory */
+    created: VendorMemory;
+
+    /** Correction memories moved to the new vendor */
+    correctionIds: string[];
+
+    /** Duplicate records moved to the new vendor */
+    duplicateIds: string[];
 }
 
 /**
@@ -280,11 +631,14 @@ export interface CorrectionMemory extends BaseMemoryRecord {
  * Human decision record
  */
 export interface HumanDecision {
+    /** Unique decision ID (absent on decisions recorded before IDs existed) */
+    decisionId?: string;
+
     /** Type of decision */
-    decisionType: 'approveCorrection' | 'rejectCorrection' | 'approveInvoice' | 'escalate';
+    decisionType: 'approveCorrection' | 'rejectCorrection' | 'approveInvoice' | 'escalate' | 'revertDecision';
 
     /** The action taken */
-    action: 'approved' | 'rejected' | 'modified';
+    action: 'approved' | 'rejected' | 'modified' | 'reverted';
 
     /** Timestamp of the decision */
     timestamp: string;
@@ -294,6 +648,39 @@ export interface HumanDecision {
 
     /** User ID who made the decision */
     userId?: string;
+
+    /** Memory changes caused by this decision (used to revert it) */
+    effects?: DecisionEffect[];
+
+    /** For revert decisions: the decision that was reverted */
+    revertsDecisionId?: string;
+
+    /** ID of the decision that reverted this one */
+    revertedByDecisionId?: string;
+}
+
+/**
+ * Confidence, counters and activation of a memory at one point in time
+ */
+export interface MemoryStateSnapshot {
+    confidence: number;
+    reinforcementCount: number;
+    contradictionCount: number;
+    isActive: boolean;
+}
+
+/**
+ * Change a decision made to one memory
+ */
+export interface DecisionEffect {
+    /** ID of the affected memory */
+    memoryId: string;
+
+    /** State before the decision */
+    before: MemoryStateSnapshot;
+
+    /** State after the decision */
+    after: MemoryStateSnapshot;
 }
 
 /**
@@ -349,9 +736,9 @@ export interface DuplicateRecord extends BaseMemoryRecord {
 export type MemoryRecord = VendorMemory | CorrectionMemory | ResolutionMemory | DuplicateRecord;
 
 /**
- * Root memory store structure (legacy - used by MemoryManager)
+ * Legacy (1.x) memory store structure, read only for schema migration
  */
-export interface MemoryStore {
+export interface LegacyMemoryStoreData {
     /** Schema version for migration support */
     schemaVersion: string;
 
@@ -389,6 +776,9 @@ export interface MemoryStoreData {
     /** Last updated timestamp */
     lastUpdated: string;
 
+    /** Incremented on every save; lets concurrent writers detect each other */
+    revision: number;
+
     /** Vendor memories indexed by canonical vendor ID */
     vendorMemories: Record<string, VendorMemory>;
 
@@ -447,7 +837,7 @@ export interface ProposedCorrection {
     /** Reasoning for this correction */
     reasoning: string;
 
-    /** Source of this correction (memory ID or rule name) - optional for heuristic corrections */
+    /** Source of this correction (memory ID, rule name, or 'heuristic' for heuristic corrections) */
     source?: string;
 
     /** Whether this was auto-applied or needs review */
@@ -474,6 +864,23 @@ export interface MemoryUpdate {
     reason: string;
 }
 
+/**
+ * Outcome of applying a single memory update
+ */
+export interface MemoryUpdateResult {
+    /** The update that was applied */
+    update: MemoryUpdate;
+
+    /** Whether the update was applied */
+    success: boolean;
+
+    /** ID of the record that was created or changed */
+    recordId?: string;
+
+    /** Why the update failed */
+    error?: string;
+}
+
 /**
  * Final output from processing an invoice through the decision engine
  */
@@ -500,6 +907,91 @@ export interface InvoiceDecisionOutput {
     auditTrail: AuditTrailEntry[];
 }
 
+// =============================================================================
+// Memory Journal Types
+// =============================================================================
+
+/**
+ * Store operation that produced a journal event
+ */
+export type MemoryEventType =
+    | 'baseline'
+    | 'updateVendorMemory'
+    | 'addVendorFieldMapping'
+    | 'recordCorrection'
+    | 'recordResolution'
+    | 'recordDuplicate'
+    | 'reinforceMemory'
+    | 'penalizeMemory'
+    | 'applyDecay'
+    | 'revertDecision'
+    | 'mergeVendorMemories'
+    | 'splitVendorMemory'
+    | 'applyUpdate'
+    | 'updateStats';
+
+/**
+ * A single memory mutation recorded in the journal
+ */
+export interface MemoryEvent {
+    /** When the mutation happened */
+    timestamp: string;
+
+    /** Operation that produced the event */
+    type: MemoryEventType;
+
+    /** Memory type of the affected record (absent for stats events) */
+    memoryType?: MemoryRecord['type'];
+
+    /** Key of the affected record (canonicalId for vendors, id otherwise) */
+    recordKey?: string;
+
+    /** Record state after the mutation (null when the record was removed) */
+    after?: MemoryRecord | null;
+
+    /** Statistics after the mutation (stats events only) */
+    stats?: MemoryStoreData['stats'];
+}
+
+// =============================================================================
+// Human Correction Types
+// =============================================================================
+
+/**
+ * A single field edit made by a human reviewer
+ */
+export interface HumanFieldCorrection {
+    /** Field that was corrected (e.g., "serviceDate", "lineItems[0].sku") */
+    field: string;
+
+    /** Value before the correction */
+    from: unknown;
+
+    /** Value after the correction */
+    to: unknown;
+
+    /** Reviewer's explanation for the correction */
+    reason: string;
+}
+
+/**
+ * Human correction record for an invoice
+ * (shape of invoices/human_corrections.json)
+ */
+export interface HumanCorrectionRecord {
+    /** Invoice the corrections belong to */
+    invoiceId: string;
+
+    /** Vendor name as seen by the reviewer */
+    vendor: string;
+
+    /** Field-level corrections */
+    corrections: HumanFieldCorrection[];
+
+    /** Final decision on the invoice */
+    finalDecision: 'approved' | 'rejected';
+}
+
 // =============================================================================
 // Configuration Types
 // =============================================================================
@@ -0,0 +1,159 @@
+/**
+ * Amount Parsing
+ *
+ * Reads amounts as invoices write them: "1.234,56 EUR", "2,380.00", "€ 99,90",
+ * "USD 1 234.50", and credits as "-12,50", "12,50-", "(12.50)" or "12.50 CR".
+ * German and English separators are told apart by position: the last "." or ","
+ * is the decimal separator when both occur; a single one followed by exactly
+ * three digits groups thousands ("2.380" is 2380), otherwise it is the decimal
+ * separator ("99,9" is 99.90).
+ */
+
+/**
+ * An amount read from text
+ */
+export interface ParsedAmount {
+    /** Amount, negative for credits */
+    amount: number;
+
+    /** ISO currency code, if a currency symbol or code was written with the amount */
+    currency?: string;
+
+    /** Text the amount was read from */
+    text: string;
+}
+
+/**
+ * Currency symbols and the ISO codes they stand for
+ */
+export const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '$': 'USD', '£': 'GBP' };
+
+const CURRENCY_CODES = ['EUR', 'USD', 'GBP', 'CHF'];
+const CURRENCY = `(?:(?:${CURRENCY_CODES.join('|')})\\b|€|\\$|£)`;
+
+/** Digits with optional thousands grouping and up to two decimals */
+const NUMBER = `(?:\\d{1,3}(?:[.,'\\u00a0\\u202f]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)`;
+
+/** An amount with its currency before or after it, in running text */
+const AMOUNT_WITH_CURRENCY = new RegExp(
+    `(?<![\\w.,])(?:\\(\\s*)?[-−]?\\s*(?:${CURRENCY}\\s*[-−]?\\s*${NUMBER}|${NUMBER}\\s*[-−]?\\s*${CURRENCY})` +
+    `(?:\\s*\\))?(?:\\s*[-−](?![\\d\\w]))?(?:\\s+CR\\b)?`,
+    'gi'
+);
+
+const LEADING_CURRENCY = new RegExp(`^${CURRENCY}\\s*`, 'i');
+const TRAILING_CURRENCY = new RegExp(`\\s*${CURRENCY}$`, 'i');
+const GROUPED_NUMBER = /^\d{1,3}(?:['\s]\d{3})+(?:[.,]\d+)?$/;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Read an amount written on its own ("1.234,56 EUR", "-€ 12,50", "(99.90)")
+ *
+ * @returns undefined if the text is not an amount
+ */
+export function parseAmount(text: string): ParsedAmount | undefined {
+    let rest = text.trim();
+    let currency: string | undefined;
+    let negative = false;
+
+    // Currency, sign, parentheses and credit markers wrap the number in any order
+    let stripped = true;
+    while (stripped && rest.length > 0) {
+        stripped = false;
+
+        const leadingCurrency = rest.match(LEADING_CURRENCY);
+        const trailingCurrency = rest.match(TRAILING_CURRENCY);
+        if (!currency && (leadingCurrency || trailingCurrency)) {
+            const token = (leadingCurrency ?? trailingCurrency)?.[0] ?? '';
+            currency = toCurrencyCode(token.trim());
+            rest = leadingCurrency ? rest.slice(token.length) : rest.slice(0, -token.length);
+            stripped = true;
+        } else if (!negative && /^\(.*\)$/.test(rest)) {
+            rest = rest.slice(1, -1).trim();
+            negative = stripped = true;
+        } else if (!negative && /^[-−]/.test(rest)) {
+            rest = rest.slice(1).trim();
+            negative = stripped = true;
+        } else if (!negative && /(?:[-−]|\s+CR)$/i.test(rest)) {
+            rest = rest.replace(/(?:[-−]|\s+CR)$/i, '').trim();
+            negative = stripped = true;
+        }
+    }
+
+    const value = parseNumber(rest);
+    if (value === undefined) return undefined;
+
+    return { amount: negative && value !== 0 ? -value : value, ...(currency ? { currency } : {}), text: text.trim() };
+}
+
+/**
+ * Amounts written with a currency in running text, in order of appearance
+ */
+export function findAmounts(text: string): ParsedAmount[] {
+    const amounts: ParsedAmount[] = [];
+    for (const match of text.matchAll(AMOUNT_WITH_CURRENCY)) {
+        const parsed = parseAmount(match[0]);
+        if (parsed?.currency) amounts.push(parsed);
+    }
+    return amounts;
+}
+
+/**
+ * Whether two amounts are equal up to a tolerance (half a cent by default)
+ */
+export function amountsMatch(a: number, b: number, tolerance: number = 0.005): boolean {
+    return Math.abs(a - b) <= tolerance;
+}
+
+/**
+ * ISO code for a currency symbol or code ("€" -> "EUR", "chf" -> "CHF")
+ */
+export function toCurrencyCode(token: string): string | undefined {
+    if (CURRENCY_SYMBOLS[token]) return CURRENCY_SYMBOLS[token];
+    const code = token.toUpperCase();
+    return CURRENCY_CODES.includes(code) ? code : undefined;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Number from digits with "." and "," as thousands or decimal separators
+ */
+function parseNumber(text: string): number | undefined {
+    // Spaces and apostrophes only ever group thousands ("1 234,56", "1'234.56")
+    if (/['\s]/.test(text) && !GROUPED_NUMBER.test(text)) return undefined;
+    const compact = text.replace(/['\s]/g, '');
+    if (!/^\d[\d.,]*$/.test(compact) || !/\d$/.test(compact)) return undefined;
+
+    const lastDot = compact.lastIndexOf('.');
+    const lastComma = compact.lastIndexOf(',');
+    const separators = compact.replace(/\d/g, '');
+
+    let decimalSeparator: string | undefined;
+    if (lastDot >= 0 && lastComma >= 0) {
+        decimalSeparator = lastDot > lastComma ? '.' : ',';
+    } else if (separators.length === 1) {
+        // "2.380" groups thousands; "2380.5", "99,90" and "0,125" have decimals
+        const decimals = compact.length - Math.max(lastDot, lastComma) - 1;
+        decimalSeparator = decimals === 3 && !/^0[.,]/.test(compact) ? undefined : separators;
+    }
+
+    const decimalIndex = decimalSeparator ? compact.lastIndexOf(decimalSeparator) : -1;
+    const integerPart = decimalIndex >= 0 ? compact.slice(0, decimalIndex) : compact;
+    const fraction = decimalIndex >= 0 ? compact.slice(decimalIndex + 1) : '';
+
+    // Thousands groups after the first must have three digits
+    const groups = integerPart.split(/[.,]/);
+    if (groups.length > 1 && (groups[0].length > 3 || groups.slice(1).some((group) => group.length !== 3))) {
+        return undefined;
+    }
+    if (/[.,]/.test(fraction)) return undefined;
+
+    const amount = Number(`${groups.join('')}${fraction ? `.${fraction}` : ''}`);
+    return Number.isFinite(amount) ? amount : undefined;
+}
@@ -0,0 +1,193 @@
+/**
+ * Date Parsing
+ *
+ * Reads invoice dates as vendors write them: ISO, 12.01.2024, 12/01/2024,
+ * 01/12/2024, 12-01-2024 and textual months ("12 January 2024",
+ * "12. Januar 2024", "Jan 12, 2024"). Numeric dates with "/" or "-" whose day
+ * and month can be swapped are reported as ambiguous; a vendor's learned
+ * DateFormat decides how they are read. Without one, day-first wins.
+ */
+
+import { DateFormat } from '../types';
+
+/**
+ * A date read from text
+ */
+export interface ParsedDate {
+    /** ISO date (YYYY-MM-DD) */
+    iso: string;
+
+    /** Format the date was read in */
+    format: DateFormat;
+
+    /** Whether day and month could be swapped and no preferred format decided between them */
+    ambiguous: boolean;
+
+    /** ISO date of the other reading of an ambiguous date */
+    alternative?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/;
+const NUMERIC_PATTERN = /^(\d{1,2})([./-])(\d{1,2})\2(\d{4}|\d{2})$/;
+const DAY_MONTH_PATTERN = /^(\d{1,2})\.?[\s-]+([a-zäöü]+)\.?,?[\s-]+(\d{4})$/i;
+const MONTH_DAY_PATTERN = /^([a-zäöü]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i;
+
+/**
+ * Formats of numeric dates per separator (dots are always day-first)
+ */
+const NUMERIC_FORMATS: Record<string, { dayFirst: DateFormat; monthFirst?: DateFormat }> = {
+    '.': { dayFirst: 'DD.MM.YYYY' },
+    '/': { dayFirst: 'DD/MM/YYYY', monthFirst: 'MM/DD/YYYY' },
+    '-': { dayFirst: 'DD-MM-YYYY', monthFirst: 'MM-DD-YYYY' },
+};
+
+/**
+ * English and German month names and abbreviations
+ */
+const MONTH_NAMES = [
+    ['january', 'jan', 'januar', 'jänner', 'jän'],
+    ['february', 'feb', 'februar'],
+    ['march', 'mar', 'märz', 'maerz', 'mär', 'mrz'],
+    ['april', 'apr'],
+    ['may', 'mai'],
+    ['june', 'jun', 'juni'],
+    ['july', 'jul', 'juli'],
+    ['august', 'aug'],
+    ['september', 'sep', 'sept'],
+    ['october', 'oct', 'oktober', 'okt'],
+    ['november', 'nov'],
+    ['december', 'dec', 'dezember', 'dez'],
+];
+
+const MONTHS = new Map(MONTH_NAMES.flatMap((names, i) => names.map((name): [string, number] => [name, i + 1])));
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Read a date, with its format and whether day and month are ambiguous
+ *
+ * @param preferredFormat The vendor's learned format, which settles ambiguous dates
+ * @returns null if the value is not a valid date in a known format
+ */
+export function parseDateWithFormat(value: string, preferredFormat?: DateFormat): ParsedDate | null {
+    const readings = readDate(value);
+    if (readings.length === 0) return null;
+
+    const preferred = readings.find((reading) => reading.format === preferredFormat);
+    const chosen = preferred ?? readings[0];
+    const other = readings.find((reading) => reading.iso !== chosen.iso);
+
+    if (!preferred && other) {
+        return { iso: chosen.iso, format: chosen.format, ambiguous: true, alternative: other.iso };
+    }
+    return { iso: chosen.iso, format: chosen.format, ambiguous: false };
+}
+
+/**
+ * Parse a date into ISO format (YYYY-MM-DD)
+ * Returns null if the date cannot be parsed
+ */
+export function parseDate(value: string, preferredFormat?: DateFormat): string | null {
+    return parseDateWithFormat(value, preferredFormat)?.iso ?? null;
+}
+
+/**
+ * Format a date is unambiguously written in
+ *
+ * @returns undefined for unparseable dates and for dates like 05-02-2024 or
+ *          03-03-2024 that read as both day-first and month-first
+ */
+export function detectDateFormat(value: string): DateFormat | undefined {
+    const readings = readDate(value);
+    return readings.length === 1 ? readings[0].format : undefined;
+}
+
+/**
+ * Format under which a date reads as its corrected ISO value
+ * ("05-02-2024" corrected to "2024-02-05" is DD-MM-YYYY)
+ */
+export function inferDateFormat(original: string, corrected: string): DateFormat | undefined {
+    const iso = parseDate(corrected);
+    const matches = readDate(original).filter((reading) => reading.iso === iso);
+    return matches.length === 1 ? matches[0].format : undefined;
+}
+
+/**
+ * Year and month of a date ("2024-01"), for hashing; unparseable dates are kept as written
+ */
+export function dateMonthKey(value: string, preferredFormat?: DateFormat): string {
+    return parseDate(value, preferredFormat)?.substring(0, 7) ?? value.trim();
+}
+
+/**
+ * Days from one date to another (negative if `to` is earlier)
+ *
+ * @returns null if either date cannot be parsed
+ */
+export function daysBetween(from: string, to: string): number | null {
+    const fromIso = parseDate(from);
+    const toIso = parseDate(to);
+    if (!fromIso || !toIso) return null;
+    return (Date.parse(toIso) - Date.parse(fromIso)) / DAY_MS;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Every valid reading of a date, day-first before month-first
+ */
+function readDate(value: string): Array<{ iso: string; format: DateFormat }> {
+    const text = value.trim();
+    const readings: Array<{ iso: string; format: DateFormat }> = [];
+    const add = (iso: string | undefined, format: DateFormat | undefined): void => {
+        if (iso && format) readings.push({ iso, format });
+    };
+
+    const iso = text.match(ISO_PATTERN);
+    if (iso) {
+        add(toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3])), 'YYYY-MM-DD');
+        return readings;
+    }
+
+    const numeric = text.match(NUMERIC_PATTERN);
+    if (numeric) {
+        const [, first, separator, second, yearText] = numeric;
+        const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+        const formats = NUMERIC_FORMATS[separator];
+        add(toIsoDate(year, Number(second), Number(first)), formats.dayFirst);
+        add(toIsoDate(year, Number(first), Number(second)), formats.monthFirst);
+        return readings;
+    }
+
+    const dayMonth = text.match(DAY_MONTH_PATTERN);
+    if (dayMonth) {
+        const month = MONTHS.get(dayMonth[2].toLowerCase());
+        add(month ? toIsoDate(Number(dayMonth[3]), month, Number(dayMonth[1])) : undefined, 'D MMMM YYYY');
+        return readings;
+    }
+
+    const monthDay = text.match(MONTH_DAY_PATTERN);
+    if (monthDay) {
+        const month = MONTHS.get(monthDay[1].toLowerCase());
+        add(month ? toIsoDate(Number(monthDay[3]), month, Number(monthDay[2])) : undefined, 'MMMM D, YYYY');
+    }
+
+    return readings;
+}
+
+/**
+ * ISO date for a year, month and day, if that day exists
+ */
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return undefined;
+    }
+    return date.toISOString().substring(0, 10);
+}
@@ -0,0 +1,100 @@
+/**
+ * File helpers for crash-safe persistence
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Check whether a file exists
+ */
+export async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.promises.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Ensure the parent directory of a file exists
+ */
+export async function ensureDirectory(filePath: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+}
+
+/**
+ * Write a file atomically: write a temp file in the same directory,
+ * flush it to disk, then rename it over the target.
+ * Readers see either the old or the new content, never a partial write.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+    await ensureDirectory(filePath);
+
+    const tempPath = `${filePath}.tmp-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+        await handle.writeFile(content, 'utf-8');
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+
+    try {
+        await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.promises.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Path of the n-th rotating backup of a file (1 = newest)
+ */
+export function backupPath(filePath: string, index: number): string {
+    return `${filePath}.bak.${index}`;
+}
+
+/**
+ * Rotate backups of a file: file -> .bak.1 -> .bak.2 ... -> .bak.<count> (dropped)
+ */
+export async function rotateBackups(filePath: string, count: number): Promise<void> {
+    if (count <= 0 || !(await fileExists(filePath))) return;
+
+    await fs.promises.rm(backupPath(filePath, count), { force: true });
+    for (let i = count - 1; i >= 1; i--) {
+        const from = backupPath(filePath, i);
+        if (await fileExists(from)) {
+            await fs.promises.rename(from, backupPath(filePath, i + 1));
+        }
+    }
+    await fs.promises.copyFile(filePath, backupPath(filePath, 1));
+}
+
+/**
+ * List existing backups of a file, newest first
+ */
+export async function listBackups(filePath: string, count: number): Promise<string[]> {
+    const backups: string[] = [];
+    for (let i = 1; i <= count; i++) {
+        const candidate = backupPath(filePath, i);
+        if (await fileExists(candidate)) {
+            backups.push(candidate);
+        }
+    }
+    return backups;
+}
+
+/**
+ * Copy a corrupt file aside so it can be inspected later
+ *
+ * @returns Path of the quarantined copy
+ */
+export async function quarantineFile(filePath: string): Promise<string> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const quarantinePath = `${filePath}.corrupt-${stamp}`;
+    await fs.promises.copyFile(filePath, quarantinePath);
+    return quarantinePath;
+}
@@ -86,16 +86,33 @@ export function formatCurrency(amount: number, currency: string): string {
 }
 
 /**
- * Parse a date string into a standardized ISO format
- * Returns null if the date cannot be parsed
+ * Logger settings
  */
-export function parseDate(dateString: string): string | null {
-    try {
-        const date = new Date(dateString);
-        if (isNaN(date.getTime())) return null;
-        return date.toISOString().split('T')[0];
-    } catch {
-        return null;
+export interface LoggerOptions {
+    /** Stream for info and debug messages (warnings and errors always go to stderr) */
+    output?: 'stdout' | 'stderr';
+
+    /** Suppress info messages */
+    quiet?: boolean;
+}
+
+const loggerOptions: Required<LoggerOptions> = {
+    output: 'stdout',
+    quiet: false,
+};
+
+/**
+ * Change logger settings (e.g. keep stdout free for command output)
+ */
+export function configureLogger(options: LoggerOptions): void {
+    Object.assign(loggerOptions, options);
+}
+
+function writeInfo(line: string, data?: unknown): void {
+    if (loggerOptions.output === 'stderr') {
+        console.error(line, data ? data : '');
+    } else {
+        console.log(line, data ? data : '');
     }
 }
 
@@ -104,7 +121,9 @@ export function parseDate(dateString: string): string | null {
  */
 export const logger = {
     info: (message: string, data?: unknown): void => {
-        console.log(`[INFO] ${getTimestamp()} - ${message}`, data ? data : '');
+        if (!loggerOptions.quiet) {
+            writeInfo(`[INFO] ${getTimestamp()} - ${message}`, data);
+        }
     },
     warn: (message: string, data?: unknown): void => {
         console.warn(`[WARN] ${getTimestamp()} - ${message}`, data ? data : '');
@@ -114,7 +133,7 @@ export const logger = {
     },
     debug: (message: string, data?: unknown): void => {
         if (process.env.DEBUG) {
-            console.log(`[DEBUG] ${getTimestamp()} - ${message}`, data ? data : '');
+            writeInfo(`[DEBUG] ${getTimestamp()} - ${message}`, data);
         }
     },
 };
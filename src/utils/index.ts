@@ -2,3 +2,7 @@
  * Utils module exports
  */
 export * from './helpers';
+export * from './dates';
+export * from './amounts';
+export * from './files';
+export * from './lock';
@@ -0,0 +1,321 @@
+/**
+ * File Locks
+ *
+ * Advisory locks that let several worker processes share memory and audit
+ * files. A lock is a `<file>.lock` file created exclusively; it records the
+ * owner's PID, host and acquisition time. A lock whose owner is no longer
+ * running on this host, or that is older than the stale timeout, is broken.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CONCURRENCY } from '../config';
+import { ensureDirectory } from './files';
+import { logger } from './helpers';
+
+/**
+ * Lock acquisition options (defaults come from CONCURRENCY)
+ */
+export interface FileLockOptions {
+    /** Take the lock at all; when false the callback runs unlocked */
+    enabled?: boolean;
+
+    /** Retries after a failed attempt before giving up */
+    retries?: number;
+
+    /** Delay before the first retry; doubles on each attempt */
+    retryDelayMs?: number;
+
+    /** Upper bound for the retry delay */
+    maxRetryDelayMs?: number;
+
+    /** Age after which a lock is treated as abandoned */
+    staleMs?: number;
+}
+
+/**
+ * A held lock
+ */
+export interface FileLock {
+    /** File the lock protects */
+    filePath: string;
+
+    /** Path of the lock file */
+    lockPath: string;
+
+    /** Identifies this holder (a broken and re-taken lock has another token) */
+    token: string;
+}
+
+/**
+ * Contents of a lock file
+ */
+interface LockOwner {
+    token: string;
+    pid: number;
+    hostname: string;
+    acquiredAt: string;
+}
+
+/**
+ * Raised when a lock could not be acquired within the retry policy
+ */
+export class LockTimeoutError extends Error {
+    constructor(
+        public readonly lockPath: string,
+        public readonly attempts: number
+    ) {
+        super(`Could not acquire lock ${lockPath} after ${attempts} attempt(s)`);
+        this.name = 'LockTimeoutError';
+    }
+}
+
+/**
+ * Lock file that guards a file
+ */
+export function lockPathFor(filePath: string): string {
+    return `${filePath}.lock`;
+}
+
+// =============================================================================
+// Async API
+// =============================================================================
+
+/**
+ * Acquire the lock for a file, retrying with backoff and breaking stale locks
+ *
+ * @throws LockTimeoutError if the lock is still held after all retries
+ */
+export async function acquireFileLock(filePath: string, options: FileLockOptions = {}): Promise<FileLock> {
+    const lockPath = lockPathFor(filePath);
+    const owner = createOwner();
+    await ensureDirectory(lockPath);
+
+    let attempt = 0;
+    for (;;) {
+        try {
+            await fs.promises.writeFile(lockPath, JSON.stringify(owner), { flag: 'wx' });
+            return { filePath, lockPath, token: owner.token };
+        } catch (error) {
+            if (!isAlreadyExists(error)) throw error;
+        }
+
+        if (await breakIfStale(lockPath, options)) continue;
+
+        if (attempt >= (options.retries ?? CONCURRENCY.LOCK_RETRIES)) {
+            throw new LockTimeoutError(lockPath, attempt + 1);
+        }
+        await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt++, options)));
+    }
+}
+
+/**
+ * Release a lock (left alone if it was broken and taken by someone else)
+ */
+export async function releaseFileLock(lock: FileLock): Promise<void> {
+    let raw: string;
+    try {
+        raw = await fs.promises.readFile(lock.lockPath, 'utf-8');
+    } catch {
+        logger.warn(`Lock ${lock.lockPath} disappeared before release`);
+        return;
+    }
+
+    if (parseOwner(raw)?.token !== lock.token) {
+        logger.warn(`Lock ${lock.lockPath} was taken over by another process before release`);
+        return;
+    }
+    await fs.promises.rm(lock.lockPath, { force: true });
+}
+
+/**
+ * Run a function while holding the lock for a file
+ */
+export async function withFileLock<T>(
+    filePath: string,
+    fn: () => Promise<T>,
+    options: FileLockOptions = {}
+): Promise<T> {
+    if (!(options.enabled ?? CONCURRENCY.LOCKING)) {
+        return fn();
+    }
+
+    const lock = await acquireFileLock(filePath, options);
+    try {
+        return await fn();
+    } finally {
+        await releaseFileLock(lock);
+    }
+}
+
+async function breakIfStale(lockPath: string, options: FileLockOptions): Promise<boolean> {
+    let raw: string;
+    let ageMs: number;
+    try {
+        raw = await fs.promises.readFile(lockPath, 'utf-8');
+        ageMs = Date.now() - (await fs.promises.stat(lockPath)).mtimeMs;
+    } catch {
+        // Released in the meantime
+        return true;
+    }
+
+    if (!isStale(parseOwner(raw), ageMs, options)) return false;
+
+    // Move the lock aside first so only one process breaks it
+    const asidePath = `${lockPath}.stale-${crypto.randomBytes(4).toString('hex')}`;
+    try {
+        await fs.promises.rename(lockPath, asidePath);
+    } catch {
+        return true;
+    }
+    await fs.promises.rm(asidePath, { force: true });
+    logger.warn(`Broke stale lock ${lockPath}`);
+    return true;
+}
+
+// =============================================================================
+// Sync API (for synchronous appenders such as the audit log)
+// =============================================================================
+
+/**
+ * Synchronous variant of acquireFileLock (blocks the thread while waiting)
+ */
+export function acquireFileLockSync(filePath: string, options: FileLockOptions = {}): FileLock {
+    const lockPath = lockPathFor(filePath);
+    const owner = createOwner();
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+    let attempt = 0;
+    for (;;) {
+        try {
+            fs.writeFileSync(lockPath, JSON.stringify(owner), { flag: 'wx' });
+            return { filePath, lockPath, token: owner.token };
+        } catch (error) {
+            if (!isAlreadyExists(error)) throw error;
+        }
+
+        if (breakIfStaleSync(lockPath, options)) continue;
+
+        if (attempt >= (options.retries ?? CONCURRENCY.LOCK_RETRIES)) {
+            throw new LockTimeoutError(lockPath, attempt + 1);
+        }
+        sleepSync(retryDelay(attempt++, options));
+    }
+}
+
+/**
+ * Synchronous variant of releaseFileLock
+ */
+export function releaseFileLockSync(lock: FileLock): void {
+    let raw: string;
+    try {
+        raw = fs.readFileSync(lock.lockPath, 'utf-8');
+    } catch {
+        logger.warn(`Lock ${lock.lockPath} disappeared before release`);
+        return;
+    }
+
+    if (parseOwner(raw)?.token !== lock.token) {
+        logger.warn(`Lock ${lock.lockPath} was taken over by another process before release`);
+        return;
+    }
+    fs.rmSync(lock.lockPath, { force: true });
+}
+
+/**
+ * Synchronous variant of withFileLock
+ */
+export function withFileLockSync<T>(filePath: string, fn: () => T, options: FileLockOptions = {}): T {
+    if (!(options.enabled ?? CONCURRENCY.LOCKING)) {
+        return fn();
+    }
+
+    const lock = acquireFileLockSync(filePath, options);
+    try {
+        return fn();
+    } finally {
+        releaseFileLockSync(lock);
+    }
+}
+
+function breakIfStaleSync(lockPath: string, options: FileLockOptions): boolean {
+    let raw: string;
+    let ageMs: number;
+    try {
+        raw = fs.readFileSync(lockPath, 'utf-8');
+        ageMs = Date.now() - fs.statSync(lockPath).mtimeMs;
+    } catch {
+        return true;
+    }
+
+    if (!isStale(parseOwner(raw), ageMs, options)) return false;
+
+    const asidePath = `${lockPath}.stale-${crypto.randomBytes(4).toString('hex')}`;
+    try {
+        fs.renameSync(lockPath, asidePath);
+    } catch {
+        return true;
+    }
+    fs.rmSync(asidePath, { force: true });
+    logger.warn(`Broke stale lock ${lockPath}`);
+    return true;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createOwner(): LockOwner {
+    return {
+        token: crypto.randomBytes(8).toString('hex'),
+        pid: process.pid,
+        hostname: os.hostname(),
+        acquiredAt: new Date().toISOString(),
+    };
+}
+
+function parseOwner(raw: string): LockOwner | null {
+    try {
+        return JSON.parse(raw) as LockOwner;
+    } catch {
+        // Lock file is being written or was truncated
+        return null;
+    }
+}
+
+/**
+ * A lock is stale when it is too old, or its owner process on this host is gone
+ */
+function isStale(owner: LockOwner | null, ageMs: number, options: FileLockOptions): boolean {
+    if (ageMs > (options.staleMs ?? CONCURRENCY.STALE_LOCK_MS)) return true;
+    if (!owner || owner.hostname !== os.hostname()) return false;
+    return !isProcessAlive(owner.pid);
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        // Signal 0 only checks that the process exists
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+function retryDelay(attempt: number, options: FileLockOptions): number {
+    const base = options.retryDelayMs ?? CONCURRENCY.LOCK_RETRY_DELAY_MS;
+    const max = options.maxRetryDelayMs ?? CONCURRENCY.LOCK_MAX_RETRY_DELAY_MS;
+    // Jitter keeps workers that collided from retrying in lockstep
+    return Math.min(max, base * 2 ** attempt) * (0.5 + Math.random() / 2);
+}
+
+function isAlreadyExists(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException).code === 'EEXIST';
+}
+
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}